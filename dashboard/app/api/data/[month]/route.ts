@@ -1,6 +1,6 @@
-import { readFile } from 'fs/promises'
-import { join } from 'path'
 import { NextRequest, NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { PERIOD_ID_PATTERN } from '@/lib/utils'
 
 export async function GET(
   request: NextRequest,
@@ -9,22 +9,21 @@ export async function GET(
   try {
     const { month } = await context.params
     
-    // Validate month format
-    if (!/^\d{4}-\d{2}$/.test(month)) {
+    // Validate period format
+    if (!PERIOD_ID_PATTERN.test(month)) {
       return NextResponse.json(
-        { error: 'Invalid month format. Use YYYY-MM' },
+        { error: 'Invalid period format. Use YYYY-MM, YYYY-QN or YYYY-MM-DD_YYYY-MM-DD' },
         { status: 400 }
       )
     }
     
-    const filePath = join(process.cwd(), '../output', `pr-reviews-${month}.json`)
-    const data = await readFile(filePath, 'utf-8')
+    const data = await getStorage().readFile(`pr-reviews-${month}.json`)
     
     return NextResponse.json(JSON.parse(data))
   } catch (error) {
     console.error('Error reading data:', error)
     return NextResponse.json(
-      { error: 'Data not found for this month' },
+      { error: 'Data not found for this period' },
       { status: 404 }
     )
   }
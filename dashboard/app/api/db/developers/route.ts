@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMetricsDb, queryDeveloperStats } from '@/lib/metrics-db'
+
+export async function GET(request: NextRequest) {
+  const since = request.nextUrl.searchParams.get('since')
+  const until = request.nextUrl.searchParams.get('until')
+  const repo = request.nextUrl.searchParams.get('repo')
+
+  // Validate window format
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/
+  if (!since || !until || !datePattern.test(since) || !datePattern.test(until) || since > until) {
+    return NextResponse.json(
+      { error: 'Invalid window. Use since=YYYY-MM-DD&until=YYYY-MM-DD' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const db = getMetricsDb()
+    if (!db) {
+      return NextResponse.json(
+        { error: 'SQLite store is not configured. Set SQLITE_PATH' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(queryDeveloperStats(db, { since, until, repo: repo || null }))
+  } catch (error) {
+    console.error('Error querying developer stats:', error)
+    return NextResponse.json(
+      { error: 'Failed to query developer stats' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMetricsDb, queryTrends } from '@/lib/metrics-db'
+import { DbTrendGranularity } from '@/types/metrics'
+
+export async function GET(request: NextRequest) {
+  const since = request.nextUrl.searchParams.get('since')
+  const until = request.nextUrl.searchParams.get('until')
+  const granularity = request.nextUrl.searchParams.get('granularity') || 'month'
+  const developer = request.nextUrl.searchParams.get('developer')
+
+  // Validate window format
+  const datePattern = /^\d{4}-\d{2}-\d{2}$/
+  if (!since || !until || !datePattern.test(since) || !datePattern.test(until) || since > until) {
+    return NextResponse.json(
+      { error: 'Invalid window. Use since=YYYY-MM-DD&until=YYYY-MM-DD' },
+      { status: 400 }
+    )
+  }
+
+  if (granularity !== 'month' && granularity !== 'week') {
+    return NextResponse.json(
+      { error: 'Invalid granularity. Use month or week' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const db = getMetricsDb()
+    if (!db) {
+      return NextResponse.json(
+        { error: 'SQLite store is not configured. Set SQLITE_PATH' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(queryTrends(db, {
+      since,
+      until,
+      granularity: granularity as DbTrendGranularity,
+      developer: developer || null,
+    }))
+  } catch (error) {
+    console.error('Error querying trends:', error)
+    return NextResponse.json(
+      { error: 'Failed to query trends' },
+      { status: 500 }
+    )
+  }
+}
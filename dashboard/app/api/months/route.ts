@@ -1,19 +1,18 @@
-import { readdir } from 'fs/promises'
-import { join } from 'path'
 import { NextResponse } from 'next/server'
+import { getStorage } from '@/lib/storage'
+import { PERIOD_ID_PATTERN, sortPeriodsDesc } from '@/lib/utils'
 
 export async function GET() {
   try {
-    const outputDir = join(process.cwd(), '../output')
-    const files = await readdir(outputDir)
+    const files = await getStorage().listFiles()
     
-    const months = files
-      .filter(f => f.match(/^pr-reviews-\d{4}-\d{2}\.json$/))
+    // Monthly files plus quarters, sprints and custom date ranges
+    const periods = files
+      .filter(f => f.startsWith('pr-reviews-') && f.endsWith('.json'))
       .map(f => f.replace('pr-reviews-', '').replace('.json', ''))
-      .sort()
-      .reverse() // Most recent first
+      .filter(id => PERIOD_ID_PATTERN.test(id))
     
-    return NextResponse.json({ months })
+    return NextResponse.json({ months: sortPeriodsDesc(periods) }) // Most recent first
   } catch (error) {
     console.error('Error reading months:', error)
     return NextResponse.json({ months: [] })
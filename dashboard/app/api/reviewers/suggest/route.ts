@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listMonths, loadMonths } from '@/lib/monthly-data'
+import { buildReviewerLoad, suggestReviewers } from '@/lib/reviewer-load'
+
+// Suggested reviewers for a PR from the most recent monthly files
+// repo (required), author (left out of the suggestions), paths (comma-separated changed files),
+// months of history (default 3) and limit (default 5)
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const repo = params.get('repo')
+  const author = params.get('author')
+  const paths = (params.get('paths') || '').split(',').map(path => path.trim()).filter(Boolean)
+  const months = Number(params.get('months') || 3)
+  const limit = Number(params.get('limit') || 5)
+
+  if (!repo) {
+    return NextResponse.json(
+      { error: 'Missing repo. Use repo=<name>&paths=<file>,<file>' },
+      { status: 400 }
+    )
+  }
+
+  if (!Number.isInteger(months) || months < 1 || months > 24 || !Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json(
+      { error: 'Invalid months or limit. Use months=1..24 and a positive limit' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const recentMonths = (await listMonths()).slice(-months)
+    const history = await loadMonths(recentMonths)
+
+    return NextResponse.json({
+      months: recentMonths,
+      suggestions: suggestReviewers(buildReviewerLoad(history), { repo, author, paths }, limit),
+    })
+  } catch (error) {
+    console.error('Error suggesting reviewers:', error)
+    return NextResponse.json(
+      { error: 'Failed to suggest reviewers' },
+      { status: 500 }
+    )
+  }
+}
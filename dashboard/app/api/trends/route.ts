@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { buildTrendsData } from '@/lib/utils'
+import { parseMonthRange, loadMonthRange } from '@/lib/monthly-data'
+
+export async function GET(request: NextRequest) {
+  const range = parseMonthRange(request.nextUrl.searchParams)
+  if ('error' in range) {
+    return NextResponse.json({ error: range.error }, { status: 400 })
+  }
+
+  try {
+    const monthlyData = await loadMonthRange(range.from, range.to)
+    return NextResponse.json(buildTrendsData(range.from, range.to, monthlyData))
+  } catch (error) {
+    console.error('Error reading trends:', error)
+    return NextResponse.json(
+      { error: 'Failed to load trend data' },
+      { status: 500 }
+    )
+  }
+}
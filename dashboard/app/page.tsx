@@ -4,19 +4,27 @@ import { useState, useEffect, useMemo } from 'react'
 import { MetricsData } from '@/types/metrics'
 import MonthSelector from '@/components/MonthSelector'
 import DeveloperFilter from '@/components/DeveloperFilter'
-import { computeTeamSummaryFallback } from '@/lib/utils'
+import { computeTeamSummaryFallback, applyDeveloperExclusions, excludeBotActivity, getBotPRs, getPRKey, isMonthlyPeriod } from '@/lib/utils'
 import SummaryCards from '@/components/SummaryCards'
 import DeveloperStatsTab from '@/components/DeveloperStatsTab'
 import ComplexityTab from '@/components/ComplexityTab'
 import ReviewerActivityTab from '@/components/ReviewerActivityTab'
 import DetailTable from '@/components/DetailTable'
+import BotPRsTable from '@/components/BotPRsTable'
+import TeamRollupTable from '@/components/TeamRollupTable'
+import TrendsTab from '@/components/TrendsTab'
+import NetworkTab from '@/components/NetworkTab'
+import StuckPRsTab from '@/components/StuckPRsTab'
+import HotspotsTab from '@/components/HotspotsTab'
+import SlaBadge from '@/components/SlaBadge'
 
-type Tab = 'details' | 'developer-stats' | 'complexity' | 'reviewer-activity'
+type Tab = 'details' | 'developer-stats' | 'complexity' | 'reviewer-activity' | 'hotspots' | 'stuck' | 'trends' | 'network'
 
 export default function Home() {
   const [months, setMonths] = useState<string[]>([])
   const [selectedMonth, setSelectedMonth] = useState<string | null>(null)
   const [data, setData] = useState<MetricsData | null>(null)
+  const [previousData, setPreviousData] = useState<MetricsData | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState<Tab>('details')
@@ -35,7 +43,7 @@ export default function Home() {
       })
       .catch(err => {
         console.error('Failed to fetch months:', err)
-        setError('Failed to load available months')
+        setError('Failed to load available periods')
       })
   }, [selectedMonth])
 
@@ -59,49 +67,69 @@ export default function Home() {
       })
       .catch(err => {
         console.error('Failed to fetch data:', err)
-        setError('Failed to load data for this month')
+        setError('Failed to load data for this period')
         setLoading(false)
       })
   }, [selectedMonth])
 
+  // Fetch the preceding month (if collected) for month-over-month deltas
+  // Only monthly periods have a comparable predecessor
+  useEffect(() => {
+    setPreviousData(null)
+    if (!selectedMonth || !isMonthlyPeriod(selectedMonth)) return
+
+    const previousMonth = months.filter(isMonthlyPeriod).sort().reverse().find(m => m < selectedMonth)
+    if (!previousMonth) return
+
+    // A response that arrives after another month was selected is ignored
+    let cancelled = false
+    fetch(`/api/data/${previousMonth}`)
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to fetch data')
+        return res.json()
+      })
+      .then(data => {
+        if (!cancelled) setPreviousData(data)
+      })
+      .catch(err => {
+        console.error('Failed to fetch previous month data:', err)
+      })
+    return () => { cancelled = true }
+  }, [selectedMonth, months])
+
+  // Bot-authored PRs and bot reviews are shown separately and left out of every metric
+  const humanData = useMemo<MetricsData | null>(() => {
+    if (!data) return data
+    return excludeBotActivity(data)
+  }, [data])
+
+  const botPRs = useMemo(() => (data ? getBotPRs(data) : []), [data])
+
   // Derive the full list of developers from unfiltered data (authors + reviewers)
   const allDevelopers = useMemo(() => {
-    if (!data) return []
+    if (!humanData) return []
     const devSet = new Set<string>()
-    for (const pr of data.details) {
+    for (const pr of humanData.details) {
       devSet.add(pr.author)
       for (const review of pr.reviews) {
         devSet.add(review.reviewer)
       }
     }
     return Array.from(devSet).sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
-  }, [data])
+  }, [humanData])
 
   // Compute dev-filtered data: remove excluded devs' authored PRs and strip their reviews
   // This is used by DetailTable which needs to show excluded PRs (with visual dimming)
   const devFilteredData = useMemo<MetricsData | null>(() => {
-    if (!data || excludedDevs.size === 0) return data
-
-    const filteredDetails = data.details
-      .filter(pr => !excludedDevs.has(pr.author))
-      .map(pr => ({
-        ...pr,
-        reviews: pr.reviews.filter(r => !excludedDevs.has(r.reviewer)),
-      }))
-
-    const filteredSummary = data.summary.filter(s => !excludedDevs.has(s.reviewer))
-    const filteredAuthorSummary = data.authorSummary.filter(s => !excludedDevs.has(s.author))
+    if (!humanData) return humanData
+    return applyDeveloperExclusions(humanData, excludedDevs)
+  }, [humanData, excludedDevs])
 
-    const partial: MetricsData = {
-      ...data,
-      details: filteredDetails,
-      summary: filteredSummary,
-      authorSummary: filteredAuthorSummary,
-      teamSummary: undefined,
-    }
-    partial.teamSummary = computeTeamSummaryFallback(partial)
-    return partial
-  }, [data, excludedDevs])
+  // Previous month with the same developer exclusions, used for deltas in SummaryCards
+  const devFilteredPreviousData = useMemo<MetricsData | null>(() => {
+    if (!previousData) return previousData
+    return applyDeveloperExclusions(excludeBotActivity(previousData), excludedDevs)
+  }, [previousData, excludedDevs])
 
   // Compute fully filtered data: dev exclusions + PR exclusions applied
   // Used by all tabs except DetailTable
@@ -109,7 +137,7 @@ export default function Home() {
     if (!devFilteredData || excludedPRs.size === 0) return devFilteredData
 
     const filteredDetails = devFilteredData.details
-      .filter(pr => !excludedPRs.has(`${pr.repo}#${pr.number}`))
+      .filter(pr => !excludedPRs.has(getPRKey(pr)))
 
     const partial: MetricsData = {
       ...devFilteredData,
@@ -120,11 +148,28 @@ export default function Home() {
     return partial
   }, [devFilteredData, excludedPRs])
 
+  // Only for files collected with per-file changes
+  const hasHotspots = !!data?.details.some(pr => pr.files)
+  // Only for files collected with --include-open / --include-closed
+  const hasStuck = !!data?.unmergedDetails
+
+  // Back to the first tab when the newly loaded period has no data for the open one
+  useEffect(() => {
+    if (!data) return
+    if ((activeTab === 'hotspots' && !hasHotspots) || (activeTab === 'stuck' && !hasStuck)) {
+      setActiveTab('details')
+    }
+  }, [data, activeTab, hasHotspots, hasStuck])
+
   const tabs: { id: Tab; label: string }[] = [
     { id: 'details', label: 'All PRs' },
     { id: 'developer-stats', label: 'Developer Stats' },
     { id: 'complexity', label: 'PR Complexity' },
     { id: 'reviewer-activity', label: 'Reviewer Activity' },
+    ...(hasHotspots ? [{ id: 'hotspots' as const, label: 'Hotspots' }] : []),
+    ...(hasStuck ? [{ id: 'stuck' as const, label: 'Stuck PRs' }] : []),
+    { id: 'trends', label: 'Trends' },
+    { id: 'network', label: 'Review Network' },
   ]
 
   return (
@@ -150,8 +195,10 @@ export default function Home() {
               developers={allDevelopers}
               excludedDevs={excludedDevs}
               onChange={setExcludedDevs}
+              teams={humanData?.teams}
             />
           )}
+          {data?.violations && <SlaBadge report={data.violations} />}
         </div>
 
         {loading && (
@@ -168,7 +215,7 @@ export default function Home() {
 
         {!loading && !error && filteredData && (
           <>
-            <SummaryCards data={filteredData} />
+            <SummaryCards data={filteredData} previousData={devFilteredPreviousData} />
 
             <div className="mb-6">
               <div className="border-b border-gray-200 dark:border-gray-700">
@@ -193,10 +240,24 @@ export default function Home() {
             </div>
 
             <div className="mt-6">
-              {activeTab === 'details' && <DetailTable data={devFilteredData!} excludedPRs={excludedPRs} onExcludedPRsChange={setExcludedPRs} />}
-              {activeTab === 'developer-stats' && <DeveloperStatsTab data={filteredData} />}
+              {activeTab === 'details' && (
+                <div className="space-y-8">
+                  <DetailTable data={devFilteredData!} excludedPRs={excludedPRs} onExcludedPRsChange={setExcludedPRs} />
+                  {botPRs.length > 0 && <BotPRsTable prs={botPRs} workingCalendar={data!.workingCalendar} />}
+                </div>
+              )}
+              {activeTab === 'developer-stats' && (
+                <div className="space-y-8">
+                  <DeveloperStatsTab data={filteredData} />
+                  <TeamRollupTable data={filteredData} />
+                </div>
+              )}
               {activeTab === 'complexity' && <ComplexityTab data={filteredData} />}
               {activeTab === 'reviewer-activity' && <ReviewerActivityTab data={filteredData} />}
+              {activeTab === 'hotspots' && <HotspotsTab data={filteredData} />}
+              {activeTab === 'stuck' && <StuckPRsTab data={filteredData} />}
+              {activeTab === 'trends' && <TrendsTab months={months.filter(isMonthlyPeriod)} selectedMonth={selectedMonth && isMonthlyPeriod(selectedMonth) ? selectedMonth : null} />}
+              {activeTab === 'network' && <NetworkTab months={months.filter(isMonthlyPeriod)} selectedMonth={selectedMonth && isMonthlyPeriod(selectedMonth) ? selectedMonth : null} />}
             </div>
           </>
         )}
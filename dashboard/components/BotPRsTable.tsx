@@ -0,0 +1,92 @@
+'use client'
+
+import { useMemo } from 'react'
+import { PRDetail, WorkingCalendar } from '@/types/metrics'
+import { formatWorkingHours, getCloseHours, isBotReview, getPRKey } from '@/lib/utils'
+
+interface BotPRsTableProps {
+  prs: PRDetail[]                      // Bot-authored PRs (dependabot, renovate, ...)
+  workingCalendar?: WorkingCalendar
+}
+
+export default function BotPRsTable({ prs, workingCalendar }: BotPRsTableProps) {
+  // PR counts per bot, most active first
+  const botCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    for (const pr of prs) {
+      counts.set(pr.author, (counts.get(pr.author) || 0) + 1)
+    }
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])
+  }, [prs])
+
+  const sortedPRs = useMemo(
+    () => [...prs].sort((a, b) => new Date(b.mergedAt).getTime() - new Date(a.mergedAt).getTime()),
+    [prs]
+  )
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+          Bot PRs ({prs.length})
+        </h2>
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          {botCounts.map(([bot, count]) => `${bot}: ${count}`).join(' · ')}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">PR</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Title</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Bot</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Reviews</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Close Time</th>
+                <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Merged</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {sortedPRs.map(pr => (
+                <tr key={getPRKey(pr)} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className="px-3 py-3 text-sm">
+                    <div className="text-gray-500 dark:text-gray-400 text-xs">{pr.repo}</div>
+                    <a
+                      href={pr.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+                    >
+                      #{pr.number}
+                    </a>
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900 dark:text-gray-100">
+                    {pr.title}
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-900 dark:text-gray-100">
+                    {pr.author}
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                    {pr.reviews.filter(r => !isBotReview(r)).length}
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                    {formatWorkingHours(getCloseHours(pr, workingCalendar))}
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                    {new Date(pr.mergedAt).toLocaleDateString()}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Bot-authored PRs and bot reviews are excluded from all other metrics.
+      </div>
+    </div>
+  )
+}
@@ -1,45 +1,59 @@
 'use client'
 
-import { MetricsData } from '@/types/metrics'
-import { ScatterChart, Scatter, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
-import { calculateWorkingHours } from '@/lib/utils'
+import { MetricsData, FileCategory } from '@/types/metrics'
+import { ScatterChart, Scatter, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { getCloseHours, getPRKey, computeCategoryTotals } from '@/lib/utils'
 
 interface ComplexityTabProps {
   data: MetricsData
 }
 
+const FILE_CATEGORY_STYLES: Record<FileCategory, { label: string; fill: string }> = {
+  prod: { label: 'Production', fill: '#3b82f6' },
+  test: { label: 'Test', fill: '#10b981' },
+  snapshot: { label: 'Snapshots', fill: '#14b8a6' },
+  migration: { label: 'Migrations', fill: '#f59e0b' },
+  docs: { label: 'Docs', fill: '#8b5cf6' },
+  generated: { label: 'Generated', fill: '#9ca3af' },
+  lockfile: { label: 'Lockfiles', fill: '#6b7280' },
+}
+
 export default function ComplexityTab({ data }: ComplexityTabProps) {
   // PR size vs iterations scatter plot (per PR)
   const sizeVsIterations = data.details.map(pr => ({
     prSize: pr.prodAdditions + pr.prodDeletions,
     iterations: pr.iterationCount,
-    pr: `${pr.repo}#${pr.number}`
+    pr: getPRKey(pr)
   }))
 
   // PR size vs time-to-merge scatter plot (per PR)
   const sizeVsTime = data.details
     .filter(pr => pr.mergedAt)
-    .map(pr => {
-      const workingHrs = calculateWorkingHours(pr.createdAt, pr.mergedAt)
-      return {
-        prSize: pr.prodAdditions + pr.prodDeletions,
-        timeToMerge: workingHrs >= 0 ? Math.round(workingHrs * 10) / 10 : null,
-        pr: `${pr.repo}#${pr.number}`
-      }
-    })
-    .filter(d => d.timeToMerge !== null)
+    .map(pr => ({
+      prSize: pr.prodAdditions + pr.prodDeletions,
+      timeToMerge: Math.round(getCloseHours(pr, data.workingCalendar) * 10) / 10,
+      pr: getPRKey(pr)
+    }))
 
   // Test vs prod lines stacked bar (top 20 PRs by size)
   const prsBySize = data.details
     .map(pr => ({
-      pr: `${pr.repo}#${pr.number}`,
+      pr: getPRKey(pr),
       prodLines: pr.prodAdditions + pr.prodDeletions,
       testLines: pr.testAdditions + pr.testDeletions,
+      // Lockfiles, generated code, migrations, docs and snapshots
+      otherLines: (pr.totalAdditions + pr.totalDeletions) - (pr.prodAdditions + pr.prodDeletions) - (pr.testAdditions + pr.testDeletions),
       totalSize: pr.totalAdditions + pr.totalDeletions
     }))
     .sort((a, b) => b.totalSize - a.totalSize)
     .slice(0, 20)
 
+  // Lines changed per file category (files collected with categories only)
+  const categoryTotals = computeCategoryTotals(data).map(total => ({
+    ...total,
+    label: FILE_CATEGORY_STYLES[total.category].label
+  }))
+
   // PR size distribution
   const sizeDistribution = [
     { range: '0-100', count: 0 },
@@ -136,7 +150,7 @@ export default function ComplexityTab({ data }: ComplexityTabProps) {
 
       <div>
         <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
-          Test vs Production Lines (Top 20 PRs)
+          Production, Test and Other Lines (Top 20 PRs)
         </h2>
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
           <ResponsiveContainer width="100%" height={400}>
@@ -148,11 +162,38 @@ export default function ComplexityTab({ data }: ComplexityTabProps) {
               <Legend />
               <Bar dataKey="prodLines" stackId="a" fill="#3b82f6" name="Production Lines" />
               <Bar dataKey="testLines" stackId="a" fill="#10b981" name="Test Lines" />
+              <Bar dataKey="otherLines" stackId="a" fill="#9ca3af" name="Other Lines" />
             </BarChart>
           </ResponsiveContainer>
         </div>
       </div>
 
+      {categoryTotals.length > 0 && (
+        <div>
+          <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+            Lines Changed by File Category
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Lockfiles, generated code, snapshots, migrations and docs are kept out of production and test lines
+          </p>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={categoryTotals}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis label={{ value: 'Lines Changed', angle: -90, position: 'insideLeft' }} />
+                <Tooltip />
+                <Bar dataKey="lines" name="Lines Changed">
+                  {categoryTotals.map(total => (
+                    <Cell key={total.category} fill={FILE_CATEGORY_STYLES[total.category].fill} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
       <div>
         <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
           PR Size Distribution
@@ -1,9 +1,11 @@
 'use client'
 
-import { MetricsData, PRDetail } from '@/types/metrics'
-import { useState, useMemo } from 'react'
-import { calculateWorkingHours, formatWorkingHours, calculateQualityScore, getTeamSummary } from '@/lib/utils'
+import { MetricsData, PRDetail, QualityScore } from '@/types/metrics'
+import { useState, useMemo, Fragment } from 'react'
+import { calculateWorkingHours, formatWorkingHours, calculateQualityScore, resolveQualityProfile, getTeamSummary, getReviewableAt, getCloseHours, getFirstResponseHours, getBaseRefs, getPRKey } from '@/lib/utils'
 import Tooltip from './Tooltip'
+import PRTimeline from './PRTimeline'
+import QualityBreakdown from './QualityBreakdown'
 
 interface DetailTableProps {
   data: MetricsData
@@ -11,7 +13,7 @@ interface DetailTableProps {
   onExcludedPRsChange: (excluded: Set<string>) => void
 }
 
-type SortField = 'number' | 'title' | 'author' | 'repo' | 'mergedAt' | 'totalSize' | 'srcSize' | 'testSize' | 'filesChanged' | 'churnPercentage' | 'iterationCount' | 'comments' | 'firstResponseTime' | 'closeTime' | 'qualityScore'
+type SortField = 'number' | 'title' | 'author' | 'repo' | 'mergedAt' | 'totalSize' | 'srcSize' | 'testSize' | 'filesChanged' | 'churnPercentage' | 'iterationCount' | 'comments' | 'draftTime' | 'firstResponseTime' | 'closeTime' | 'qualityScore'
 type SortDirection = 'asc' | 'desc'
 
 // Computed row data for display and sorting
@@ -20,16 +22,23 @@ interface ComputedPR extends PRDetail {
   srcSize: number
   testSize: number
   totalComments: number
+  draftTime: number
   firstResponseTime: number | null
   closeTime: number
   qualityScore: number
+  quality: QualityScore
+  qualityProfile: string
 }
 
 export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }: DetailTableProps) {
   const [sortField, setSortField] = useState<SortField>('mergedAt')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
   const [repoFilter, setRepoFilter] = useState<string>('all')
+  const [baseFilter, setBaseFilter] = useState<string>('all')
   const [searchQuery, setSearchQuery] = useState('')
+  const [expandedPR, setExpandedPR] = useState<string | null>(null)
+
+  const baseRefs = useMemo(() => getBaseRefs(data), [data])
 
   const togglePRExclusion = (prKey: string) => {
     const next = new Set(excludedPRs)
@@ -62,25 +71,28 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
         0
       )
       
-      // First response time (working hours from PR open to first activity)
-      const firstResponseTime = pr.firstResponseAt
-        ? calculateWorkingHours(pr.createdAt, pr.firstResponseAt)
-        : null
+      // Time in draft before first becoming reviewable (working hours)
+      const draftTime = calculateWorkingHours(pr.createdAt, getReviewableAt(pr), data.workingCalendar, pr.author)
+      
+      // First response time (working hours from ready for review to first activity)
+      const firstResponseTime = getFirstResponseHours(pr, data.workingCalendar)
       
-      // Close time (working hours from PR open to merge)
-      const closeTime = calculateWorkingHours(pr.createdAt, pr.mergedAt)
+      // Close time (working hours from ready for review to merge)
+      const closeTime = getCloseHours(pr, data.workingCalendar)
 
-      // Per-PR quality score (uses source lines/files only, excluding test code)
+      // Per-PR quality score under the repo's profile (uses source lines/files only, excluding test code)
       const totalSize = pr.totalAdditions + pr.totalDeletions
       const srcSize = pr.prodAdditions + pr.prodDeletions
-      const qualityScore = calculateQualityScore(
+      const profile = resolveQualityProfile(data.qualityScoring, pr.repo)
+      const quality = calculateQualityScore(
         {
           avgSrcSize: srcSize,
           avgSrcFiles: pr.prodFilesChanged,
           avgIterations: pr.iterationCount,
-          avgWorkingHoursToClose: closeTime >= 0 ? closeTime : null,
+          avgWorkingHoursToClose: closeTime,
           churnPct: pr.churnPercentage ?? 0
         },
+        profile,
         teamSummary.authored
       )
       
@@ -90,20 +102,26 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
         srcSize: pr.prodAdditions + pr.prodDeletions,
         testSize: pr.testAdditions + pr.testDeletions,
         totalComments,
+        draftTime,
         firstResponseTime,
         closeTime,
-        qualityScore
+        qualityScore: quality.score,
+        quality,
+        qualityProfile: profile.name
       }
     })
-  }, [data.details, teamSummary])
+  }, [data.details, data.workingCalendar, data.qualityScoring, teamSummary])
 
   const filteredAndSortedData = useMemo(() => {
     let filtered = computedData
 
-    // Apply repo filter
+    // Apply repo and base branch filters
     if (repoFilter !== 'all') {
       filtered = filtered.filter(pr => pr.repo === repoFilter)
     }
+    if (baseFilter !== 'all') {
+      filtered = filtered.filter(pr => pr.baseRef === baseFilter)
+    }
 
     // Apply search
     if (searchQuery) {
@@ -142,6 +160,10 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
           aVal = a.totalComments
           bVal = b.totalComments
           break
+        case 'draftTime':
+          aVal = a.draftTime
+          bVal = b.draftTime
+          break
         case 'firstResponseTime':
           aVal = a.firstResponseTime ?? Infinity
           bVal = b.firstResponseTime ?? Infinity
@@ -167,7 +189,7 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
 
       return sortDirection === 'asc' ? aVal - bVal : bVal - aVal
     })
-  }, [computedData, repoFilter, searchQuery, sortField, sortDirection])
+  }, [computedData, repoFilter, baseFilter, searchQuery, sortField, sortDirection])
 
   const SortIcon = ({ field }: { field: SortField }) => {
     if (sortField !== field) return <span className="text-gray-400 ml-1">⇅</span>
@@ -208,6 +230,20 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
             ))}
           </select>
         </div>
+        {baseRefs.length > 1 && (
+          <div>
+            <select
+              value={baseFilter}
+              onChange={(e) => setBaseFilter(e.target.value)}
+              className="w-full px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All Base Branches</option>
+              {baseRefs.map(ref => (
+                <option key={ref} value={ref}>{ref}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
@@ -228,6 +264,7 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
                 <HeaderCell field="filesChanged">Files</HeaderCell>
                 <HeaderCell field="churnPercentage">Churn</HeaderCell>
                 <HeaderCell field="iterationCount">Review</HeaderCell>
+                <HeaderCell field="draftTime">Draft</HeaderCell>
                 <HeaderCell field="firstResponseTime">1st Response</HeaderCell>
                 <HeaderCell field="closeTime">Close Time</HeaderCell>
                 <HeaderCell field="qualityScore">Quality</HeaderCell>
@@ -236,10 +273,11 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
             </thead>
             <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
               {filteredAndSortedData.map((pr) => {
-                const prKey = `${pr.repo}#${pr.number}`
+                const prKey = getPRKey(pr)
                 const isExcluded = excludedPRs.has(prKey)
                 return (
-                <tr key={prKey} className={
+                <Fragment key={prKey}>
+                <tr className={
                   isExcluded
                     ? 'bg-gray-100 dark:bg-gray-800/50 opacity-50'
                     : 'hover:bg-gray-50 dark:hover:bg-gray-700'
@@ -255,7 +293,7 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
                   </td>
                   {/* PR: Repo + Number (with title tooltip) */}
                   <td className="px-3 py-3 text-sm">
-                    <div className="text-gray-500 dark:text-gray-400 text-xs">{pr.repo}</div>
+                    <div className="text-gray-500 dark:text-gray-400 text-xs">{pr.repo}{baseRefs.length > 1 && pr.baseRef ? ` → ${pr.baseRef}` : ''}</div>
                     <Tooltip content={pr.title}>
                       <a
                         href={pr.url}
@@ -312,16 +350,26 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
                     </div>
                   </td>
                   
-                  {/* Review: Iterations + Comments */}
+                  {/* Review: Iterations + Comments (click for the review timeline) */}
                   <td className="px-3 py-3 text-sm">
-                    <div className="text-gray-900 dark:text-gray-100">
+                    <button
+                      onClick={() => setExpandedPR(expandedPR === prKey ? null : prKey)}
+                      className="text-gray-900 dark:text-gray-100 hover:text-blue-600 dark:hover:text-blue-400 whitespace-nowrap"
+                      title="Show review timeline"
+                    >
+                      <span className="text-gray-400 mr-1">{expandedPR === prKey ? '▾' : '▸'}</span>
                       {pr.iterationCount} {pr.iterationCount === 1 ? 'iteration' : 'iterations'}
-                    </div>
+                    </button>
                     <div className="text-xs text-gray-500 dark:text-gray-400">
                       {pr.totalComments > 0 ? `${pr.totalComments} comments` : 'no comments'}
                     </div>
                   </td>
                   
+                  {/* Draft Time */}
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                    {pr.draftTime > 0 ? formatWorkingHours(pr.draftTime) : '-'}
+                  </td>
+                  
                   {/* First Response Time */}
                   <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                     {pr.firstResponseTime !== null ? formatWorkingHours(pr.firstResponseTime) : '-'}
@@ -334,13 +382,7 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
                   
                   {/* Quality Score */}
                   <td className="px-3 py-3 whitespace-nowrap text-sm text-center font-medium">
-                    <span className={
-                      pr.qualityScore >= 75 ? 'text-green-600 dark:text-green-400' :
-                      pr.qualityScore >= 50 ? 'text-yellow-600 dark:text-yellow-400' :
-                      'text-red-600 dark:text-red-400'
-                    }>
-                      {pr.qualityScore}
-                    </span>
+                    <QualityBreakdown quality={pr.quality} profile={pr.qualityProfile} />
                   </td>
                   
                   {/* Merged Date */}
@@ -348,6 +390,14 @@ export default function DetailTable({ data, excludedPRs, onExcludedPRsChange }:
                     {new Date(pr.mergedAt).toLocaleDateString()}
                   </td>
                 </tr>
+                {expandedPR === prKey && (
+                  <tr className="bg-gray-50 dark:bg-gray-900/50">
+                    <td colSpan={14} className="px-6 py-4">
+                      <PRTimeline pr={pr} workingCalendar={data.workingCalendar} />
+                    </td>
+                  </tr>
+                )}
+                </Fragment>
                 )
               })}
             </tbody>
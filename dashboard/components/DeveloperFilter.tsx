@@ -6,9 +6,10 @@ interface DeveloperFilterProps {
   developers: string[]
   excludedDevs: Set<string>
   onChange: (excluded: Set<string>) => void
+  teams?: { [team: string]: string[] }  // Team -> members, for the team picker
 }
 
-export default function DeveloperFilter({ developers, excludedDevs, onChange }: DeveloperFilterProps) {
+export default function DeveloperFilter({ developers, excludedDevs, onChange, teams = {} }: DeveloperFilterProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [search, setSearch] = useState('')
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -65,106 +66,143 @@ export default function DeveloperFilter({ developers, excludedDevs, onChange }:
   }
 
   const count = excludedDevs.size
+  const teamNames = Object.keys(teams).sort((a, b) => a.localeCompare(b))
+
+  // Picking a team excludes everyone outside it
+  const selectTeam = (team: string) => {
+    if (!team) {
+      onChange(new Set())
+      return
+    }
+    const members = new Set(teams[team])
+    onChange(new Set(developers.filter(dev => !members.has(dev))))
+  }
+
+  // The picker shows a team only while the exclusions match it exactly
+  const selectedTeam = teamNames.find(team => {
+    const members = new Set(teams[team])
+    return developers.every(dev => members.has(dev) !== excludedDevs.has(dev))
+  }) ?? ''
 
   return (
-    <div className="relative" ref={dropdownRef}>
-      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-        Exclude Developers
-      </label>
-      <button
-        onClick={() => setIsOpen(!isOpen)}
-        className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-gray-700 dark:text-gray-300 min-w-[200px]"
-      >
-        <span className="flex-1 text-left truncate">
-          {count === 0
-            ? 'None excluded'
-            : `${count} developer${count !== 1 ? 's' : ''} excluded`}
-        </span>
-        <svg
-          className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`}
-          fill="none"
-          stroke="currentColor"
-          viewBox="0 0 24 24"
+    <div className="flex flex-wrap items-end gap-6">
+      {teamNames.length > 0 && (
+        <div>
+          <label htmlFor="team-picker" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Team
+          </label>
+          <select
+            id="team-picker"
+            value={selectedTeam}
+            onChange={(e) => selectTeam(e.target.value)}
+            className="px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-gray-700 dark:text-gray-300 min-w-[160px]"
+          >
+            <option value="">{count > 0 && !selectedTeam ? 'Custom selection' : 'All developers'}</option>
+            {teamNames.map(team => (
+              <option key={team} value={team}>{team} ({teams[team].length})</option>
+            ))}
+          </select>
+        </div>
+      )}
+      <div className="relative" ref={dropdownRef}>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Exclude Developers
+        </label>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm text-gray-700 dark:text-gray-300 min-w-[200px]"
         >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-        </svg>
-      </button>
-
-      {isOpen && (
-        <div className="absolute z-50 mt-1 w-72 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
-          {/* Search */}
-          <div className="p-2 border-b border-gray-200 dark:border-gray-700">
-            <input
-              ref={searchRef}
-              type="text"
-              value={search}
-              onChange={(e) => setSearch(e.target.value)}
-              placeholder="Search developers..."
-              className="w-full px-3 py-1.5 text-sm bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
-            />
-          </div>
+          <span className="flex-1 text-left truncate">
+            {count === 0
+              ? 'None excluded'
+              : `${count} developer${count !== 1 ? 's' : ''} excluded`}
+          </span>
+          <svg
+            className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
 
-          {/* Bulk actions */}
-          <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 dark:border-gray-700 text-xs">
-            <button
-              onClick={excludeAll}
-              className="text-red-600 dark:text-red-400 hover:underline font-medium"
-            >
-              Exclude {search ? 'visible' : 'all'}
-            </button>
-            <button
-              onClick={clearAll}
-              className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
-            >
-              Include {search ? 'visible' : 'all'}
-            </button>
-          </div>
+        {isOpen && (
+          <div className="absolute z-50 mt-1 w-72 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
+            {/* Search */}
+            <div className="p-2 border-b border-gray-200 dark:border-gray-700">
+              <input
+                ref={searchRef}
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search developers..."
+                className="w-full px-3 py-1.5 text-sm bg-gray-50 dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500"
+              />
+            </div>
 
-          {/* Developer list */}
-          <div className="max-h-64 overflow-y-auto py-1">
-            {filtered.length === 0 ? (
-              <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
-                No developers match &ldquo;{search}&rdquo;
-              </div>
-            ) : (
-              filtered.map(dev => {
-                const isExcluded = excludedDevs.has(dev)
-                return (
-                  <button
-                    key={dev}
-                    onClick={() => toggleDev(dev)}
-                    className="flex items-center gap-2 w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
-                  >
-                    <span
-                      className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center ${
-                        isExcluded
-                          ? 'bg-red-500 border-red-500 text-white'
-                          : 'border-gray-300 dark:border-gray-500'
-                      }`}
+            {/* Bulk actions */}
+            <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 dark:border-gray-700 text-xs">
+              <button
+                onClick={excludeAll}
+                className="text-red-600 dark:text-red-400 hover:underline font-medium"
+              >
+                Exclude {search ? 'visible' : 'all'}
+              </button>
+              <button
+                onClick={clearAll}
+                className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+              >
+                Include {search ? 'visible' : 'all'}
+              </button>
+            </div>
+
+            {/* Developer list */}
+            <div className="max-h-64 overflow-y-auto py-1">
+              {filtered.length === 0 ? (
+                <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                  No developers match &ldquo;{search}&rdquo;
+                </div>
+              ) : (
+                filtered.map(dev => {
+                  const isExcluded = excludedDevs.has(dev)
+                  return (
+                    <button
+                      key={dev}
+                      onClick={() => toggleDev(dev)}
+                      className="flex items-center gap-2 w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700"
                     >
-                      {isExcluded && (
-                        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      )}
-                    </span>
-                    <span className={`truncate ${isExcluded ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-900 dark:text-gray-100'}`}>
-                      {dev}
-                    </span>
-                  </button>
-                )
-              })
+                      <span
+                        className={`flex-shrink-0 w-4 h-4 rounded border flex items-center justify-center ${
+                          isExcluded
+                            ? 'bg-red-500 border-red-500 text-white'
+                            : 'border-gray-300 dark:border-gray-500'
+                        }`}
+                      >
+                        {isExcluded && (
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        )}
+                      </span>
+                      <span className={`truncate ${isExcluded ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-900 dark:text-gray-100'}`}>
+                        {dev}
+                      </span>
+                    </button>
+                  )
+                })
+              )}
+            </div>
+
+            {/* Footer with count */}
+            {count > 0 && (
+              <div className="px-3 py-1.5 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+                {count} of {developers.length} developer{developers.length !== 1 ? 's' : ''} excluded
+              </div>
             )}
           </div>
-
-          {/* Footer with count */}
-          {count > 0 && (
-            <div className="px-3 py-1.5 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
-              {count} of {developers.length} developer{developers.length !== 1 ? 's' : ''} excluded
-            </div>
-          )}
-        </div>
-      )}
+        )}
+      </div>
     </div>
   )
 }
@@ -1,22 +1,34 @@
 'use client'
 
 import { useState, useMemo, useCallback } from 'react'
-import { MetricsData } from '@/types/metrics'
+import { MetricsData, PRDetail, QualityScore, ConfidenceInterval } from '@/types/metrics'
 import { 
   getTeamSummary, 
-  computeTeamStatsForRepo, 
+  computeTeamStatsForPRs, 
+  getBaseRefs,
   formatWorkingHours, 
   formatNumber, 
   formatPercent,
-  calculateWorkingHours,
-  calculateQualityScore
+  calculateQualityScore,
+  calculateReviewerQualityScore,
+  resolveQualityProfile,
+  aggregateAuthorStats,
+  aggregateReviewerStats,
+  average,
+  median,
+  percentile,
+  bootstrapInterval,
+  isPeerReview,
+  MIN_SAMPLE_SIZE
 } from '@/lib/utils'
+import QualityBreakdown from './QualityBreakdown'
 
 interface DeveloperStatsTabProps {
   data: MetricsData
 }
 
 type ViewMode = 'authored' | 'reviewed'
+
 type SortField = string
 type SortDirection = 'asc' | 'desc'
 
@@ -27,11 +39,13 @@ interface AuthoredRow {
   avgSizeTest: number
   avgSizeTotal: number
   avgCloseTime: number | null
+  closeTimeInterval?: ConfidenceInterval | null  // 90% bootstrap interval of the average
   avgIterations: number
   churnPct: number
   fileChurn: number
   commitsPerPr: number
   qualityScore: number
+  quality?: QualityScore  // Breakdown (not on the team row)
   isTeamRow?: boolean
 }
 
@@ -42,249 +56,139 @@ interface ReviewedRow {
   avgSizeProd: number
   avgSizeTest: number
   avgSizeTotal: number
-  responseTime: number | null
+  responseTime: number | null      // Median from review request
+  responseCount: number            // Reviews with a measured response time
+  responseInterval?: ConfidenceInterval | null  // 90% bootstrap interval of the median
+  responseP90: number | null       // P90 from review request
+  openResponseTime: number | null  // Median from PR open
   noCommentPct: number
   avgComments: number
   avgIterations: number
+  qualityScore: number
+  quality?: QualityScore  // Breakdown (not on the team row)
   isTeamRow?: boolean
 }
 
+// 90% interval under an estimate; wide intervals mean the value could easily move next month
+function IntervalNote({ interval }: { interval?: ConfidenceInterval | null }) {
+  if (!interval) return null
+  return (
+    <div className="text-[11px] text-gray-400 dark:text-gray-500" title="90% bootstrap confidence interval">
+      {formatWorkingHours(interval.low)}–{formatWorkingHours(interval.high)}
+    </div>
+  )
+}
+
+// Flag next to a developer whose figures rest on fewer than MIN_SAMPLE_SIZE PRs/reviews
+function SmallSampleBadge({ count, unit }: { count: number; unit: string }) {
+  if (count >= MIN_SAMPLE_SIZE) return null
+  return (
+    <span
+      className="ml-2 px-1.5 py-0.5 text-[10px] font-medium rounded bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300"
+      title={`Only ${count} ${unit}; fewer than ${MIN_SAMPLE_SIZE}, so treat these figures with caution`}
+    >
+      small n
+    </span>
+  )
+}
+
 export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('authored')
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedRepo, setSelectedRepo] = useState<string>('all')
+  const [selectedBase, setSelectedBase] = useState<string>('all')
   const [sortField, setSortField] = useState<SortField>('prsAuthored')
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
 
-  // Compute stats for the selected repo
+  const baseRefs = useMemo(() => getBaseRefs(data), [data])
+
+  // PRs in the selected repo and base branch
+  const inScope = useCallback((pr: PRDetail) =>
+    (selectedRepo === 'all' || pr.repo === selectedRepo) && (selectedBase === 'all' || pr.baseRef === selectedBase),
+    [selectedRepo, selectedBase]
+  )
+
+  // Compute stats for the selected repo and base branch
   const teamStats = useMemo(() => {
-    if (selectedRepo === 'all') {
+    if (selectedRepo === 'all' && selectedBase === 'all') {
       return getTeamSummary(data)
     }
-    return computeTeamStatsForRepo(data, selectedRepo)
-  }, [data, selectedRepo])
+    return computeTeamStatsForPRs(data, inScope)
+  }, [data, selectedRepo, selectedBase, inScope])
+
+  // Quality profile of the selected repo (the default profile across repos)
+  const qualityProfile = useMemo(
+    () => resolveQualityProfile(data.qualityScoring, selectedRepo === 'all' ? null : selectedRepo),
+    [data.qualityScoring, selectedRepo]
+  )
 
-  // Compute per-developer authored stats (filtered by repo if needed)
+  // Compute per-developer authored stats (filtered by repo and base branch)
   const authoredRows = useMemo((): AuthoredRow[] => {
-    const filteredPRs = selectedRepo === 'all' 
-      ? data.details.filter(p => !p.error)
-      : data.details.filter(p => !p.error && p.repo === selectedRepo)
-    
-    // Aggregate per author
-    const authorMap = new Map<string, {
-      prsAuthored: number
-      totalProd: number
-      totalTest: number
-      totalSize: number
-      totalFiles: number
-      totalProdFiles: number
-      workingHours: number[]
-      totalIterations: number
-      totalChurn: number
-      churnCount: number
-      totalFileChurn: number
-      fileChurnCount: number
-      totalCommits: number
-    }>()
+    const filteredPRs = data.details.filter(inScope)
     
-    for (const pr of filteredPRs) {
-      if (!authorMap.has(pr.author)) {
-        authorMap.set(pr.author, {
-          prsAuthored: 0,
-          totalProd: 0,
-          totalTest: 0,
-          totalSize: 0,
-          totalFiles: 0,
-          totalProdFiles: 0,
-          workingHours: [],
-          totalIterations: 0,
-          totalChurn: 0,
-          churnCount: 0,
-          totalFileChurn: 0,
-          fileChurnCount: 0,
-          totalCommits: 0
-        })
-      }
-      
-      const stats = authorMap.get(pr.author)!
-      stats.prsAuthored++
-      stats.totalProd += pr.prodAdditions + pr.prodDeletions
-      stats.totalTest += pr.testAdditions + pr.testDeletions
-      stats.totalSize += pr.totalAdditions + pr.totalDeletions
-      stats.totalFiles += pr.filesChanged
-      stats.totalProdFiles += pr.prodFilesChanged
-      stats.totalIterations += pr.iterationCount
-      stats.totalCommits += pr.commitCount || 1
-      
-      // Compute working hours from raw timestamps
-      const workingHrs = calculateWorkingHours(pr.createdAt, pr.mergedAt)
-      if (workingHrs > 0) {
-        stats.workingHours.push(workingHrs)
-      }
-      
-      if (pr.churnPercentage !== undefined) {
-        stats.totalChurn += pr.churnPercentage
-        stats.churnCount++
-      }
-      
-      if (pr.fileChurnCount !== undefined) {
-        stats.totalFileChurn += pr.fileChurnCount
-        stats.fileChurnCount++
-      }
-    }
-    
-    const rows: AuthoredRow[] = []
-    
-    for (const [developer, stats] of authorMap) {
-      const avgCloseTime = stats.workingHours.length > 0 
-        ? stats.workingHours.reduce((a, b) => a + b, 0) / stats.workingHours.length 
-        : null
-      const avgIterations = stats.totalIterations / stats.prsAuthored
-      const churnPct = stats.churnCount > 0 ? stats.totalChurn / stats.churnCount : 0
-      
-      // Calculate quality score using source (non-test) lines and files
-      const avgSrcSize = stats.totalProd / stats.prsAuthored
-      const avgSrcFiles = stats.totalProdFiles / stats.prsAuthored
-      const qualityScore = calculateQualityScore(
+    return aggregateAuthorStats(filteredPRs, data.workingCalendar).map(stats => {
+      // Quality score uses source (non-test) lines and files
+      const quality = calculateQualityScore(
         {
-          avgSrcSize,
-          avgSrcFiles,
-          avgIterations,
-          avgWorkingHoursToClose: avgCloseTime,
-          churnPct
+          avgSrcSize: stats.avgProdLines,
+          avgSrcFiles: stats.avgProdFiles,
+          avgIterations: stats.avgIterations,
+          avgWorkingHoursToClose: stats.avgCloseTime,
+          churnPct: stats.avgChurnPct
         },
+        qualityProfile,
         teamStats.authored
       )
-      
-      rows.push({
-        developer,
+      return {
+        developer: stats.author,
         prsAuthored: stats.prsAuthored,
-        avgSizeProd: Math.round(stats.totalProd / stats.prsAuthored),
-        avgSizeTest: Math.round(stats.totalTest / stats.prsAuthored),
-        avgSizeTotal: Math.round(stats.totalSize / stats.prsAuthored),
-        avgCloseTime,
-        avgIterations,
-        churnPct,
-        fileChurn: stats.fileChurnCount > 0 ? stats.totalFileChurn / stats.fileChurnCount : 0,
-        commitsPerPr: stats.totalCommits / stats.prsAuthored,
-        qualityScore
-      })
-    }
-    
-    return rows
-  }, [data, selectedRepo, teamStats])
+        avgSizeProd: Math.round(stats.avgProdLines),
+        avgSizeTest: Math.round(stats.avgTestLines),
+        avgSizeTotal: Math.round(stats.avgPrSize),
+        avgCloseTime: stats.avgCloseTime,
+        closeTimeInterval: bootstrapInterval(stats.closeTimes, average),
+        avgIterations: stats.avgIterations,
+        churnPct: stats.avgChurnPct,
+        fileChurn: stats.avgFileChurn,
+        commitsPerPr: stats.avgCommits,
+        qualityScore: quality.score,
+        quality
+      }
+    })
+  }, [data, inScope, teamStats, qualityProfile])
 
-  // Compute per-developer reviewed stats (filtered by repo if needed)
+  // Compute per-developer reviewed stats (filtered by repo and base branch)
   const reviewedRows = useMemo((): ReviewedRow[] => {
-    const filteredPRs = selectedRepo === 'all' 
-      ? data.details.filter(p => !p.error)
-      : data.details.filter(p => !p.error && p.repo === selectedRepo)
-    
-    // Aggregate per reviewer
-    const reviewerMap = new Map<string, {
-      prsReviewed: Set<string>
-      totalReviews: number
-      totalProd: number
-      totalTest: number
-      totalSize: number
-      responseTimes: number[]
-      totalInlineComments: number
-      totalIterations: number
-    }>()
+    const filteredPRs = data.details.filter(inScope)
     
-    for (const pr of filteredPRs) {
-      const prKey = `${pr.repo}#${pr.number}`
-      const prSize = pr.totalAdditions + pr.totalDeletions
-      const prodSize = pr.prodAdditions + pr.prodDeletions
-      const testSize = pr.testAdditions + pr.testDeletions
-      
-      for (const review of pr.reviews) {
-        if (!reviewerMap.has(review.reviewer)) {
-          reviewerMap.set(review.reviewer, {
-            prsReviewed: new Set(),
-            totalReviews: 0,
-            totalProd: 0,
-            totalTest: 0,
-            totalSize: 0,
-            responseTimes: [],
-            totalInlineComments: 0,
-            totalIterations: 0
-          })
-        }
-        
-        const stats = reviewerMap.get(review.reviewer)!
-        stats.totalReviews++
-        stats.totalInlineComments += review.inlineCommentCount
-        
-        // Track response times using firstActivityAt (computed client-side from createdAt)
-        if (review.firstActivityAt) {
-          const workingHrs = calculateWorkingHours(pr.createdAt, review.firstActivityAt)
-          if (workingHrs >= 0) {
-            stats.responseTimes.push(workingHrs)
-          }
-        }
-        
-        // Track PR-level metrics only once per reviewer
-        if (!stats.prsReviewed.has(prKey)) {
-          stats.prsReviewed.add(prKey)
-          stats.totalProd += prodSize
-          stats.totalTest += testSize
-          stats.totalSize += prSize
-          stats.totalIterations += pr.iterationCount
-        }
-      }
-    }
-    
-    const rows: ReviewedRow[] = []
-    
-    for (const [developer, stats] of reviewerMap) {
-      const prsCount = stats.prsReviewed.size
-      const medianResponse = stats.responseTimes.length > 0
-        ? [...stats.responseTimes].sort((a, b) => a - b)[Math.floor(stats.responseTimes.length / 2)]
-        : null
-      
-      rows.push({
-        developer,
-        prsReviewed: prsCount,
+    return aggregateReviewerStats(filteredPRs, data.workingCalendar).map(stats => {
+      const responseTime = median(stats.responseTimes)
+      const avgComments = stats.totalReviews > 0 ? stats.totalInlineComments / stats.totalReviews : 0
+      const quality = calculateReviewerQualityScore(
+        { medianResponseHours: responseTime, noCommentApprovalPct: stats.noCommentApprovalPct, commentsPerReview: avgComments },
+        qualityProfile,
+        teamStats.reviewed
+      )
+      return {
+        developer: stats.reviewer,
+        prsReviewed: stats.prsReviewedCount,
         totalReviews: stats.totalReviews,
-        avgSizeProd: prsCount > 0 ? Math.round(stats.totalProd / prsCount) : 0,
-        avgSizeTest: prsCount > 0 ? Math.round(stats.totalTest / prsCount) : 0,
-        avgSizeTotal: prsCount > 0 ? Math.round(stats.totalSize / prsCount) : 0,
-        responseTime: medianResponse,
-        noCommentPct: 0, // Computed below
-        avgComments: stats.totalReviews > 0 ? stats.totalInlineComments / stats.totalReviews : 0,
-        avgIterations: prsCount > 0 ? stats.totalIterations / prsCount : 0
-      })
-    }
-    
-    // Compute no-comment approval percentage from original data
-    const reviewerApprovals = new Map<string, { approvals: number, noCommentApprovals: number }>()
-    
-    for (const pr of filteredPRs) {
-      for (const review of pr.reviews) {
-        if (!reviewerApprovals.has(review.reviewer)) {
-          reviewerApprovals.set(review.reviewer, { approvals: 0, noCommentApprovals: 0 })
-        }
-        
-        if (review.state === 'APPROVED') {
-          const stats = reviewerApprovals.get(review.reviewer)!
-          stats.approvals++
-          if (!review.hasComments) {
-            stats.noCommentApprovals++
-          }
-        }
-      }
-    }
-    
-    for (const row of rows) {
-      const approvalStats = reviewerApprovals.get(row.developer)
-      if (approvalStats && approvalStats.approvals > 0) {
-        row.noCommentPct = (approvalStats.noCommentApprovals / approvalStats.approvals) * 100
+        avgSizeProd: Math.round(stats.avgProdLines),
+        avgSizeTest: Math.round(stats.avgTestLines),
+        avgSizeTotal: Math.round(stats.avgPrSize),
+        responseTime,
+        responseCount: stats.responseTimes.length,
+        responseInterval: bootstrapInterval(stats.responseTimes, median),
+        responseP90: percentile(stats.responseTimes, 0.9),
+        openResponseTime: median(stats.openResponseTimes),
+        noCommentPct: stats.noCommentApprovalPct ?? 0,
+        avgComments,
+        avgIterations: stats.avgIterations,
+        qualityScore: quality.score,
+        quality
       }
-    }
-    
-    return rows
-  }, [data, selectedRepo])
+    })
+  }, [data, inScope, teamStats, qualityProfile])
 
   // Filter rows by search term
   const filteredAuthoredRows = useMemo(() => {
@@ -388,7 +292,24 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
     isTeamRow: true
   }
 
-  // Team row for reviewed view
+  // Team-wide review response times (all reviews, same measures as the per-reviewer rows)
+  const teamResponse = useMemo(() => {
+    const [team] = aggregateReviewerStats(data.details.filter(inScope), data.workingCalendar, () => 'team')
+    return {
+      median: team ? median(team.responseTimes) : null,
+      p90: team ? percentile(team.responseTimes, 0.9) : null,
+      openMedian: team ? median(team.openResponseTimes) : null,
+      count: team ? team.responseTimes.length : 0,
+    }
+  }, [data, inScope])
+
+  // Team row for reviewed view: quality weighted by reviews
+  const teamAvgReviewerScore = useMemo(() => {
+    const totalReviews = reviewedRows.reduce((sum, r) => sum + r.totalReviews, 0)
+    const weightedSum = reviewedRows.reduce((sum, r) => sum + r.qualityScore * r.totalReviews, 0)
+    return totalReviews > 0 ? Math.round(weightedSum / totalReviews) : 0
+  }, [reviewedRows])
+
   const reviewedTeamRow: ReviewedRow = {
     developer: 'TEAM AVG/TOTAL',
     prsReviewed: 0, // Not meaningful for team
@@ -396,24 +317,26 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
     avgSizeProd: teamStats.reviewed.avgProdLinesReviewed,
     avgSizeTest: teamStats.reviewed.avgTestLinesReviewed,
     avgSizeTotal: teamStats.reviewed.avgPrSizeReviewed,
-    responseTime: teamStats.reviewed.medianResponseTime,
+    responseTime: teamResponse.median,
+    responseCount: teamResponse.count,
+    responseP90: teamResponse.p90,
+    openResponseTime: teamResponse.openMedian,
     noCommentPct: teamStats.reviewed.overallNoCommentPct,
     avgComments: teamStats.reviewed.avgInlineComments,
     avgIterations: teamStats.reviewed.avgIterationsPerPr,
+    qualityScore: teamAvgReviewerScore,
     isTeamRow: true
   }
 
-  // Reviewer vs Author Matrix
+  // Reviewer vs Author Matrix (peer reviews only, so authors' replies on their own PRs are left out)
   const { matrixData, matrixAuthors } = useMemo(() => {
-    const filteredPRs = selectedRepo === 'all'
-      ? data.details.filter(p => !p.error)
-      : data.details.filter(p => !p.error && p.repo === selectedRepo)
+    const filteredPRs = data.details.filter(p => !p.error && inScope(p))
 
     const reviewerAuthorMatrix: { [key: string]: { [key: string]: number } } = {}
     
     filteredPRs.forEach(pr => {
       const author = pr.author
-      pr.reviews.forEach(review => {
+      pr.reviews.filter(review => isPeerReview(pr, review)).forEach(review => {
         const reviewer = review.reviewer
         if (!reviewerAuthorMatrix[reviewer]) {
           reviewerAuthorMatrix[reviewer] = {}
@@ -430,7 +353,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
     } as Record<string, number | string>)).sort((a, b) => (b.total as number) - (a.total as number))
 
     return { matrixData: matrixRows, matrixAuthors: allAuthors }
-  }, [data, selectedRepo])
+  }, [data, inScope])
 
   return (
     <div className="space-y-6">
@@ -457,6 +380,20 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
             ))}
           </select>
         </div>
+        {baseRefs.length > 1 && (
+          <div>
+            <select
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={selectedBase}
+              onChange={(e) => setSelectedBase(e.target.value)}
+            >
+              <option value="all">All Base Branches</option>
+              {baseRefs.map(ref => (
+                <option key={ref} value={ref}>{ref}</option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* View Toggle */}
@@ -554,6 +491,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                   <tr key={row.developer} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                     <td className="px-3 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
                       {row.developer}
+                      <SmallSampleBadge count={row.prsAuthored} unit="PRs" />
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {row.prsAuthored}
@@ -569,6 +507,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {formatWorkingHours(row.avgCloseTime)}
+                      <IntervalNote interval={row.closeTimeInterval} />
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {formatNumber(row.avgIterations, 2)}
@@ -583,7 +522,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                       {formatNumber(row.commitsPerPr, 2)}
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
-                      {row.qualityScore}/100
+                      {row.quality && <QualityBreakdown quality={row.quality} profile={qualityProfile.name} suffix="/100" />}
                     </td>
                   </tr>
                 ))}
@@ -599,7 +538,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
             </table>
           </div>
           <div className="px-4 py-3 bg-gray-50 dark:bg-gray-900 text-xs text-gray-500 dark:text-gray-400">
-            Avg Size shows average lines changed per PR (additions + deletions). Close Time is in working hours. Quality = source size (35%) + close time (30%) + iterations (20%) + churn (15%). Size score uses source lines/files only, excluding test code.
+            Avg Size shows average lines changed per PR (additions + deletions). Close Time is in working hours. Quality weighs source size, close time, iterations and churn under the {qualityProfile.name} quality profile (hover a score for the breakdown). Size score uses source lines/files only, excluding test code. The grey range under Close Time is its 90% confidence interval; developers with fewer than {MIN_SAMPLE_SIZE} PRs are marked small n.
           </div>
         </div>
       )}
@@ -618,9 +557,12 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                   <HeaderCell field="avgSizeTest" className="text-center">Test</HeaderCell>
                   <HeaderCell field="avgSizeTotal" className="text-center">Total</HeaderCell>
                   <HeaderCell field="responseTime">Response</HeaderCell>
+                  <HeaderCell field="responseP90">P90</HeaderCell>
+                  <HeaderCell field="openResponseTime">From Open</HeaderCell>
                   <HeaderCell field="noCommentPct">No-Cmt %</HeaderCell>
                   <HeaderCell field="avgComments">Avg Cmts</HeaderCell>
                   <HeaderCell field="avgIterations">Iterations</HeaderCell>
+                  <HeaderCell field="qualityScore">Quality</HeaderCell>
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
@@ -647,6 +589,12 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                   <td className="px-3 py-3 whitespace-nowrap text-sm text-blue-800 dark:text-blue-200">
                     {formatWorkingHours(reviewedTeamRow.responseTime)}
                   </td>
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-blue-800 dark:text-blue-200">
+                    {formatWorkingHours(reviewedTeamRow.responseP90)}
+                  </td>
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-blue-800 dark:text-blue-200">
+                    {formatWorkingHours(reviewedTeamRow.openResponseTime)}
+                  </td>
                   <td className="px-3 py-3 whitespace-nowrap text-sm text-blue-800 dark:text-blue-200">
                     {formatPercent(reviewedTeamRow.noCommentPct)}
                   </td>
@@ -656,6 +604,9 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                   <td className="px-3 py-3 whitespace-nowrap text-sm text-blue-800 dark:text-blue-200">
                     {formatNumber(reviewedTeamRow.avgIterations, 2)}
                   </td>
+                  <td className="px-3 py-3 whitespace-nowrap text-sm text-blue-800 dark:text-blue-200">
+                    {reviewedTeamRow.qualityScore}/100
+                  </td>
                 </tr>
                 
                 {/* Individual Rows */}
@@ -663,6 +614,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                   <tr key={row.developer} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                     <td className="px-3 py-3 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-gray-100">
                       {row.developer}
+                      <SmallSampleBadge count={row.responseCount} unit="timed reviews" />
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {row.prsReviewed}
@@ -681,6 +633,13 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {formatWorkingHours(row.responseTime)}
+                      <IntervalNote interval={row.responseInterval} />
+                    </td>
+                    <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                      {formatWorkingHours(row.responseP90)}
+                    </td>
+                    <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                      {formatWorkingHours(row.openResponseTime)}
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {formatPercent(row.noCommentPct)}
@@ -691,12 +650,15 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
                     <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
                       {formatNumber(row.avgIterations, 2)}
                     </td>
+                    <td className="px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100">
+                      {row.quality && <QualityBreakdown quality={row.quality} profile={qualityProfile.name} suffix="/100" />}
+                    </td>
                   </tr>
                 ))}
                 
                 {sortedReviewedRows.length === 0 && (
                   <tr>
-                    <td colSpan={10} className="px-3 py-8 text-center text-gray-500 dark:text-gray-400">
+                    <td colSpan={13} className="px-3 py-8 text-center text-gray-500 dark:text-gray-400">
                       No reviewers found matching &quot;{searchTerm}&quot;
                     </td>
                   </tr>
@@ -705,7 +667,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
             </table>
           </div>
           <div className="px-4 py-3 bg-gray-50 dark:bg-gray-900 text-xs text-gray-500 dark:text-gray-400">
-            Avg Size shows average lines in PRs reviewed. Response time is median working hours from PR open to first activity.
+            Avg Size shows average lines in PRs reviewed. Response and P90 are working hours from the review request to first activity (from ready for review for reviews nobody requested). From Open is the median from PR open to first activity. Quality scores response time, approvals with feedback and comments per review (hover for the breakdown). The grey range under Response is its 90% confidence interval; reviewers with fewer than {MIN_SAMPLE_SIZE} timed reviews are marked small n.
           </div>
         </div>
       )}
@@ -753,7 +715,7 @@ export default function DeveloperStatsTab({ data }: DeveloperStatsTabProps) {
             </table>
           </div>
           <div className="px-6 py-3 bg-gray-50 dark:bg-gray-900 text-xs text-gray-500 dark:text-gray-400">
-            Numbers represent the count of reviews given by each reviewer to each author&apos;s PRs{selectedRepo !== 'all' ? ` (filtered to ${selectedRepo})` : ''}
+            Numbers represent the count of reviews given by each reviewer to each author&apos;s PRs{selectedRepo !== 'all' ? ` (filtered to ${selectedRepo})` : ''}{selectedBase !== 'all' ? ` (base branch ${selectedBase})` : ''}
           </div>
         </div>
       </div>
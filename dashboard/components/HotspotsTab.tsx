@@ -0,0 +1,212 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { Treemap, Tooltip, ResponsiveContainer } from 'recharts'
+import { MetricsData, Hotspot } from '@/types/metrics'
+import { computeHotspots, computeFileHotspots, formatNumber } from '@/lib/utils'
+
+interface HotspotsTabProps {
+  data: MetricsData
+}
+
+type GroupBy = 'directory' | 'owner'
+type SizeMetric = 'comments' | 'reworkAdditions' | 'linesChanged'
+
+const SIZE_METRICS: { id: SizeMetric; label: string }[] = [
+  { id: 'comments', label: 'Review Comments' },
+  { id: 'reworkAdditions', label: 'Rework (lines)' },
+  { id: 'linesChanged', label: 'Lines Changed' },
+]
+
+// Cell shade by the average review iterations of the PRs touching the area
+const ITERATION_SHADES: { max: number; fill: string }[] = [
+  { max: 1, fill: '#c4b5fd' },
+  { max: 1.5, fill: '#a78bfa' },
+  { max: 2, fill: '#8b5cf6' },
+  { max: 3, fill: '#7c3aed' },
+  { max: Infinity, fill: '#5b21b6' },
+]
+
+const selectClassName = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+const headerClassName = 'px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+const cellClassName = 'px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'
+
+const TOP_FILES = 25
+
+// Treemap cell: shaded by iterations, labelled when there is room
+function HotspotCell({ x = 0, y = 0, width = 0, height = 0, depth, name, avgIterations = 0 }: {
+  x?: number
+  y?: number
+  width?: number
+  height?: number
+  depth?: number
+  name?: string
+  avgIterations?: number
+}) {
+  if (depth !== 1) return null
+  const fill = ITERATION_SHADES.find(shade => avgIterations <= shade.max)!.fill
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={fill} stroke="#fff" />
+      {width > 60 && height > 20 && (
+        <text x={x + 4} y={y + 14} fill="#fff" fontSize={11}>
+          {name && name.length * 6 > width ? `${name.slice(0, Math.floor(width / 6) - 1)}…` : name}
+        </text>
+      )}
+    </g>
+  )
+}
+
+function HotspotTooltip({ active, payload }: { active?: boolean; payload?: { payload: Hotspot }[] }) {
+  if (!active || !payload || payload.length === 0) return null
+  const hotspot = payload[0].payload
+  return (
+    <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-md p-3 text-xs text-gray-900 dark:text-gray-100">
+      <div className="font-medium mb-1">{hotspot.key}</div>
+      <div>{hotspot.prs} PRs, {hotspot.files} files</div>
+      <div>{hotspot.comments} review comments</div>
+      <div>{hotspot.reworkAdditions} rework lines ({hotspot.churnedFiles} churned file changes)</div>
+      <div>{formatNumber(hotspot.avgIterations, 2)} avg iterations</div>
+    </div>
+  )
+}
+
+// Areas of the codebase that draw the most review comments, iterations and rework
+export default function HotspotsTab({ data }: HotspotsTabProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('directory')
+  const [depth, setDepth] = useState(2)
+  const [sizeMetric, setSizeMetric] = useState<SizeMetric>('comments')
+
+  const hotspots = useMemo(
+    () => computeHotspots(data, groupBy, depth).sort((a, b) => b[sizeMetric] - a[sizeMetric]),
+    [data, groupBy, depth, sizeMetric]
+  )
+  const treemapData = useMemo(
+    () => hotspots
+      .filter(hotspot => hotspot[sizeMetric] > 0)
+      .map(hotspot => ({ ...hotspot, name: hotspot.key, size: hotspot[sizeMetric] })),
+    [hotspots, sizeMetric]
+  )
+  const fileHotspots = useMemo(() => computeFileHotspots(data).slice(0, TOP_FILES), [data])
+  const hasOwners = useMemo(() => data.details.some(pr => pr.files?.some(file => file.owners)), [data])
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <select className={selectClassName} value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)}>
+          <option value="directory">By Directory</option>
+          {hasOwners && <option value="owner">By CODEOWNERS Owner</option>}
+        </select>
+        {groupBy === 'directory' && (
+          <select className={selectClassName} value={depth} onChange={(e) => setDepth(Number(e.target.value))}>
+            {[1, 2, 3, 4].map(level => (
+              <option key={level} value={level}>Depth {level}</option>
+            ))}
+          </select>
+        )}
+        <select className={selectClassName} value={sizeMetric} onChange={(e) => setSizeMetric(e.target.value as SizeMetric)}>
+          {SIZE_METRICS.map(metric => (
+            <option key={metric.id} value={metric.id}>Size by {metric.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+          Review Hotspots
+        </h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+          {treemapData.length > 0 ? (
+            <ResponsiveContainer width="100%" height={450}>
+              <Treemap data={treemapData} dataKey="size" nameKey="name" isAnimationActive={false} content={<HotspotCell />}>
+                <Tooltip content={<HotspotTooltip />} />
+              </Treemap>
+            </ResponsiveContainer>
+          ) : (
+            <div className="py-12 text-center text-sm text-gray-500 dark:text-gray-400">
+              No per-file data in this file (collected before hotspots)
+            </div>
+          )}
+        </div>
+        <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Area is the selected measure; darker cells had more review iterations per PR. Rework is lines added to a file by commits after the first one touching it.
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+          {groupBy === 'owner' ? 'Owners' : 'Directories'}
+        </h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className={headerClassName}>{groupBy === 'owner' ? 'Owner' : 'Directory'}</th>
+                  <th className={headerClassName}>PRs</th>
+                  <th className={headerClassName}>Files</th>
+                  <th className={headerClassName}>Comments</th>
+                  <th className={headerClassName}>Rework</th>
+                  <th className={headerClassName}>Churned</th>
+                  <th className={headerClassName}>Avg Iterations</th>
+                  <th className={headerClassName}>Lines</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {hotspots.map(hotspot => (
+                  <tr key={hotspot.key} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className={`${cellClassName} font-medium`}>{hotspot.key}</td>
+                    <td className={cellClassName}>{hotspot.prs}</td>
+                    <td className={cellClassName}>{hotspot.files}</td>
+                    <td className={cellClassName}>{hotspot.comments}</td>
+                    <td className={cellClassName}>{formatNumber(hotspot.reworkAdditions)}</td>
+                    <td className={cellClassName}>{hotspot.churnedFiles}</td>
+                    <td className={cellClassName}>{formatNumber(hotspot.avgIterations, 2)}</td>
+                    <td className={cellClassName}>{formatNumber(hotspot.linesChanged)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+          Most Re-worked Files (Top {TOP_FILES})
+        </h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className={headerClassName}>File</th>
+                  <th className={headerClassName}>PRs</th>
+                  <th className={headerClassName}>Commits</th>
+                  <th className={headerClassName}>Rework</th>
+                  <th className={headerClassName}>Comments</th>
+                  <th className={headerClassName}>Lines</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {fileHotspots.map(file => (
+                  <tr key={`${file.repo}/${file.path}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-3 py-3 text-sm">
+                      <div className="text-gray-500 dark:text-gray-400 text-xs">{file.repo}</div>
+                      <div className="text-gray-900 dark:text-gray-100 font-mono text-xs break-all">{file.path}</div>
+                    </td>
+                    <td className={cellClassName}>{file.prs}</td>
+                    <td className={cellClassName}>{file.commits}</td>
+                    <td className={cellClassName}>{formatNumber(file.reworkAdditions)}</td>
+                    <td className={cellClassName}>{file.comments}</td>
+                    <td className={cellClassName}>{formatNumber(file.linesChanged)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,28 @@
 'use client'
 
+import { isMonthlyPeriod, formatPeriodLabel } from '@/lib/utils'
+
 interface MonthSelectorProps {
-  months: string[]
+  months: string[]  // Period ids: months, quarters, sprints and custom ranges
   selectedMonth: string | null
   onSelectMonth: (month: string) => void
 }
 
 export default function MonthSelector({ months, selectedMonth, onSelectMonth }: MonthSelectorProps) {
+  const monthly = months.filter(isMonthlyPeriod)
+  const quarters = months.filter(m => /^\d{4}-Q[1-4]$/.test(m))
+  const ranges = months.filter(m => m.includes('_'))
+
+  const groups = [
+    { label: 'Months', periods: monthly },
+    { label: 'Quarters', periods: quarters },
+    { label: 'Sprints & Custom Ranges', periods: ranges },
+  ].filter(group => group.periods.length > 0)
+
   return (
     <div>
       <label htmlFor="month-select" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-        Select Month
+        Select Period
       </label>
       <select
         id="month-select"
@@ -18,11 +30,15 @@ export default function MonthSelector({ months, selectedMonth, onSelectMonth }:
         onChange={(e) => onSelectMonth(e.target.value)}
         className="block w-full max-w-xs px-4 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
       >
-        <option value="">Select a month...</option>
-        {months.map((month) => (
-          <option key={month} value={month}>
-            {month}
-          </option>
+        <option value="">Select a period...</option>
+        {groups.map(group => (
+          <optgroup key={group.label} label={group.label}>
+            {group.periods.map((month) => (
+              <option key={month} value={month}>
+                {formatPeriodLabel(month)}
+              </option>
+            ))}
+          </optgroup>
         ))}
       </select>
     </div>
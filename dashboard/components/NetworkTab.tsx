@@ -0,0 +1,338 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { ReviewNetwork, ReviewNetworkEdge } from '@/types/metrics'
+import { forceLayout } from '@/lib/force-layout'
+import { formatNumber, formatPercent, getDefaultRangeStart } from '@/lib/utils'
+
+interface NetworkTabProps {
+  months: string[]           // Available months, most recent first
+  selectedMonth: string | null
+}
+
+type EdgeFilter = 'all' | 'siloed' | 'reciprocal'
+
+const WIDTH = 900
+const HEIGHT = 560
+
+const EDGE_COLORS = {
+  siloed: '#ef4444',
+  reciprocal: '#3b82f6',
+  other: '#9ca3af',
+}
+const NODE_COLOR = '#6366f1'
+const SINGLE_REVIEWER_COLOR = '#f59e0b'
+
+const selectClassName = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+const headerClassName = 'px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+const cellClassName = 'px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'
+
+function edgeColor(edge: ReviewNetworkEdge): string {
+  if (edge.siloed) return EDGE_COLORS.siloed
+  if (edge.reciprocal) return EDGE_COLORS.reciprocal
+  return EDGE_COLORS.other
+}
+
+// Who reviews whose PRs across a range of months, as a force-directed graph
+export default function NetworkTab({ months, selectedMonth }: NetworkTabProps) {
+  const sortedMonths = useMemo(() => [...months].sort(), [months])
+  const [to, setTo] = useState<string>(() => selectedMonth ?? sortedMonths[sortedMonths.length - 1] ?? '')
+  // Three months ending at the selected one
+  const [from, setFrom] = useState<string>(() => getDefaultRangeStart(sortedMonths, to, 3))
+  const [network, setNetwork] = useState<ReviewNetwork | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [edgeFilter, setEdgeFilter] = useState<EdgeFilter>('all')
+  const [focused, setFocused] = useState<string | null>(null)
+
+  // Fetch the network when the range changes
+  useEffect(() => {
+    if (!from || !to) return
+
+    setLoading(true)
+    setError(null)
+
+    fetch(`/api/network?from=${from}&to=${to}`)
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to fetch review network')
+        return res.json()
+      })
+      .then((data: ReviewNetwork) => {
+        setNetwork(data)
+        setFocused(null)
+        setLoading(false)
+      })
+      .catch(err => {
+        console.error('Failed to fetch review network:', err)
+        setError('Failed to load the review network for this range')
+        setLoading(false)
+      })
+  }, [from, to])
+
+  const positions = useMemo(() => network
+    ? forceLayout(
+        network.nodes.map(node => node.developer),
+        network.edges.map(edge => ({ source: edge.reviewer, target: edge.author, weight: edge.weight })),
+        WIDTH,
+        HEIGHT
+      )
+    : new Map(), [network])
+
+  const maxWeight = useMemo(() => Math.max(1, ...(network?.edges ?? []).map(edge => edge.weight)), [network])
+  const maxActivity = useMemo(
+    () => Math.max(1, ...(network?.nodes ?? []).map(node => node.prsAuthored + node.reviewsGiven)),
+    [network]
+  )
+
+  const visibleEdges = useMemo(() => (network?.edges ?? []).filter(edge =>
+    edgeFilter === 'all' || (edgeFilter === 'siloed' ? edge.siloed : edge.reciprocal)
+  ), [network, edgeFilter])
+
+  const siloedPairs = useMemo(
+    () => (network?.edges ?? []).filter(edge => edge.siloed).sort((a, b) => b.reviews - a.reviews),
+    [network]
+  )
+  const singleReviewerNodes = useMemo(() => (network?.nodes ?? []).filter(node => node.singleReviewer), [network])
+  const reciprocalPct = network && network.edges.length > 0
+    ? (network.edges.filter(edge => edge.reciprocal).length / network.edges.length) * 100
+    : null
+
+  // Only reviewer of each single-reviewer developer's PRs
+  const onlyReviewerOf = (developer: string) =>
+    network?.edges.find(edge => edge.author === developer)?.reviewer ?? ''
+
+  const isFocused = (edge: ReviewNetworkEdge) => !focused || edge.reviewer === focused || edge.author === focused
+
+  const stats = [
+    { title: 'Developers', value: network?.nodes.length ?? 0, subtitle: 'authors and reviewers' },
+    { title: 'Review Pairs', value: network?.edges.length ?? 0, subtitle: 'reviewer → author' },
+    { title: 'Reciprocal', value: formatPercent(reciprocalPct), subtitle: 'of pairs review each other' },
+    { title: 'Siloed Pairs', value: siloedPairs.length, subtitle: 'most of one side\'s reviews' },
+    { title: 'Single Reviewer', value: singleReviewerNodes.length, subtitle: 'developers with one reviewer' },
+  ]
+
+  return (
+    <div className="space-y-8">
+      {/* Range selection */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div>
+          <label htmlFor="network-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            From
+          </label>
+          <select id="network-from" className={selectClassName} value={from} onChange={(e) => setFrom(e.target.value)}>
+            {sortedMonths.filter(m => !to || m <= to).map(month => (
+              <option key={month} value={month}>{month}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="network-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            To
+          </label>
+          <select id="network-to" className={selectClassName} value={to} onChange={(e) => setTo(e.target.value)}>
+            {sortedMonths.filter(m => !from || m >= from).map(month => (
+              <option key={month} value={month}>{month}</option>
+            ))}
+          </select>
+        </div>
+        <select className={selectClassName} value={edgeFilter} onChange={(e) => setEdgeFilter(e.target.value as EdgeFilter)}>
+          <option value="all">All pairs</option>
+          <option value="siloed">Siloed pairs</option>
+          <option value="reciprocal">Reciprocal pairs</option>
+        </select>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && network && network.nodes.length === 0 && (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          No data available for the selected range.
+        </div>
+      )}
+
+      {!loading && !error && network && network.nodes.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {stats.map(card => (
+              <div key={card.title} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4 border border-gray-200 dark:border-gray-700">
+                <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">{card.title}</h3>
+                <div className="text-2xl font-bold text-gray-900 dark:text-white mb-1">{card.value}</div>
+                <p className="text-xs text-gray-500 dark:text-gray-500">{card.subtitle}</p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+              Review Network
+            </h2>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+              <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" onClick={() => setFocused(null)}>
+                <defs>
+                  {Object.entries(EDGE_COLORS).map(([kind, color]) => (
+                    <marker key={kind} id={`arrow-${kind}`} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                    </marker>
+                  ))}
+                </defs>
+
+                {visibleEdges.map(edge => {
+                  const source = positions.get(edge.reviewer)
+                  const target = positions.get(edge.author)
+                  if (!source || !target) return null
+                  // Bend each direction to its own side so reciprocal pairs show as two arcs
+                  const dx = target.x - source.x
+                  const dy = target.y - source.y
+                  const length = Math.max(1, Math.hypot(dx, dy))
+                  const controlX = (source.x + target.x) / 2 - (dy / length) * 20
+                  const controlY = (source.y + target.y) / 2 + (dx / length) * 20
+                  const kind = edge.siloed ? 'siloed' : edge.reciprocal ? 'reciprocal' : 'other'
+                  return (
+                    <path
+                      key={`${edge.reviewer}->${edge.author}`}
+                      d={`M ${source.x} ${source.y} Q ${controlX} ${controlY} ${target.x} ${target.y}`}
+                      fill="none"
+                      stroke={edgeColor(edge)}
+                      strokeWidth={1 + (edge.weight / maxWeight) * 6}
+                      strokeOpacity={isFocused(edge) ? 0.7 : 0.08}
+                      markerEnd={`url(#arrow-${kind})`}
+                    >
+                      <title>
+                        {`${edge.reviewer} → ${edge.author}: ${edge.reviews} reviews on ${edge.prs} PRs, ${edge.comments} comments, ${edge.changesRequested} changes requested`}
+                      </title>
+                    </path>
+                  )
+                })}
+
+                {network.nodes.map(node => {
+                  const position = positions.get(node.developer)
+                  if (!position) return null
+                  const radius = 6 + 14 * Math.sqrt((node.prsAuthored + node.reviewsGiven) / maxActivity)
+                  const dimmed = focused !== null && focused !== node.developer &&
+                    !network.edges.some(edge => isFocused(edge) && (edge.reviewer === node.developer || edge.author === node.developer))
+                  return (
+                    <g
+                      key={node.developer}
+                      className="cursor-pointer"
+                      opacity={dimmed ? 0.2 : 1}
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setFocused(focused === node.developer ? null : node.developer)
+                      }}
+                    >
+                      <circle
+                        cx={position.x}
+                        cy={position.y}
+                        r={radius}
+                        fill={node.singleReviewer ? SINGLE_REVIEWER_COLOR : NODE_COLOR}
+                        stroke="#fff"
+                        strokeWidth={2}
+                      />
+                      <text x={position.x} y={position.y + radius + 12} textAnchor="middle" fontSize={11} className="fill-gray-700 dark:fill-gray-300">
+                        {node.developer}
+                      </text>
+                      <title>
+                        {`${node.developer}: ${node.prsAuthored} PRs authored (${node.reviewers} reviewers), ${node.reviewsGiven} reviews given`}
+                      </title>
+                    </g>
+                  )
+                })}
+              </svg>
+            </div>
+            <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Arrows point from reviewer to author; thicker arrows carry more reviews, comments and changes requested.
+              <span style={{ color: EDGE_COLORS.siloed }}> Red</span>: siloed pair.
+              <span style={{ color: EDGE_COLORS.reciprocal }}> Blue</span>: the two review each other.
+              <span style={{ color: SINGLE_REVIEWER_COLOR }}> Amber</span> developers: PRs only ever reviewed by one person.
+              Click a developer to focus on their pairs.
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div>
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Siloed Pairs
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900">
+                      <tr>
+                        <th className={headerClassName}>Reviewer</th>
+                        <th className={headerClassName}>Author</th>
+                        <th className={headerClassName}>Reviews</th>
+                        <th className={headerClassName}>PRs</th>
+                        <th className={headerClassName}>Reciprocal</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                      {siloedPairs.map(edge => (
+                        <tr key={`${edge.reviewer}->${edge.author}`} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <td className={`${cellClassName} font-medium`}>{edge.reviewer}</td>
+                          <td className={cellClassName}>{edge.author}</td>
+                          <td className={cellClassName}>{edge.reviews}</td>
+                          <td className={cellClassName}>{edge.prs}</td>
+                          <td className={cellClassName}>{edge.reciprocal ? 'Yes' : 'No'}</td>
+                        </tr>
+                      ))}
+                      {siloedPairs.length === 0 && (
+                        <tr>
+                          <td colSpan={5} className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">No siloed pairs</td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Single-Reviewer Developers
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                    <thead className="bg-gray-50 dark:bg-gray-900">
+                      <tr>
+                        <th className={headerClassName}>Developer</th>
+                        <th className={headerClassName}>PRs Authored</th>
+                        <th className={headerClassName}>Only Reviewer</th>
+                        <th className={headerClassName}>Reviews Given</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                      {singleReviewerNodes.map(node => (
+                        <tr key={node.developer} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                          <td className={`${cellClassName} font-medium`}>{node.developer}</td>
+                          <td className={cellClassName}>{node.prsAuthored}</td>
+                          <td className={cellClassName}>{onlyReviewerOf(node.developer)}</td>
+                          <td className={cellClassName}>{formatNumber(node.reviewsGiven)}</td>
+                        </tr>
+                      ))}
+                      {singleReviewerNodes.length === 0 && (
+                        <tr>
+                          <td colSpan={4} className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">Every developer has more than one reviewer</td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+'use client'
+
+import { useMemo } from 'react'
+import { PRDetail, TimelineEvent, TimelinePhase, WorkingCalendar } from '@/types/metrics'
+import { getTimelinePhases, summarizeReviewTimeline, formatWorkingHours } from '@/lib/utils'
+import Tooltip from './Tooltip'
+
+interface PRTimelineProps {
+  pr: PRDetail
+  workingCalendar?: WorkingCalendar
+}
+
+const PHASE_STYLES: Record<TimelinePhase['phase'], { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-300 dark:bg-gray-600' },
+  reviewer: { label: 'Waiting on reviewer', className: 'bg-amber-300 dark:bg-amber-600' },
+  author: { label: 'Waiting on author', className: 'bg-blue-300 dark:bg-blue-600' },
+}
+
+const EVENT_LABELS: Record<TimelineEvent['type'], string> = {
+  opened: 'Opened',
+  ready_for_review: 'Ready for review',
+  converted_to_draft: 'Converted to draft',
+  review_requested: 'Review requested',
+  review_request_removed: 'Review request removed',
+  reviewed: 'Reviewed',
+  pushed: 'Pushed',
+  merged: 'Merged',
+  closed: 'Closed',
+}
+
+// Marker color per event (reviews by state)
+function markerClassName(event: TimelineEvent): string {
+  if (event.type === 'reviewed') {
+    if (event.state === 'APPROVED') return 'bg-green-500'
+    if (event.state === 'CHANGES_REQUESTED') return 'bg-red-500'
+    return 'bg-yellow-500'
+  }
+  if (event.type === 'review_requested') return event.rerequest ? 'bg-white border-2 border-purple-500' : 'bg-purple-500'
+  if (event.type === 'merged') return 'bg-indigo-600'
+  if (event.type === 'pushed') return 'bg-blue-500'
+  return 'bg-gray-500'
+}
+
+// Lane an event belongs to: reviews and requests sit on the reviewer's lane, everything else on the author's
+function laneOf(event: TimelineEvent, author: string): string {
+  if (event.type === 'reviewed' && event.actor) return event.actor
+  if (event.type === 'review_requested' || event.type === 'review_request_removed') {
+    return event.reviewer ?? `@${event.team}`
+  }
+  return author
+}
+
+function describe(event: TimelineEvent): string {
+  const parts = [event.rerequest ? 'Review re-requested' : EVENT_LABELS[event.type]]
+  if (event.state) parts.push(event.state.toLowerCase().replace('_', ' '))
+  if (event.actor) parts.push(`by ${event.actor}`)
+  if (event.sha) parts.push(event.sha.slice(0, 7))
+  return `${parts.join(' · ')} — ${new Date(event.at).toLocaleString()}`
+}
+
+// Swimlane of a PR's review cycle: phase bar on top, one lane for the author and one per reviewer
+// Positions are proportional to wall-clock time; phase durations are working hours
+export default function PRTimeline({ pr, workingCalendar }: PRTimelineProps) {
+  const events = useMemo(() => pr.timeline ?? [], [pr.timeline])
+  const phases = useMemo(() => getTimelinePhases(events), [events])
+  const summary = useMemo(
+    () => summarizeReviewTimeline(events, workingCalendar, pr.author),
+    [events, workingCalendar, pr.author]
+  )
+
+  if (events.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400">
+        No timeline for this PR (collected before timelines were recorded).
+      </div>
+    )
+  }
+
+  const start = new Date(events[0].at).getTime()
+  const span = Math.max(new Date(events[events.length - 1].at).getTime() - start, 1)
+  const position = (at: string) => ((new Date(at).getTime() - start) / span) * 100
+
+  const lanes = Array.from(new Set([pr.author, ...events.map(event => laneOf(event, pr.author))]))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-700 dark:text-gray-300">
+        <span>Draft: <strong>{formatWorkingHours(summary.draftHours)}</strong></span>
+        <span>Waiting on reviewer: <strong>{formatWorkingHours(summary.waitingOnReviewerHours)}</strong></span>
+        <span>Waiting on author: <strong>{formatWorkingHours(summary.waitingOnAuthorHours)}</strong></span>
+        <span>Review rounds: <strong>{summary.reviewRounds}</strong></span>
+      </div>
+
+      <div className="space-y-1">
+        {/* Phase bar */}
+        <div className="flex items-center gap-3">
+          <div className="w-32 shrink-0 text-xs text-gray-500 dark:text-gray-400">Status</div>
+          <div className="relative flex-1 h-3 rounded bg-gray-100 dark:bg-gray-700 overflow-hidden">
+            {phases.map(phase => (
+              <div
+                key={phase.start}
+                className={`absolute inset-y-0 ${PHASE_STYLES[phase.phase].className}`}
+                style={{ left: `${position(phase.start)}%`, width: `${position(phase.end) - position(phase.start)}%` }}
+                title={PHASE_STYLES[phase.phase].label}
+              />
+            ))}
+          </div>
+        </div>
+
+        {/* One lane per participant */}
+        {lanes.map(lane => (
+          <div key={lane} className="flex items-center gap-3">
+            <div className="w-32 shrink-0 truncate text-xs text-gray-700 dark:text-gray-300">
+              {lane}{lane === pr.author ? ' (author)' : ''}
+            </div>
+            <div className="relative flex-1 h-5 border-b border-dashed border-gray-200 dark:border-gray-700">
+              {events.filter(event => laneOf(event, pr.author) === lane).map((event, i) => (
+                <div
+                  key={`${event.type}-${event.at}-${i}`}
+                  className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2"
+                  style={{ left: `${position(event.at)}%` }}
+                >
+                  <Tooltip content={describe(event)}>
+                    <span className={`block h-3 w-3 rounded-full cursor-help ${markerClassName(event)}`} />
+                  </Tooltip>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+        {Object.values(PHASE_STYLES).map(style => (
+          <span key={style.label} className="flex items-center gap-1">
+            <span className={`inline-block h-2 w-4 rounded ${style.className}`} />{style.label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-purple-500" />Requested</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-green-500" />Approved</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-red-500" />Changes requested</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-yellow-500" />Commented</span>
+        <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 rounded-full bg-blue-500" />Push</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { QualityScore } from '@/types/metrics'
+import { formatNumber } from '@/lib/utils'
+import Tooltip from './Tooltip'
+
+interface QualityBreakdownProps {
+  quality: QualityScore
+  profile: string  // Quality profile name
+  suffix?: string  // e.g. '/100'
+}
+
+// Score colored by band, with each component's contribution in a tooltip
+export default function QualityBreakdown({ quality, profile, suffix = '' }: QualityBreakdownProps) {
+  const content = (
+    <div className="text-xs">
+      <div className="font-medium mb-1">Quality score ({profile} profile)</div>
+      <table>
+        <tbody>
+          {quality.components.map(component => (
+            <tr key={component.id}>
+              <td className="pr-3">{component.label}</td>
+              <td className="pr-3 text-right text-gray-400">{component.score}/100, weight {component.weight}</td>
+              <td className="text-right">+{formatNumber(component.contribution, 1)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-gray-600">
+            <td className="pr-3 font-medium">Total</td>
+            <td />
+            <td className="text-right font-medium">{quality.score}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+
+  return (
+    <Tooltip content={content}>
+      <span className={`cursor-help ${
+        quality.score >= 75 ? 'text-green-600 dark:text-green-400' :
+        quality.score >= 50 ? 'text-yellow-600 dark:text-yellow-400' :
+        'text-red-600 dark:text-red-400'
+      }`}>
+        {quality.score}{suffix}
+      </span>
+    </Tooltip>
+  )
+}
@@ -1,12 +1,27 @@
 'use client'
 
-import { MetricsData } from '@/types/metrics'
+import { MetricsData, CommentKind } from '@/types/metrics'
+import { computeReviewConcentration } from '@/lib/reviewer-load'
+import { formatNumber, formatPercent } from '@/lib/utils'
+import SuggestedReviewersPanel from '@/components/SuggestedReviewersPanel'
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
 
 interface ReviewerActivityTabProps {
   data: MetricsData
 }
 
+// Gini coefficient from which reviews are flagged as concentrated on a few people
+const CONCENTRATION_GINI_WARNING = 0.5
+
+const COMMENT_KIND_STYLES: { id: CommentKind; label: string; color: string }[] = [
+  { id: 'blocking', label: 'Blocking', color: '#ef4444' },
+  { id: 'suggestion', label: 'Suggestion', color: '#3b82f6' },
+  { id: 'question', label: 'Question', color: '#8b5cf6' },
+  { id: 'nit', label: 'Nit', color: '#f59e0b' },
+  { id: 'praise', label: 'Praise', color: '#10b981' },
+  { id: 'other', label: 'Other', color: '#9ca3af' },
+]
+
 export default function ReviewerActivityTab({ data }: ReviewerActivityTabProps) {
   // Review Load Analysis (PRs reviewed vs Avg size)
   const reviewLoadData = data.summary.map(r => ({
@@ -15,8 +30,68 @@ export default function ReviewerActivityTab({ data }: ReviewerActivityTabProps)
     avgSize: r.avgPrSizeReviewed
   })).sort((a, b) => b.prsReviewed - a.prsReviewed)
 
+  // Review concentration: do reviews depend on one or two people?
+  const concentration = computeReviewConcentration(data.summary)
+  const concentrated = (concentration.gini ?? 0) >= CONCENTRATION_GINI_WARNING && concentration.reviewers > 2
+
+  // Review Comment Mix (heuristic comment kinds; absent in files collected before comment classification)
+  const hasCommentKinds = data.summary.some(r => r.substantiveReviews !== undefined)
+  const commentMixData = data.summary
+    .map(r => ({
+      reviewer: r.reviewer,
+      substantivePct: r.substantiveReviewPct ?? 0,
+      ...Object.fromEntries(COMMENT_KIND_STYLES.map(kind => [kind.id, r[`${kind.id}Comments`] ?? 0]))
+    }))
+    .filter(r => COMMENT_KIND_STYLES.some(kind => r[kind.id as keyof typeof r] as number > 0))
+    .sort((a, b) => b.substantivePct - a.substantivePct)
+
   return (
     <div className="space-y-8">
+      <div>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+          Review Concentration
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className={`bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border ${concentrated ? 'border-red-300 dark:border-red-700' : 'border-gray-200 dark:border-gray-700'}`}>
+            <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">Gini Coefficient</h3>
+            <div className={`text-3xl font-bold mb-1 ${concentrated ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+              {concentration.gini !== null ? formatNumber(concentration.gini, 2) : 'N/A'}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-500">
+              {concentrated ? 'reviews depend on a few people' : '0 = evenly spread, 1 = one reviewer'}
+            </p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">Top 2 Reviewers&apos; Share</h3>
+            <div className="text-3xl font-bold text-gray-900 dark:text-white mb-1">
+              {formatPercent(concentration.topShare)}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-500 truncate" title={concentration.topReviewers.join(', ')}>
+              {concentration.topReviewers.join(', ') || 'No reviews'}
+            </p>
+          </div>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-medium text-gray-600 dark:text-gray-400 mb-2">Active Reviewers</h3>
+            <div className="text-3xl font-bold text-gray-900 dark:text-white mb-1">
+              {concentration.reviewers}
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-500">
+              {concentration.totalReviews} reviews
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+          Who Should Review This?
+        </h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          Reviewers who know the changed areas, ranked with their current review load taken into account
+        </p>
+        <SuggestedReviewersPanel data={data} />
+      </div>
+
       <div>
         <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
           Review Load Analysis
@@ -39,6 +114,31 @@ export default function ReviewerActivityTab({ data }: ReviewerActivityTabProps)
           </ResponsiveContainer>
         </div>
       </div>
+
+      {hasCommentKinds && (
+        <div>
+          <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+            Review Comment Mix
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Review, inline and conversation comments per reviewer by kind, sorted by the share of substantive reviews (with a blocking point, suggestion or question). Kinds are keyword heuristics, not a judgement of each comment.
+          </p>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+            <ResponsiveContainer width="100%" height={400}>
+              <BarChart data={commentMixData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="reviewer" angle={-45} textAnchor="end" height={120} />
+                <YAxis label={{ value: 'Comments', angle: -90, position: 'insideLeft' }} />
+                <Tooltip />
+                <Legend />
+                {COMMENT_KIND_STYLES.map(kind => (
+                  <Bar key={kind.id} dataKey={kind.id} stackId="kinds" fill={kind.color} name={kind.label} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
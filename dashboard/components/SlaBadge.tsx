@@ -0,0 +1,92 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import { SlaReport } from '@/types/metrics'
+import { formatNumber } from '@/lib/utils'
+
+interface SlaBadgeProps {
+  report: SlaReport
+}
+
+// Offenders listed per rule in the dropdown
+const MAX_LISTED = 10
+
+// SLA status from the collector's check; opens the broken rules and their worst offenders
+export default function SlaBadge({ report }: SlaBadgeProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const dropdownRef = useRef<HTMLDivElement>(null)
+
+  // Close dropdown on outside click
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [])
+
+  const broken = report.rules.filter(rule => rule.violations.length > 0)
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        SLAs
+      </label>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-4 py-2 rounded-lg border text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          report.total > 0
+            ? 'bg-red-50 dark:bg-red-900/20 border-red-300 dark:border-red-800 text-red-700 dark:text-red-300'
+            : 'bg-green-50 dark:bg-green-900/20 border-green-300 dark:border-green-800 text-green-700 dark:text-green-300'
+        }`}
+      >
+        {report.total > 0
+          ? `🚨 ${report.total} violation${report.total !== 1 ? 's' : ''} in ${broken.length} of ${report.rules.length} SLAs`
+          : `✓ All ${report.rules.length} SLAs met`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 mt-1 w-[28rem] max-h-96 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
+          {report.rules.map(rule => (
+            <div key={rule.id} className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 last:border-b-0">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900 dark:text-gray-100">
+                  {rule.violations.length > 0 ? '❌' : '✅'} {rule.label} ≤ {rule.max}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {rule.violations.length} of {rule.checked} over
+                </span>
+              </div>
+              {rule.violations.length > 0 && (
+                <ul className="mt-1 space-y-0.5 text-xs">
+                  {rule.violations.slice(0, MAX_LISTED).map(violation => (
+                    <li key={violation.subject} className="flex justify-between gap-3">
+                      <span className="truncate text-gray-700 dark:text-gray-300">
+                        {violation.url ? (
+                          <a href={violation.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {violation.subject}
+                          </a>
+                        ) : violation.subject}
+                        {violation.title && <span className="text-gray-500 dark:text-gray-400"> {violation.title}</span>}
+                        {violation.url && violation.developer && <span className="text-gray-400 dark:text-gray-500"> · {violation.developer}</span>}
+                      </span>
+                      <span className="font-medium text-red-600 dark:text-red-400">{formatNumber(violation.value, 1)}</span>
+                    </li>
+                  ))}
+                  {rule.violations.length > MAX_LISTED && (
+                    <li className="text-gray-500 dark:text-gray-400">and {rule.violations.length - MAX_LISTED} more</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          ))}
+          <div className="px-3 py-1.5 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-900">
+            Checked by the collector on all collected PRs; developer exclusions do not apply
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useMemo } from 'react'
+import { MetricsData, AbandonmentRate, TimelinePhaseName } from '@/types/metrics'
+import { getOpenPRs, computeAbandonment, formatWorkingHours, formatPercent, getPRKey } from '@/lib/utils'
+
+interface StuckPRsTabProps {
+  data: MetricsData
+}
+
+const WAITING_ON_LABELS: Record<TimelinePhaseName, string> = {
+  draft: 'Draft',
+  reviewer: 'Reviewer',
+  author: 'Author',
+}
+
+const headerClassName = 'px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+const cellClassName = 'px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'
+
+// Highest abandonment first, then by volume
+const byRate = (a: AbandonmentRate, b: AbandonmentRate) =>
+  (b.rate ?? -1) - (a.rate ?? -1) || (b.merged + b.abandoned) - (a.merged + a.abandoned)
+
+function AbandonmentTable({ title, label, rates }: { title: string; label: string; rates: AbandonmentRate[] }) {
+  return (
+    <div>
+      <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+        {title}
+      </h2>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className={headerClassName}>{label}</th>
+                <th className={headerClassName}>Merged</th>
+                <th className={headerClassName}>Abandoned</th>
+                <th className={headerClassName}>Abandonment Rate</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {rates.map(rate => (
+                <tr key={rate.key} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className={`${cellClassName} font-medium`}>{rate.key}</td>
+                  <td className={cellClassName}>{rate.merged}</td>
+                  <td className={cellClassName}>{rate.abandoned}</td>
+                  <td className={cellClassName}>{formatPercent(rate.rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Open PRs by age and closed-without-merge rates (needs --include-open / --include-closed)
+export default function StuckPRsTab({ data }: StuckPRsTabProps) {
+  const openPRs = useMemo(() => getOpenPRs(data), [data])
+
+  const authorRates = useMemo(() => computeAbandonment(data, 'author').sort(byRate), [data])
+  const repoRates = useMemo(() => computeAbandonment(data, 'repo').sort(byRate), [data])
+  const hasClosed = (data.unmergedDetails ?? []).some(pr => pr.status === 'closed')
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+          Open PRs ({openPRs.length})
+        </h2>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className={headerClassName}>PR</th>
+                  <th className={headerClassName}>Title</th>
+                  <th className={headerClassName}>Author</th>
+                  <th className={headerClassName}>Age</th>
+                  <th className={headerClassName}>Waiting On</th>
+                  <th className={headerClassName}>Pending Reviewers</th>
+                  <th className={headerClassName}>Reviews</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {openPRs.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-sm text-gray-500 dark:text-gray-400">
+                      No open PRs in this file (collect with --include-open)
+                    </td>
+                  </tr>
+                )}
+                {openPRs.map(({ pr, ageHours }) => (
+                  <tr key={getPRKey(pr)} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className="px-3 py-3 text-sm">
+                      <div className="text-gray-500 dark:text-gray-400 text-xs">{pr.repo}</div>
+                      <a
+                        href={pr.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 dark:text-blue-400 hover:underline font-medium"
+                      >
+                        #{pr.number}
+                      </a>
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-900 dark:text-gray-100">
+                      {pr.title}
+                    </td>
+                    <td className={cellClassName}>{pr.author}</td>
+                    <td className={cellClassName}>{formatWorkingHours(ageHours)}</td>
+                    <td className={cellClassName}>{pr.waitingOn ? WAITING_ON_LABELS[pr.waitingOn] : 'N/A'}</td>
+                    <td className="px-3 py-3 text-sm text-gray-900 dark:text-gray-100">
+                      {pr.pendingReviewers && pr.pendingReviewers.length > 0 ? pr.pendingReviewers.join(', ') : '—'}
+                    </td>
+                    <td className={cellClassName}>{pr.reviews.length}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+        <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Age is working hours from ready for review to collection ({new Date(data.generatedAt).toLocaleString()}).
+        </div>
+      </div>
+
+      {hasClosed ? (
+        <div>
+          <div className="space-y-8">
+            <AbandonmentTable title="Abandonment by Author" label="Author" rates={authorRates} />
+            <AbandonmentTable title="Abandonment by Repository" label="Repository" rates={repoRates} />
+          </div>
+          <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Abandoned PRs were closed without merging in this period; the rate is abandoned / (merged + abandoned).
+          </div>
+        </div>
+      ) : (
+        <div className="text-sm text-gray-500 dark:text-gray-400">
+          Abandonment rates need closed PRs (collect with --include-closed).
+        </div>
+      )}
+    </div>
+  )
+}
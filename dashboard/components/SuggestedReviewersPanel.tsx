@@ -0,0 +1,146 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { MetricsData, ReviewerSuggestions } from '@/types/metrics'
+import { getOpenPRs, formatNumber } from '@/lib/utils'
+
+interface SuggestedReviewersPanelProps {
+  data: MetricsData
+}
+
+const selectClassName = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+const headerClassName = 'px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+const cellClassName = 'px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'
+
+// "Who should review this?": pick an open PR, or a repo and changed paths, and ask /api/reviewers/suggest
+export default function SuggestedReviewersPanel({ data }: SuggestedReviewersPanelProps) {
+  const openPRs = useMemo(() => getOpenPRs(data).map(({ pr }) => pr), [data])
+  const [selectedPR, setSelectedPR] = useState('')
+  const [repo, setRepo] = useState(data.repos[0] ?? '')
+  const [author, setAuthor] = useState('')
+  const [paths, setPaths] = useState('')
+  const [result, setResult] = useState<ReviewerSuggestions | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Fill the form from an open PR (its changed files when collected with per-file data)
+  const selectPR = (key: string) => {
+    setSelectedPR(key)
+    const pr = openPRs.find(open => `${open.repo}#${open.number}` === key)
+    if (!pr) return
+    setRepo(pr.repo)
+    setAuthor(pr.author)
+    setPaths((pr.files ?? []).map(file => file.path).join('\n'))
+  }
+
+  const suggest = () => {
+    const params = new URLSearchParams({
+      repo,
+      paths: paths.split(/[\n,]/).map(path => path.trim()).filter(Boolean).join(','),
+    })
+    if (author) params.set('author', author)
+
+    setLoading(true)
+    setError(null)
+
+    fetch(`/api/reviewers/suggest?${params}`)
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to fetch suggestions')
+        return res.json()
+      })
+      .then((suggestions: ReviewerSuggestions) => {
+        setResult(suggestions)
+        setLoading(false)
+      })
+      .catch(err => {
+        console.error('Failed to fetch suggestions:', err)
+        setError('Failed to load reviewer suggestions')
+        setLoading(false)
+      })
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        {openPRs.length > 0 && (
+          <select className={selectClassName} value={selectedPR} onChange={(e) => selectPR(e.target.value)}>
+            <option value="">Open PR…</option>
+            {openPRs.map(pr => (
+              <option key={`${pr.repo}#${pr.number}`} value={`${pr.repo}#${pr.number}`}>
+                {pr.repo}#{pr.number} {pr.title}
+              </option>
+            ))}
+          </select>
+        )}
+        <select className={selectClassName} value={repo} onChange={(e) => setRepo(e.target.value)}>
+          {data.repos.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <input
+          className={selectClassName}
+          placeholder="Author (optional)"
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+        />
+      </div>
+      <textarea
+        className={`${selectClassName} w-full font-mono text-xs`}
+        rows={4}
+        placeholder="Changed files, one per line (optional)"
+        value={paths}
+        onChange={(e) => setPaths(e.target.value)}
+      />
+      <button
+        className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        onClick={suggest}
+        disabled={!repo || loading}
+      >
+        {loading ? 'Loading…' : 'Suggest Reviewers'}
+      </button>
+
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+
+      {result && !loading && (
+        result.suggestions.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-900">
+                <tr>
+                  <th className={headerClassName}>Reviewer</th>
+                  <th className={headerClassName}>Score</th>
+                  <th className={headerClassName}>Familiarity</th>
+                  <th className={headerClassName}>Open Queue</th>
+                  <th className={headerClassName}>Recent Reviews</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {result.suggestions.map(suggestion => (
+                  <tr key={suggestion.reviewer} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                    <td className={`${cellClassName} font-medium`}>{suggestion.reviewer}</td>
+                    <td className={cellClassName}>{formatNumber(suggestion.score, 2)}</td>
+                    <td className={cellClassName}>{suggestion.familiarity}</td>
+                    <td className={cellClassName}>{suggestion.openQueue}</td>
+                    <td className={cellClassName}>{suggestion.recentReviews}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            Nobody has reviewed or authored changes in these areas in {result.months.join(', ') || 'the available months'}
+          </div>
+        )
+      )}
+
+      {result && (
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          Based on {result.months.join(', ')}. Familiarity counts PRs the person reviewed or authored in the same repo and directories (deeper directories weigh more); the score divides it by current load: open PRs waiting on their review plus recent reviews.
+        </div>
+      )}
+    </div>
+  )
+}
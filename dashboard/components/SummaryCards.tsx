@@ -1,6 +1,6 @@
 'use client'
 
-import { MetricsData } from '@/types/metrics'
+import { MetricsData, LeaderboardEntry } from '@/types/metrics'
 import { 
   findMostActiveDeveloper, 
   findFastestVelocity, 
@@ -8,19 +8,30 @@ import {
   calculateAvgChurnRate,
   findTopQualityScore,
   formatWorkingHours,
-  getTeamSummary
+  getTeamSummary,
+  calculateDelta,
+  average,
+  MIN_SAMPLE_SIZE
 } from '@/lib/utils'
 
 interface SummaryCardsProps {
   data: MetricsData
+  previousData?: MetricsData | null  // Preceding month, for month-over-month deltas
 }
 
-export default function SummaryCards({ data }: SummaryCardsProps) {
+// Sample size and 90% interval line under a developer card winner
+function leaderDetail(entry: LeaderboardEntry | null, label: string): string | undefined {
+  if (!entry) return undefined
+  const interval = entry.interval
+    ? ` · 90% CI ${formatWorkingHours(entry.interval.low)}–${formatWorkingHours(entry.interval.high)}`
+    : ''
+  return `n=${entry.sampleSize} ${label}${interval}`
+}
+
+// Numeric values behind the overview cards, computed the same way for current and previous month
+function computeOverviewMetrics(data: MetricsData) {
   const totalPRs = data.details.length
   const totalReviews = data.summary.reduce((sum, r) => sum + r.totalReviews, 0)
-  const totalAuthors = data.authorSummary.length
-  const totalReviewers = data.summary.length
-  
   const teamSummary = getTeamSummary(data)
   
   const allResponseTimes = data.summary
@@ -28,34 +39,75 @@ export default function SummaryCards({ data }: SummaryCardsProps) {
     .filter((t): t is string => t !== null)
     .map(t => parseFloat(t))
   
-  const avgResponseTime = allResponseTimes.length > 0
-    ? (allResponseTimes.reduce((a, b) => a + b, 0) / allResponseTimes.length).toFixed(1)
-    : 'N/A'
-  
   const totalApprovals = data.summary.reduce((sum, r) => sum + r.approvals, 0)
   const totalNoCommentApprovals = data.summary.reduce((sum, r) => sum + r.noCommentApprovals, 0)
-  const noCommentRate = totalApprovals > 0
-    ? ((totalNoCommentApprovals / totalApprovals) * 100).toFixed(1)
-    : '0'
   
-  // Use team summary for accurate weighted averages (working hours)
-  const avgPrSize = teamSummary.authored.avgPrSize
-  const avgCloseTime = teamSummary.authored.avgCloseTime !== null
-    ? teamSummary.authored.avgCloseTime.toFixed(1)
+  return {
+    totalPRs,
+    totalReviews,
+    totalApprovals,
+    totalNoCommentApprovals,
+    avgResponseTime: average(allResponseTimes),
+    noCommentRate: totalApprovals > 0 ? (totalNoCommentApprovals / totalApprovals) * 100 : 0,
+    // Use team summary for accurate weighted averages (working hours)
+    avgPrSize: teamSummary.authored.avgPrSize,
+    avgCloseTime: teamSummary.authored.avgCloseTime,
+    reviewsPerPr: totalPRs > 0 ? totalReviews / totalPRs : 0,
+    avgChurnRate: calculateAvgChurnRate(data)
+  }
+}
+
+// Render a month-over-month delta; green when the change is an improvement
+function DeltaBadge({ delta, decimals = 1, lowerIsBetter = false, suffix = '' }: {
+  delta: number | null
+  decimals?: number
+  lowerIsBetter?: boolean
+  suffix?: string
+}) {
+  if (delta === null) return null
+  const rounded = parseFloat(delta.toFixed(decimals))
+  if (rounded === 0) {
+    return <span className="ml-2 text-xs font-medium text-gray-400">±0</span>
+  }
+  const improved = lowerIsBetter ? rounded < 0 : rounded > 0
+  return (
+    <span
+      className={`ml-2 text-xs font-medium ${improved ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}
+      title="Change vs previous month"
+    >
+      {rounded > 0 ? '▲' : '▼'} {Math.abs(rounded).toFixed(decimals)}{suffix}
+    </span>
+  )
+}
+
+export default function SummaryCards({ data, previousData }: SummaryCardsProps) {
+  const totalAuthors = data.authorSummary.length
+  const totalReviewers = data.summary.length
+  
+  const current = computeOverviewMetrics(data)
+  const previous = previousData ? computeOverviewMetrics(previousData) : null
+  const delta = (key: keyof ReturnType<typeof computeOverviewMetrics>) =>
+    previous ? calculateDelta(current[key], previous[key]) : null
+  
+  const { totalPRs, totalReviews, totalApprovals, totalNoCommentApprovals, avgPrSize, avgChurnRate } = current
+  const avgResponseTime = current.avgResponseTime !== null ? current.avgResponseTime.toFixed(1) : 'N/A'
+  const noCommentRate = current.noCommentRate.toFixed(1)
+  const avgCloseTime = current.avgCloseTime !== null
+    ? current.avgCloseTime.toFixed(1)
     : 'N/A'
 
   // Developer-centric metrics
   const mostActive = findMostActiveDeveloper(data)
   const fastestVelocity = findFastestVelocity(data)
   const mostResponsive = findMostResponsiveReviewer(data)
-  const avgChurnRate = calculateAvgChurnRate(data)
   const topQuality = findTopQualityScore(data)
 
   const overviewCards = [
     {
       title: 'Total PRs',
       value: totalPRs,
-      subtitle: `${data.repos.length} repositories`
+      subtitle: `${data.repos.length} repositories`,
+      delta: <DeltaBadge delta={delta('totalPRs')} decimals={0} />
     },
     {
       title: 'Contributors',
@@ -65,32 +117,38 @@ export default function SummaryCards({ data }: SummaryCardsProps) {
     {
       title: 'Avg PR Size',
       value: avgPrSize,
-      subtitle: 'lines changed'
+      subtitle: 'lines changed',
+      delta: <DeltaBadge delta={delta('avgPrSize')} decimals={0} lowerIsBetter />
     },
     {
       title: 'Avg Time to Merge',
       value: avgCloseTime === 'N/A' ? 'N/A' : `${avgCloseTime}h`,
-      subtitle: 'working hours to merge'
+      subtitle: 'working hours to merge',
+      delta: <DeltaBadge delta={delta('avgCloseTime')} lowerIsBetter suffix="h" />
     },
     {
       title: 'Total Reviews',
       value: totalReviews,
-      subtitle: `${data.summary.length} reviewers`
+      subtitle: `${data.summary.length} reviewers`,
+      delta: <DeltaBadge delta={delta('totalReviews')} decimals={0} />
     },
     {
       title: 'Avg Response Time',
       value: avgResponseTime === 'N/A' ? 'N/A' : `${avgResponseTime}h`,
-      subtitle: 'median across reviewers'
+      subtitle: 'median across reviewers',
+      delta: <DeltaBadge delta={delta('avgResponseTime')} lowerIsBetter suffix="h" />
     },
     {
       title: 'No-Comment Approvals',
       value: `${noCommentRate}%`,
-      subtitle: `${totalNoCommentApprovals} of ${totalApprovals} approvals`
+      subtitle: `${totalNoCommentApprovals} of ${totalApprovals} approvals`,
+      delta: <DeltaBadge delta={delta('noCommentRate')} lowerIsBetter suffix="%" />
     },
     {
       title: 'Avg Reviews per PR',
-      value: totalPRs > 0 ? (totalReviews / totalPRs).toFixed(1) : '0',
-      subtitle: 'reviews given per PR'
+      value: totalPRs > 0 ? current.reviewsPerPr.toFixed(1) : '0',
+      subtitle: 'reviews given per PR',
+      delta: <DeltaBadge delta={delta('reviewsPerPr')} />
     }
   ]
 
@@ -104,25 +162,32 @@ export default function SummaryCards({ data }: SummaryCardsProps) {
     {
       title: 'Fastest PR Velocity',
       value: fastestVelocity?.name ?? 'N/A',
-      subtitle: fastestVelocity ? formatWorkingHours(fastestVelocity.hours) : 'No data',
+      subtitle: fastestVelocity ? formatWorkingHours(fastestVelocity.value) : 'No data',
+      detail: leaderDetail(fastestVelocity, 'PRs'),
+      smallSample: fastestVelocity?.smallSample,
       highlight: true
     },
     {
       title: 'Most Responsive',
       value: mostResponsive?.name ?? 'N/A',
-      subtitle: mostResponsive ? formatWorkingHours(mostResponsive.hours) : 'No data',
+      subtitle: mostResponsive ? formatWorkingHours(mostResponsive.value) : 'No data',
+      detail: leaderDetail(mostResponsive, 'reviews'),
+      smallSample: mostResponsive?.smallSample,
       highlight: true
     },
     {
       title: 'Avg Churn Rate',
       value: `${avgChurnRate.toFixed(1)}%`,
       subtitle: 'code re-work across PRs',
-      highlight: true
+      highlight: true,
+      delta: <DeltaBadge delta={delta('avgChurnRate')} lowerIsBetter suffix="%" />
     },
     {
       title: 'Top Quality Score',
       value: topQuality?.name ?? 'N/A',
-      subtitle: topQuality ? `Score: ${topQuality.score}/100` : 'No data',
+      subtitle: topQuality ? `Score: ${topQuality.value}/100` : 'No data',
+      detail: leaderDetail(topQuality, 'PRs'),
+      smallSample: topQuality?.smallSample,
       highlight: true
     }
   ]
@@ -141,6 +206,7 @@ export default function SummaryCards({ data }: SummaryCardsProps) {
             </h3>
             <div className="text-3xl font-bold text-gray-900 dark:text-white mb-1">
               {card.value}
+              {card.delta}
             </div>
             <p className="text-xs text-gray-500 dark:text-gray-500">
               {card.subtitle}
@@ -161,10 +227,24 @@ export default function SummaryCards({ data }: SummaryCardsProps) {
             </h3>
             <div className="text-lg font-bold text-blue-900 dark:text-blue-100 mb-0.5 truncate" title={String(card.value)}>
               {card.value}
+              {card.delta}
             </div>
             <p className="text-xs text-blue-600 dark:text-blue-400">
               {card.subtitle}
             </p>
+            {card.detail && (
+              <p className="text-[11px] text-blue-500/80 dark:text-blue-400/70 mt-0.5">
+                {card.detail}
+              </p>
+            )}
+            {card.smallSample && (
+              <p
+                className="text-[11px] text-amber-600 dark:text-amber-400 mt-0.5"
+                title={`Nobody had ${MIN_SAMPLE_SIZE}+ this period; picked among developers with at least 2`}
+              >
+                ⚠ small sample
+              </p>
+            )}
           </div>
         ))}
       </div>
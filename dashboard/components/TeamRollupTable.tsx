@@ -0,0 +1,62 @@
+'use client'
+
+import { useMemo } from 'react'
+import { MetricsData } from '@/types/metrics'
+import { computeTeamRollups, formatWorkingHours, formatPercent } from '@/lib/utils'
+
+interface TeamRollupTableProps {
+  data: MetricsData
+}
+
+export default function TeamRollupTable({ data }: TeamRollupTableProps) {
+  const rollups = useMemo(
+    () => computeTeamRollups(data).sort((a, b) => a.team.localeCompare(b.team)),
+    [data]
+  )
+
+  if (rollups.length === 0) return null
+
+  const headerClassName = 'px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+  const cellClassName = 'px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'
+
+  return (
+    <div>
+      <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+        Teams
+      </h2>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                <th className={headerClassName}>Team</th>
+                <th className={headerClassName}>Members</th>
+                <th className={headerClassName}>PRs Authored</th>
+                <th className={headerClassName}>Avg Close Time</th>
+                <th className={headerClassName}>Reviews</th>
+                <th className={headerClassName}>Median Response</th>
+                <th className={headerClassName}>No-Comment Approvals</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {rollups.map(rollup => (
+                <tr key={rollup.team} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className={`${cellClassName} font-medium`}>{rollup.team}</td>
+                  <td className={cellClassName}>{rollup.members}</td>
+                  <td className={cellClassName}>{rollup.prsAuthored}</td>
+                  <td className={cellClassName}>{formatWorkingHours(rollup.avgCloseTime)}</td>
+                  <td className={cellClassName}>{rollup.totalReviews}</td>
+                  <td className={cellClassName}>{formatWorkingHours(rollup.medianResponseHours)}</td>
+                  <td className={cellClassName}>{formatPercent(rollup.noCommentApprovalPct)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        A developer in several teams counts toward each of them.
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,433 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { TrendsData, DbTrendsData, DbTrendGranularity, DbDeveloperStats } from '@/types/metrics'
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { getDefaultRangeStart, getMonthEnd, formatNumber, formatWorkingHours } from '@/lib/utils'
+
+interface TrendsTabProps {
+  months: string[]           // Available months, most recent first
+  selectedMonth: string | null
+}
+
+// Trend series across a range of months
+// Monthly series come from the monthly JSON files (/api/trends); with the SQLite store configured,
+// weekly series and the per-developer range totals are aggregated in SQL (/api/db/*)
+export default function TrendsTab({ months, selectedMonth }: TrendsTabProps) {
+  const sortedMonths = useMemo(() => [...months].sort(), [months])
+  const [to, setTo] = useState<string>(() => selectedMonth ?? sortedMonths[sortedMonths.length - 1] ?? '')
+  // Six months ending at the selected one
+  const [from, setFrom] = useState<string>(() => getDefaultRangeStart(sortedMonths, to, 6))
+  const [granularity, setGranularity] = useState<DbTrendGranularity>('month')
+  const [trends, setTrends] = useState<TrendsData | null>(null)
+  const [weekly, setWeekly] = useState<DbTrendsData | null>(null)
+  const [weeklyDeveloper, setWeeklyDeveloper] = useState<DbTrendsData | null>(null)
+  const [rangeStats, setRangeStats] = useState<DbDeveloperStats | null>(null)  // null without a SQLite store
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedDeveloper, setSelectedDeveloper] = useState<string>('')
+
+  // Inclusive date window of the month range, for the SQL routes
+  const since = from ? `${from}-01` : ''
+  const until = to ? getMonthEnd(to) : ''
+
+  // Per-developer totals for the range from the SQLite store; a 404 means no store is configured
+  useEffect(() => {
+    if (!since || !until) return
+
+    let cancelled = false
+    fetch(`/api/db/developers?since=${since}&until=${until}`)
+      .then(res => {
+        if (res.status === 404) return null
+        if (!res.ok) throw new Error('Failed to fetch developer stats')
+        return res.json()
+      })
+      .then((data: DbDeveloperStats | null) => {
+        if (cancelled) return
+        setRangeStats(data)
+        if (!data) setGranularity('month')
+      })
+      .catch(err => {
+        console.error('Failed to fetch developer stats:', err)
+        if (!cancelled) setRangeStats(null)
+      })
+    return () => { cancelled = true }
+  }, [since, until])
+
+  // Fetch trend series when the range or granularity changes
+  useEffect(() => {
+    if (!from || !to) return
+
+    setLoading(true)
+    setError(null)
+
+    // A response for a range or granularity that is no longer selected is ignored
+    let cancelled = false
+    const request = granularity === 'week'
+      ? fetch(`/api/db/trends?since=${since}&until=${until}&granularity=week`)
+      : fetch(`/api/trends?from=${from}&to=${to}`)
+
+    request
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to fetch trends')
+        return res.json()
+      })
+      .then((data: TrendsData | DbTrendsData) => {
+        if (cancelled) return
+        if (granularity === 'week') {
+          setWeekly(data as DbTrendsData)
+        } else {
+          setTrends(data as TrendsData)
+        }
+        setLoading(false)
+      })
+      .catch(err => {
+        console.error('Failed to fetch trends:', err)
+        if (cancelled) return
+        setError('Failed to load trend data for this range')
+        setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [from, to, since, until, granularity])
+
+  // Weekly series of the selected developer
+  useEffect(() => {
+    if (granularity !== 'week' || !selectedDeveloper) return
+
+    let cancelled = false
+    fetch(`/api/db/trends?since=${since}&until=${until}&granularity=week&developer=${encodeURIComponent(selectedDeveloper)}`)
+      .then(res => {
+        if (!res.ok) throw new Error('Failed to fetch developer trends')
+        return res.json()
+      })
+      .then((data: DbTrendsData) => {
+        if (!cancelled) setWeeklyDeveloper(data)
+      })
+      .catch(err => {
+        console.error('Failed to fetch developer trends:', err)
+        if (!cancelled) setWeeklyDeveloper(null)
+      })
+    return () => { cancelled = true }
+  }, [granularity, since, until, selectedDeveloper])
+
+  const developers = useMemo(() => {
+    const names = granularity === 'week'
+      ? [...(rangeStats?.authors ?? []).map(row => row.author), ...(rangeStats?.reviewers ?? []).map(row => row.reviewer)]
+      : Object.keys(trends?.developers ?? {})
+    return Array.from(new Set(names)).sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+  }, [granularity, trends, rangeStats])
+
+  // Default to the first developer once trend data is available
+  useEffect(() => {
+    if (developers.length > 0 && !developers.includes(selectedDeveloper)) {
+      setSelectedDeveloper(developers[0])
+    }
+  }, [developers, selectedDeveloper])
+
+  // Periods on the x axis: months, or weeks from the store
+  const periods = granularity === 'week'
+    ? weekly?.points.map(point => point.period)
+    : trends?.months
+
+  const timeSeries = useMemo(() => granularity === 'week'
+    ? (weekly?.points ?? []).map(point => ({
+      month: point.period,
+      avgCloseTime: point.avgCloseTime,
+      medianResponseTime: point.medianResponseTime
+    }))
+    : (trends?.team ?? []).map(point => ({
+      month: point.month,
+      avgCloseTime: point.authored.avgCloseTime,
+      medianResponseTime: point.reviewed.medianResponseTime
+    })), [granularity, trends, weekly])
+
+  const qualitySeries = useMemo(() => granularity === 'week'
+    ? (weekly?.points ?? []).map(point => ({
+      month: point.period,
+      noCommentPct: point.noCommentApprovalPct,
+      churnPct: point.avgChurnPct
+    }))
+    : (trends?.team ?? []).map(point => ({
+      month: point.month,
+      noCommentPct: point.reviewed.overallNoCommentPct,
+      churnPct: point.authored.avgChurnPct
+    })), [granularity, trends, weekly])
+
+  const volumeSeries = useMemo(() => granularity === 'week'
+    ? (weekly?.points ?? []).map(point => ({
+      month: point.period,
+      totalPRs: point.totalPRs,
+      totalReviews: point.totalReviews
+    }))
+    : (trends?.team ?? []).map(point => ({
+      month: point.month,
+      totalPRs: point.authored.totalPRs,
+      totalReviews: point.reviewed.totalReviews
+    })), [granularity, trends, weekly])
+
+  // Fill periods where the developer had no activity so lines stay aligned
+  const developerSeries = useMemo(() => {
+    if (!periods || !selectedDeveloper) return []
+    return periods.map(period => {
+      if (granularity === 'week') {
+        const point = weeklyDeveloper?.developer === selectedDeveloper
+          ? weeklyDeveloper.points.find(p => p.period === period)
+          : undefined
+        return {
+          month: period,
+          prsAuthored: point?.totalPRs ?? 0,
+          totalReviews: point?.totalReviews ?? 0,
+          avgCloseTime: point?.avgCloseTime ?? null,
+          medianResponseHours: point?.medianResponseTime ?? null
+        }
+      }
+      const point = trends?.developers[selectedDeveloper]?.find(p => p.month === period)
+      return {
+        month: period,
+        prsAuthored: point?.prsAuthored ?? 0,
+        totalReviews: point?.totalReviews ?? 0,
+        avgCloseTime: point?.avgCloseTime ?? null,
+        medianResponseHours: point?.medianResponseHours ?? null
+      }
+    })
+  }, [periods, granularity, trends, weeklyDeveloper, selectedDeveloper])
+
+  // One row per developer with their totals over the whole range (SQLite store only)
+  const rangeRows = useMemo(() => {
+    if (!rangeStats) return []
+    const rows = new Map<string, { developer: string; prsAuthored: number; avgCloseTime: number | null; totalReviews: number; medianResponseHours: number | null; noCommentApprovalPct: number | null }>()
+    const row = (developer: string) => {
+      if (!rows.has(developer)) {
+        rows.set(developer, { developer, prsAuthored: 0, avgCloseTime: null, totalReviews: 0, medianResponseHours: null, noCommentApprovalPct: null })
+      }
+      return rows.get(developer)!
+    }
+    for (const author of rangeStats.authors) {
+      Object.assign(row(author.author), { prsAuthored: author.prsAuthored, avgCloseTime: author.avgCloseTime })
+    }
+    for (const reviewer of rangeStats.reviewers) {
+      Object.assign(row(reviewer.reviewer), {
+        totalReviews: reviewer.totalReviews,
+        medianResponseHours: reviewer.medianResponseHours,
+        noCommentApprovalPct: reviewer.approvals > 0 ? reviewer.noCommentApprovalPct : null
+      })
+    }
+    return Array.from(rows.values()).sort((a, b) => (b.prsAuthored + b.totalReviews) - (a.prsAuthored + a.totalReviews))
+  }, [rangeStats])
+
+  const headerClassName = 'px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+  const cellClassName = 'px-3 py-3 whitespace-nowrap text-sm text-gray-900 dark:text-gray-100'
+  const selectClassName = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="space-y-8">
+      {/* Range selection */}
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div>
+          <label htmlFor="trends-from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            From
+          </label>
+          <select id="trends-from" className={selectClassName} value={from} onChange={(e) => setFrom(e.target.value)}>
+            {sortedMonths.filter(m => !to || m <= to).map(month => (
+              <option key={month} value={month}>{month}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="trends-to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            To
+          </label>
+          <select id="trends-to" className={selectClassName} value={to} onChange={(e) => setTo(e.target.value)}>
+            {sortedMonths.filter(m => !from || m >= from).map(month => (
+              <option key={month} value={month}>{month}</option>
+            ))}
+          </select>
+        </div>
+        {rangeStats && (
+          <div>
+            <label htmlFor="trends-granularity" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Granularity
+            </label>
+            <select
+              id="trends-granularity"
+              className={selectClassName}
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as DbTrendGranularity)}
+            >
+              <option value="month">Monthly</option>
+              <option value="week">Weekly (SQLite)</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+
+      {!loading && !error && periods && periods.length === 0 && (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          No data available for the selected range.
+        </div>
+      )}
+
+      {!loading && !error && periods && periods.length > 0 && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div>
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Review Speed
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={timeSeries}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis label={{ value: 'Working Hours', angle: -90, position: 'insideLeft' }} />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="avgCloseTime" stroke="#f59e0b" name="Avg Time to Merge" connectNulls />
+                    <Line type="monotone" dataKey="medianResponseTime" stroke="#8b5cf6" name="Median Response Time" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            <div>
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Review Quality
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={qualitySeries}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis label={{ value: 'Percent', angle: -90, position: 'insideLeft' }} />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="noCommentPct" stroke="#ef4444" name="No-Comment Approvals %" />
+                    <Line type="monotone" dataKey="churnPct" stroke="#14b8a6" name="Avg Churn %" />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+              Volume
+            </h2>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={volumeSeries}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="totalPRs" fill="#3b82f6" name="PRs Merged" />
+                  <Bar dataKey="totalReviews" fill="#10b981" name="Reviews" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-4">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Developer Trends
+              </h2>
+              <select
+                className={selectClassName}
+                value={selectedDeveloper}
+                onChange={(e) => setSelectedDeveloper(e.target.value)}
+              >
+                {developers.map(dev => (
+                  <option key={dev} value={dev}>{dev}</option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+                <ResponsiveContainer width="100%" height={300}>
+                  <LineChart data={developerSeries}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis label={{ value: 'Working Hours', angle: -90, position: 'insideLeft' }} />
+                    <Tooltip />
+                    <Legend />
+                    <Line type="monotone" dataKey="avgCloseTime" stroke="#f59e0b" name="Avg Time to Merge" connectNulls />
+                    <Line type="monotone" dataKey="medianResponseHours" stroke="#8b5cf6" name="Median Response Time" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 border border-gray-200 dark:border-gray-700">
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={developerSeries}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="month" />
+                    <YAxis />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="prsAuthored" fill="#3b82f6" name="PRs Authored" />
+                    <Bar dataKey="totalReviews" fill="#10b981" name="Reviews Given" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {rangeRows.length > 0 && (
+            <div>
+              <h2 className="text-xl font-bold mb-4 text-gray-900 dark:text-white">
+                Developers in {from === to ? from : `${from} – ${to}`}
+              </h2>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      <th className={headerClassName}>Developer</th>
+                      <th className={headerClassName}>PRs Authored</th>
+                      <th className={headerClassName}>Avg Time to Merge</th>
+                      <th className={headerClassName}>Reviews</th>
+                      <th className={headerClassName}>Median Response</th>
+                      <th className={headerClassName}>No-Comment Approvals</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                    {rangeRows.map(row => (
+                      <tr key={row.developer}>
+                        <td className={`${cellClassName} font-medium`}>{row.developer}</td>
+                        <td className={cellClassName}>{row.prsAuthored}</td>
+                        <td className={cellClassName}>{row.avgCloseTime !== null ? formatWorkingHours(row.avgCloseTime) : '-'}</td>
+                        <td className={cellClassName}>{row.totalReviews}</td>
+                        <td className={cellClassName}>{row.medianResponseHours !== null ? formatWorkingHours(row.medianResponseHours) : '-'}</td>
+                        <td className={cellClassName}>{row.noCommentApprovalPct !== null ? `${formatNumber(row.noCommentApprovalPct, 1)}%` : '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {granularity === 'week'
+              ? 'Weekly series are aggregated from the SQLite store by merge week (UTC). '
+              : 'Monthly series are computed from each month\'s collected data. '}
+            {rangeRows.length > 0 && 'Developer totals for the range come from the SQLite store. '}
+            Bot-authored PRs and bot reviews are left out, and developer and PR exclusions do not apply.
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+// Force-directed graph layout (Fruchterman-Reingold), small enough for a team's review network
+// Deterministic: nodes start on a circle, so the same graph always gets the same picture
+
+const GRAVITY = 0.2
+
+export interface LayoutEdge {
+  source: string
+  target: string
+  weight: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Positions within [margin, width - margin] x [margin, height - margin]
+// Heavier edges pull their nodes closer; every pair of nodes pushes apart
+export function forceLayout(
+  ids: string[],
+  edges: LayoutEdge[],
+  width: number,
+  height: number,
+  { iterations = 300, margin = 40 }: { iterations?: number; margin?: number } = {}
+): Map<string, Point> {
+  const positions = new Map<string, Point>()
+  const radius = Math.min(width, height) / 2 - margin
+  ids.forEach((id, i) => {
+    const angle = (2 * Math.PI * i) / ids.length
+    positions.set(id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) })
+  })
+  if (ids.length < 2) return positions
+
+  const k = Math.sqrt(((width - 2 * margin) * (height - 2 * margin)) / ids.length)  // Ideal edge length
+  const maxWeight = Math.max(1, ...edges.map(edge => edge.weight))
+  let temperature = width / 10
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const shifts = new Map<string, Point>(ids.map(id => [id, { x: 0, y: 0 }]))
+
+    // Repulsion between every pair
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = positions.get(ids[i])!
+        const b = positions.get(ids[j])!
+        const dx = a.x - b.x
+        const dy = a.y - b.y
+        const distance = Math.max(0.01, Math.hypot(dx, dy))
+        const force = (k * k) / distance
+        shifts.get(ids[i])!.x += (dx / distance) * force
+        shifts.get(ids[i])!.y += (dy / distance) * force
+        shifts.get(ids[j])!.x -= (dx / distance) * force
+        shifts.get(ids[j])!.y -= (dy / distance) * force
+      }
+    }
+
+    // Attraction along edges, scaled by weight
+    for (const edge of edges) {
+      const a = positions.get(edge.source)
+      const b = positions.get(edge.target)
+      if (!a || !b || edge.source === edge.target) continue
+      const dx = a.x - b.x
+      const dy = a.y - b.y
+      const distance = Math.max(0.01, Math.hypot(dx, dy))
+      const force = ((distance * distance) / k) * (0.5 + edge.weight / maxWeight)
+      shifts.get(edge.source)!.x -= (dx / distance) * force
+      shifts.get(edge.source)!.y -= (dy / distance) * force
+      shifts.get(edge.target)!.x += (dx / distance) * force
+      shifts.get(edge.target)!.y += (dy / distance) * force
+    }
+
+    // Pull towards the center, growing with the node count like the total repulsion does,
+    // so unconnected nodes stay near the rest instead of drifting off
+    for (const id of ids) {
+      const position = positions.get(id)!
+      shifts.get(id)!.x += (width / 2 - position.x) * GRAVITY * ids.length
+      shifts.get(id)!.y += (height / 2 - position.y) * GRAVITY * ids.length
+    }
+
+    // Move each node by at most the temperature, then cool down
+    for (const id of ids) {
+      const position = positions.get(id)!
+      const shift = shifts.get(id)!
+      const length = Math.max(0.01, Math.hypot(shift.x, shift.y))
+      const step = Math.min(length, temperature)
+      position.x += (shift.x / length) * step
+      position.y += (shift.y / length) * step
+    }
+    temperature *= 0.98
+  }
+
+  // Scale the result to fill the frame
+  const xs = Array.from(positions.values(), position => position.x)
+  const ys = Array.from(positions.values(), position => position.y)
+  const fit = (value: number, min: number, max: number, size: number) =>
+    max - min < 1 ? size / 2 : margin + ((value - min) / (max - min)) * (size - 2 * margin)
+  for (const position of positions.values()) {
+    position.x = fit(position.x, Math.min(...xs), Math.max(...xs), width)
+    position.y = fit(position.y, Math.min(...ys), Math.max(...ys), height)
+  }
+
+  return positions
+}
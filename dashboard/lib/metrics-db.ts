@@ -0,0 +1,199 @@
+import Database from 'better-sqlite3'
+import { percentile } from '@shared/metrics-engine'
+import {
+  DbAuthorStats,
+  DbReviewerStats,
+  DbDeveloperStats,
+  DbTrendGranularity,
+  DbTrendPoint,
+  DbTrendsData,
+} from '@/types/metrics'
+
+// Read-only access to the collector's optional SQLite store (SQLITE_PATH)
+// Schema is created by scripts/sqlite-store.js
+
+let db: Database.Database | null | undefined
+
+// Open the store once per server process; null when SQLITE_PATH is not set
+export function getMetricsDb(): Database.Database | null {
+  if (db === undefined) {
+    const path = process.env.SQLITE_PATH
+    db = path ? new Database(path, { readonly: true, fileMustExist: true }) : null
+  }
+  return db
+}
+
+// Convert an inclusive local-date window to [since, until) ISO bounds
+function toBounds(since: string, until: string): { since: string; until: string } {
+  const end = new Date(`${until}T00:00:00`)
+  end.setDate(end.getDate() + 1)
+  return {
+    since: new Date(`${since}T00:00:00`).toISOString(),
+    until: end.toISOString(),
+  }
+}
+
+const round = (value: number | null, decimals: number = 2): number | null =>
+  value === null ? null : parseFloat(value.toFixed(decimals))
+
+// Group (key, value) rows into value lists per key
+function groupValues(rows: { key: string; value: number }[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>()
+  for (const row of rows) {
+    if (!groups.has(row.key)) groups.set(row.key, [])
+    groups.get(row.key)!.push(row.value)
+  }
+  return groups
+}
+
+// Per-author and per-reviewer aggregates for PRs merged in the window
+// Bot-authored PRs and bot reviews are left out, as in the dashboard and queryTrends
+export function queryDeveloperStats(
+  db: Database.Database,
+  options: { since: string; until: string; repo: string | null }
+): DbDeveloperStats {
+  const params = { ...toBounds(options.since, options.until), repo: options.repo }
+  const prFilter = 'p.merged_at >= @since AND p.merged_at < @until AND p.author_is_bot = 0 AND (@repo IS NULL OR p.repo = @repo)'
+
+  const authorRows = db.prepare(`
+    SELECT p.author,
+      COUNT(*) AS prsAuthored,
+      AVG(p.total_additions + p.total_deletions) AS avgPrSize,
+      AVG(p.prod_additions + p.prod_deletions) AS avgProdLines,
+      AVG(p.test_additions + p.test_deletions) AS avgTestLines,
+      AVG(p.close_hours) AS avgCloseTime,
+      AVG(p.review_hours) AS avgReviewTime,
+      AVG(p.iteration_count) AS avgIterations,
+      AVG(p.commit_count) AS avgCommits,
+      AVG(p.churn_percentage) AS avgChurnPct
+    FROM pull_requests p
+    WHERE ${prFilter}
+    GROUP BY p.author
+    ORDER BY prsAuthored DESC
+  `).all(params) as DbAuthorStats[]
+
+  const reviewerRows = db.prepare(`
+    SELECT r.reviewer,
+      COUNT(*) AS totalReviews,
+      COUNT(DISTINCT r.pr_id) AS prsReviewed,
+      SUM(r.state = 'APPROVED') AS approvals,
+      SUM(r.state = 'CHANGES_REQUESTED') AS changesRequested,
+      SUM(r.state = 'APPROVED' AND r.has_comments = 0) AS noCommentApprovals,
+      SUM(r.inline_comment_count) AS totalInlineComments,
+      SUM(r.conversation_comment_count) AS totalConversationComments
+    FROM reviews r
+    JOIN pull_requests p ON p.id = r.pr_id
+    WHERE ${prFilter} AND r.is_bot = 0
+    GROUP BY r.reviewer
+    ORDER BY totalReviews DESC
+  `).all(params) as Omit<DbReviewerStats, 'noCommentApprovalPct' | 'medianResponseHours' | 'p90ResponseHours'>[]
+
+  // SQLite has no percentile functions; response times are ranked here
+  const responseTimes = groupValues(db.prepare(`
+    SELECT r.reviewer AS key, r.response_hours AS value
+    FROM reviews r
+    JOIN pull_requests p ON p.id = r.pr_id
+    WHERE ${prFilter} AND r.is_bot = 0 AND r.response_hours IS NOT NULL
+  `).all(params) as { key: string; value: number }[])
+
+  return {
+    since: options.since,
+    until: options.until,
+    repo: options.repo,
+    authors: authorRows.map(row => ({
+      ...row,
+      avgPrSize: Math.round(row.avgPrSize),
+      avgProdLines: Math.round(row.avgProdLines),
+      avgTestLines: Math.round(row.avgTestLines),
+      avgCloseTime: round(row.avgCloseTime),
+      avgReviewTime: round(row.avgReviewTime),
+      avgIterations: round(row.avgIterations)!,
+      avgCommits: round(row.avgCommits)!,
+      avgChurnPct: round(row.avgChurnPct, 1)!,
+    })),
+    reviewers: reviewerRows.map(row => {
+      const times = responseTimes.get(row.reviewer) ?? []
+      return {
+        ...row,
+        noCommentApprovalPct: row.approvals > 0
+          ? round(row.noCommentApprovals / row.approvals * 100, 1)!
+          : 0,
+        medianResponseHours: round(percentile(times, 0.5)),
+        p90ResponseHours: round(percentile(times, 0.9)),
+      }
+    }),
+  }
+}
+
+// SQL expressions bucketing a merged_at timestamp
+const BUCKETS: Record<DbTrendGranularity, string> = {
+  month: "substr(p.merged_at, 1, 7)",
+  week: "strftime('%Y-W%W', p.merged_at)",
+}
+
+// Team (or single-developer) series bucketed by merge month or week
+// Team response time is ready for review to first response; a developer's is review request to their first activity
+export function queryTrends(
+  db: Database.Database,
+  options: { since: string; until: string; granularity: DbTrendGranularity; developer: string | null }
+): DbTrendsData {
+  const params = { ...toBounds(options.since, options.until), developer: options.developer }
+  const bucket = BUCKETS[options.granularity]
+  const windowFilter = 'p.merged_at >= @since AND p.merged_at < @until'
+
+  const authored = db.prepare(`
+    SELECT ${bucket} AS period,
+      COUNT(*) AS totalPRs,
+      AVG(p.total_additions + p.total_deletions) AS avgPrSize,
+      AVG(p.close_hours) AS avgCloseTime,
+      AVG(p.churn_percentage) AS avgChurnPct
+    FROM pull_requests p
+    WHERE ${windowFilter} AND p.author_is_bot = 0 AND (@developer IS NULL OR p.author = @developer)
+    GROUP BY period
+  `).all(params) as { period: string; totalPRs: number; avgPrSize: number; avgCloseTime: number; avgChurnPct: number }[]
+
+  const reviewed = db.prepare(`
+    SELECT ${bucket} AS period,
+      COUNT(*) AS totalReviews,
+      SUM(r.state = 'APPROVED') AS approvals,
+      SUM(r.state = 'APPROVED' AND r.has_comments = 0) AS noCommentApprovals
+    FROM reviews r
+    JOIN pull_requests p ON p.id = r.pr_id
+    WHERE ${windowFilter} AND p.author_is_bot = 0 AND r.is_bot = 0 AND (@developer IS NULL OR r.reviewer = @developer)
+    GROUP BY period
+  `).all(params) as { period: string; totalReviews: number; approvals: number; noCommentApprovals: number }[]
+
+  const responseTimes = groupValues(db.prepare(options.developer
+    ? `SELECT ${bucket} AS key, r.response_hours AS value
+       FROM reviews r
+       JOIN pull_requests p ON p.id = r.pr_id
+       WHERE ${windowFilter} AND p.author_is_bot = 0 AND r.reviewer = @developer AND r.response_hours IS NOT NULL`
+    : `SELECT ${bucket} AS key, p.review_hours AS value
+       FROM pull_requests p
+       WHERE ${windowFilter} AND p.author_is_bot = 0 AND p.review_hours IS NOT NULL`
+  ).all(params) as { key: string; value: number }[])
+
+  const periods = Array.from(new Set([...authored, ...reviewed].map(row => row.period))).sort()
+  const points: DbTrendPoint[] = periods.map(period => {
+    const a = authored.find(row => row.period === period)
+    const r = reviewed.find(row => row.period === period)
+    return {
+      period,
+      totalPRs: a?.totalPRs ?? 0,
+      avgPrSize: a ? Math.round(a.avgPrSize) : null,
+      avgCloseTime: a ? round(a.avgCloseTime) : null,
+      avgChurnPct: a ? round(a.avgChurnPct, 1) : null,
+      totalReviews: r?.totalReviews ?? 0,
+      medianResponseTime: round(percentile(responseTimes.get(period) ?? [], 0.5)),
+      noCommentApprovalPct: r && r.approvals > 0 ? round(r.noCommentApprovals / r.approvals * 100, 1) : null,
+    }
+  })
+
+  return {
+    since: options.since,
+    until: options.until,
+    granularity: options.granularity,
+    developer: options.developer,
+    points,
+  }
+}
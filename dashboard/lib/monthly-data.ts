@@ -0,0 +1,49 @@
+import { getStorage } from '@/lib/storage'
+import { MetricsData } from '@/types/metrics'
+import { excludeBotActivity } from '@/lib/utils'
+
+// Monthly metrics files (pr-reviews-YYYY-MM.json) for the API routes that span several months
+// Bot activity is excluded on load, as the dashboard does for a single month
+
+const MONTHLY_FILE = /^pr-reviews-(\d{4}-\d{2})\.json$/
+const MONTH = /^\d{4}-\d{2}$/
+
+// Months that have a monthly file, oldest first
+export async function listMonths(): Promise<string[]> {
+  const files = await getStorage().listFiles()
+  return files
+    .map(file => MONTHLY_FILE.exec(file)?.[1])
+    .filter((month): month is string => month !== undefined)
+    .sort()
+}
+
+// Monthly data for the given months, in the same order
+export async function loadMonths(months: string[]): Promise<MetricsData[]> {
+  const storage = getStorage()
+  const monthlyData: MetricsData[] = []
+  for (const month of months) {
+    const data = await storage.readFile(`pr-reviews-${month}.json`)
+    monthlyData.push(excludeBotActivity(JSON.parse(data)))
+  }
+  return monthlyData
+}
+
+// from/to query parameters as an inclusive month range, or the message for a 400 response
+export function parseMonthRange(params: URLSearchParams): { from: string; to: string } | { error: string } {
+  const from = params.get('from')
+  const to = params.get('to')
+
+  if (!from || !to || !MONTH.test(from) || !MONTH.test(to)) {
+    return { error: 'Invalid range. Use from=YYYY-MM&to=YYYY-MM' }
+  }
+  if (from > to) {
+    return { error: 'Invalid range. from must not be after to' }
+  }
+  return { from, to }
+}
+
+// Monthly data for every month in [from, to] that has a file, oldest first
+export async function loadMonthRange(from: string, to: string): Promise<MetricsData[]> {
+  const months = await listMonths()
+  return loadMonths(months.filter(month => month >= from && month <= to))
+}
@@ -0,0 +1,126 @@
+import { MetricsData, PRDetail, ReviewerLoad, SuggestedReviewer, ReviewConcentration, ReviewerSummary } from '@/types/metrics'
+import { gini } from '@shared/metrics-engine'
+import { getPRKey } from '@shared/pr-key'
+
+// Reviewer load balancing: who knows the areas a PR changes and who has room to review it
+// Built from recent monthly files; bot activity is expected to be excluded already
+
+// Reviews submitted within this many days before the latest collection count as recent
+export const RECENT_DAYS = 14
+
+// Directory depth used for familiarity areas (repo/a, repo/a/b, repo/a/b/c)
+const AREA_DEPTH = 3
+
+// Recent reviews weigh this much less than a PR waiting in the queue
+const RECENT_REVIEWS_PER_QUEUED_PR = 5
+
+// Areas of a PR: the repo plus each changed file's directories down to AREA_DEPTH
+// Files collected before per-file data give the repo only
+function getAreas(repo: string, paths: string[]): Map<string, number> {
+  const areas = new Map<string, number>([[repo, 0]])  // Area -> depth
+  for (const path of paths) {
+    const directories = path.split('/').slice(0, -1)
+    for (let depth = 1; depth <= Math.min(AREA_DEPTH, directories.length); depth++) {
+      areas.set(`${repo}/${directories.slice(0, depth).join('/')}`, depth)
+    }
+  }
+  return areas
+}
+
+function getPaths(pr: PRDetail): string[] {
+  return (pr.files ?? []).map(file => file.path)
+}
+
+// Per-person load and area familiarity
+// history: monthly files, oldest first; the open queue and the recent window come from the last one
+// Familiarity counts the merged PRs a person reviewed or authored in each area
+export function buildReviewerLoad(history: MetricsData[]): ReviewerLoad[] {
+  const people = new Map<string, ReviewerLoad>()
+  const entry = (reviewer: string) => {
+    if (!people.has(reviewer)) people.set(reviewer, { reviewer, openQueue: 0, recentReviews: 0, familiarity: {} })
+    return people.get(reviewer)!
+  }
+
+  const latest = history[history.length - 1]
+  const recentSince = latest
+    ? new Date(new Date(latest.generatedAt).getTime() - RECENT_DAYS * 24 * 3600 * 1000).toISOString()
+    : ''
+
+  const seen = new Set<string>()
+  for (const data of history) {
+    for (const pr of data.details) {
+      // A PR is in one monthly file, but guard against overlapping files
+      if (seen.has(getPRKey(pr))) continue
+      seen.add(getPRKey(pr))
+
+      const areas = Array.from(getAreas(pr.repo, getPaths(pr)).keys())
+      const participants = new Set([pr.author, ...pr.reviews.map(review => review.reviewer)])
+      for (const person of participants) {
+        const familiarity = entry(person).familiarity
+        for (const area of areas) familiarity[area] = (familiarity[area] ?? 0) + 1
+      }
+
+      for (const review of pr.reviews) {
+        if (review.submittedAt >= recentSince) entry(review.reviewer).recentReviews++
+      }
+    }
+  }
+
+  for (const pr of latest?.unmergedDetails ?? []) {
+    if (pr.status !== 'open') continue
+    for (const reviewer of pr.pendingReviewers ?? []) {
+      if (!reviewer.startsWith('@')) entry(reviewer).openQueue++
+    }
+    for (const review of pr.reviews) {
+      if (review.submittedAt >= recentSince) entry(review.reviewer).recentReviews++
+    }
+  }
+
+  return Array.from(people.values())
+}
+
+// Reviewers for a PR, best first: familiarity with its areas (deeper directories weigh more)
+// divided by 1 + open queue + recent reviews / RECENT_REVIEWS_PER_QUEUED_PR
+// People with no familiarity and the PR's author are left out
+export function suggestReviewers(
+  load: ReviewerLoad[],
+  pr: { repo: string; author?: string | null; paths: string[] },
+  limit: number = 5
+): SuggestedReviewer[] {
+  const areas = getAreas(pr.repo, pr.paths)
+
+  return load
+    .filter(person => person.reviewer !== pr.author)
+    .map(person => {
+      let familiarity = 0
+      for (const [area, depth] of areas) {
+        familiarity += (person.familiarity[area] ?? 0) * (depth + 1)
+      }
+      const loadFactor = 1 + person.openQueue + person.recentReviews / RECENT_REVIEWS_PER_QUEUED_PR
+      return {
+        reviewer: person.reviewer,
+        score: parseFloat((familiarity / loadFactor).toFixed(2)),
+        familiarity,
+        openQueue: person.openQueue,
+        recentReviews: person.recentReviews,
+      }
+    })
+    .filter(suggestion => suggestion.familiarity > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+// How much the reviews depend on a few people
+export function computeReviewConcentration(summary: ReviewerSummary[]): ReviewConcentration {
+  const rows = summary.filter(r => r.totalReviews > 0).sort((a, b) => b.totalReviews - a.totalReviews)
+  const totalReviews = rows.reduce((sum, r) => sum + r.totalReviews, 0)
+  const top = rows.slice(0, 2)
+
+  return {
+    reviewers: rows.length,
+    totalReviews,
+    gini: gini(rows.map(r => r.totalReviews)),
+    topReviewers: top.map(r => r.reviewer),
+    topShare: totalReviews > 0 ? (top.reduce((sum, r) => sum + r.totalReviews, 0) / totalReviews) * 100 : null,
+  }
+}
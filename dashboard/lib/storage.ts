@@ -0,0 +1,93 @@
+import { readdir, readFile } from 'fs/promises'
+import { join } from 'path'
+import { S3Client, ListObjectsV2Command, GetObjectCommand } from '@aws-sdk/client-s3'
+
+// Where metrics files (pr-reviews-*.json) are read from
+// Selected with STORAGE_BACKEND=local|s3 (same variables as the collector)
+export interface MetricsStorage {
+  listFiles(): Promise<string[]>          // File names, without any prefix
+  readFile(name: string): Promise<string> // Throws if the file does not exist
+}
+
+// Local filesystem backend (defaults to ../output relative to the dashboard)
+function createLocalStorage(dir: string): MetricsStorage {
+  return {
+    listFiles: () => readdir(dir),
+    readFile: (name) => readFile(join(dir, name), 'utf-8'),
+  }
+}
+
+// S3-compatible object store backend (AWS S3, MinIO, R2, ...)
+function createS3Storage(options: {
+  bucket: string
+  prefix: string
+  region: string
+  endpoint?: string
+  forcePathStyle: boolean
+}): MetricsStorage {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+  })
+  const prefix = options.prefix ? `${options.prefix.replace(/\/+$/, '')}/` : ''
+
+  return {
+    async listFiles() {
+      const names: string[] = []
+      let continuationToken: string | undefined
+
+      do {
+        const page = await client.send(new ListObjectsV2Command({
+          Bucket: options.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }))
+        for (const object of page.Contents ?? []) {
+          const name = object.Key?.slice(prefix.length)
+          // Skip objects in nested "directories"
+          if (name && !name.includes('/')) names.push(name)
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined
+      } while (continuationToken)
+
+      return names
+    },
+    async readFile(name) {
+      const object = await client.send(new GetObjectCommand({
+        Bucket: options.bucket,
+        Key: `${prefix}${name}`,
+      }))
+      if (!object.Body) throw new Error(`Empty object: ${prefix}${name}`)
+      return object.Body.transformToString('utf-8')
+    },
+  }
+}
+
+let storage: MetricsStorage | null = null
+
+// Storage backend configured from the environment (created once per server process)
+export function getStorage(): MetricsStorage {
+  if (storage) return storage
+
+  const backend = process.env.STORAGE_BACKEND || 'local'
+
+  if (backend === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error('S3_BUCKET is required when STORAGE_BACKEND=s3')
+    }
+    storage = createS3Storage({
+      bucket: process.env.S3_BUCKET,
+      prefix: process.env.S3_PREFIX || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    })
+  } else if (backend === 'local') {
+    storage = createLocalStorage(process.env.LOCAL_OUTPUT_DIR || join(process.cwd(), '../output'))
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use local or s3`)
+  }
+
+  return storage
+}
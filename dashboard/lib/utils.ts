@@ -1,4 +1,71 @@
-import { MetricsData, TeamSummary, PRDetail, AuthorSummary, ReviewerSummary } from '@/types/metrics'
+import { MetricsData, TeamSummary, PRDetail, Review, TrendsData, ReviewNetwork, ReviewNetworkEdge, LeaderboardEntry, DeveloperTrendPoint, TeamRollup, UnmergedPRDetail, AbandonmentRate, Hotspot, FileHotspot, FileCategory, CategoryChanges } from '@/types/metrics'
+import { calculateWorkingHours } from '@shared/working-calendar'
+import { getTimelinePhases, summarizeReviewTimeline, getReviewableAt } from '@shared/review-timeline'
+import { getPRKey } from '@shared/pr-key'
+import {
+  average,
+  percentile,
+  median,
+  weightedAverage,
+  bootstrapInterval,
+  MIN_SAMPLE_SIZE,
+  getCloseHours,
+  getFirstResponseHours,
+  getReviewResponseHours,
+  aggregateReviewerStats,
+  aggregateAuthorStats,
+  calculateReviewerSummary,
+  calculateAuthorSummary,
+  calculateTeamSummary,
+} from '@shared/metrics-engine'
+import { resolveQualityProfile, calculateQualityScore, calculateReviewerQualityScore } from '@shared/quality-score'
+
+// Period ids used in pr-reviews-<id>.json: monthly, quarterly, or an inclusive date range (sprints/custom)
+export const PERIOD_ID_PATTERN = /^(\d{4}-\d{2}|\d{4}-Q[1-4]|\d{4}-\d{2}-\d{2}_\d{4}-\d{2}-\d{2})$/
+
+export function isMonthlyPeriod(id: string): boolean {
+  return /^\d{4}-\d{2}$/.test(id)
+}
+
+// Start day of a period id as YYYY-MM-DD (used for ordering)
+export function getPeriodStart(id: string): string {
+  if (isMonthlyPeriod(id)) return `${id}-01`
+  const quarter = /^(\d{4})-Q([1-4])$/.exec(id)
+  if (quarter) {
+    const month = (Number(quarter[2]) - 1) * 3 + 1
+    return `${quarter[1]}-${String(month).padStart(2, '0')}-01`
+  }
+  return id.split('_')[0]
+}
+
+// Human-readable label for a period id
+export function formatPeriodLabel(id: string): string {
+  if (isMonthlyPeriod(id) || /^\d{4}-Q[1-4]$/.test(id)) return id
+  const [since, until] = id.split('_')
+  return `${since} → ${until}`
+}
+
+// Sort period ids most recent first (monthly before longer periods starting the same day)
+export function sortPeriodsDesc(ids: string[]): string[] {
+  return [...ids].sort((a, b) => {
+    const byStart = getPeriodStart(b).localeCompare(getPeriodStart(a))
+    if (byStart !== 0) return byStart
+    return Number(isMonthlyPeriod(b)) - Number(isMonthlyPeriod(a))
+  })
+}
+
+// Default range of the multi-month tabs: up to `count` months ending at `to` (sorted ascending), so from <= to
+export function getDefaultRangeStart(sortedMonths: string[], to: string, count: number): string {
+  const upTo = sortedMonths.filter(month => month <= to)
+  return upTo[Math.max(0, upTo.length - count)] ?? to
+}
+
+// Last day of a YYYY-MM month as YYYY-MM-DD (inclusive end of a month range)
+export function getMonthEnd(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number)
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate()
+  return `${month}-${String(lastDay).padStart(2, '0')}`
+}
 
 // Format working hours as decimal string
 export function formatWorkingHours(hours: number | string | null | undefined): string {
@@ -24,164 +91,410 @@ export function formatPercent(value: number | string | null | undefined): string
   return `${num.toFixed(1)}%`
 }
 
-// Calculate working hours between two timestamps (client-side fallback)
-// Removes: 16 hours per night (6pm-10am) and full weekends
-export function calculateWorkingHours(startISO: string | null | undefined, endISO: string | null | undefined): number {
-  if (!startISO || !endISO) return 0
-  
-  const start = new Date(startISO)
-  const end = new Date(endISO)
-  
-  if (end <= start) return 0
-  
-  const MS_PER_HOUR = 1000 * 60 * 60
-  const totalCalendarHours = (end.getTime() - start.getTime()) / MS_PER_HOUR
-  
-  let hoursToRemove = 0
-  
-  const currentDay = new Date(start)
-  currentDay.setHours(0, 0, 0, 0)
-  
-  while (currentDay < end) {
-    const dayOfWeek = currentDay.getDay()
-    const dayStart = new Date(currentDay)
-    const dayEnd = new Date(currentDay)
-    dayEnd.setDate(dayEnd.getDate() + 1)
-    
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      const overlapStart = Math.max(start.getTime(), dayStart.getTime())
-      const overlapEnd = Math.min(end.getTime(), dayEnd.getTime())
-      if (overlapEnd > overlapStart) {
-        hoursToRemove += (overlapEnd - overlapStart) / MS_PER_HOUR
-      }
-    } else {
-      const eveningStart = new Date(currentDay)
-      eveningStart.setHours(18, 0, 0, 0)
-      const eveningEnd = new Date(dayEnd)
-      
-      const eveningOverlapStart = Math.max(start.getTime(), eveningStart.getTime())
-      const eveningOverlapEnd = Math.min(end.getTime(), eveningEnd.getTime())
-      if (eveningOverlapEnd > eveningOverlapStart) {
-        hoursToRemove += (eveningOverlapEnd - eveningOverlapStart) / MS_PER_HOUR
-      }
-      
-      const morningStart = new Date(dayStart)
-      const morningEnd = new Date(currentDay)
-      morningEnd.setHours(10, 0, 0, 0)
-      
-      const morningOverlapStart = Math.max(start.getTime(), morningStart.getTime())
-      const morningOverlapEnd = Math.min(end.getTime(), morningEnd.getTime())
-      if (morningOverlapEnd > morningOverlapStart) {
-        hoursToRemove += (morningOverlapEnd - morningOverlapStart) / MS_PER_HOUR
-      }
-    }
-    
-    currentDay.setDate(currentDay.getDate() + 1)
+// Working hours between two timestamps (shared with the collector)
+// Pass data.workingCalendar and a login to measure in that developer's calendar
+export { calculateWorkingHours }
+
+// Review-cycle phases of a PR timeline (shared with the collector)
+// summarizeReviewTimeline measures them in working hours; pass data.workingCalendar and the PR author
+export { getTimelinePhases, summarizeReviewTimeline }
+
+// When the PR became reviewable (first ready-for-review of a draft, else createdAt)
+// PR-level working-hour metrics are measured from here so draft time is not counted
+export { getReviewableAt }
+
+// Key identifying a PR across repos (repo#number), e.g. for excludedPRs
+export { getPRKey }
+
+// Metric calculators shared with the collector (shared/metrics-engine.js), so summaries recomputed
+// here for filtered data measure the same way as the ones in the JSON files
+// Durations are working hours; pass data.workingCalendar as the calendar
+export {
+  average,
+  percentile,
+  median,
+  weightedAverage,
+  getCloseHours,
+  getFirstResponseHours,
+  getReviewResponseHours,
+  aggregateReviewerStats,
+  aggregateAuthorStats,
+  calculateReviewerSummary,
+  calculateAuthorSummary,
+  calculateTeamSummary,
+}
+
+// Small-sample guard and 90% bootstrap intervals for per-developer metrics (deterministic: seeded)
+// Values from fewer than MIN_SAMPLE_SIZE PRs/reviews are flagged rather than trusted
+export { bootstrapInterval, MIN_SAMPLE_SIZE }
+
+// Quality scores (shared/quality-score.js) under the profiles embedded in the data (data.qualityScoring)
+export { resolveQualityProfile, calculateQualityScore, calculateReviewerQualityScore }
+
+// Bot flags, falling back to the "[bot]" login suffix for files collected before bot tagging
+export function isBotPR(pr: Pick<PRDetail, 'author' | 'authorIsBot'>): boolean {
+  return pr.authorIsBot ?? pr.author.endsWith('[bot]')
+}
+
+export function isBotReview(review: Review): boolean {
+  return review.isBot ?? review.reviewer.endsWith('[bot]')
+}
+
+// Reviews that count as someone reviewing the PR (as in the metrics engine):
+// not a bot's, and not the author's own replies from the review form
+export function isPeerReview(pr: Pick<PRDetail, 'author'>, review: Review): boolean {
+  return !isBotReview(review) && review.reviewer !== pr.author
+}
+
+// PRs authored by bots (dependabot, renovate, ...), shown separately from the team's work
+export function getBotPRs(data: MetricsData): PRDetail[] {
+  return data.details.filter(isBotPR)
+}
+
+// Remove bot-authored PRs and bot reviews so metrics only reflect people
+// Newer files already exclude them from summaries; this covers details and older files
+export function excludeBotActivity(data: MetricsData): MetricsData {
+  const allPRs = [...data.details, ...(data.unmergedDetails ?? [])]
+  const hasBotActivity = allPRs.some(pr => isBotPR(pr) || pr.reviews.some(isBotReview))
+  if (!hasBotActivity) return data
+
+  const botLogins = new Set<string>()
+  for (const pr of allPRs) {
+    if (isBotPR(pr)) botLogins.add(pr.author)
+    for (const review of pr.reviews.filter(isBotReview)) botLogins.add(review.reviewer)
   }
-  
-  return Math.max(0, totalCalendarHours - hoursToRemove)
+
+  const withoutBots = <T extends PRDetail | UnmergedPRDetail>(prs: T[]): T[] => prs
+    .filter(pr => !isBotPR(pr))
+    .map(pr => ({
+      ...pr,
+      reviews: pr.reviews.filter(r => !isBotReview(r)),
+    }))
+
+  const partial: MetricsData = {
+    ...data,
+    details: withoutBots(data.details),
+    unmergedDetails: data.unmergedDetails && withoutBots(data.unmergedDetails),
+    summary: data.summary.filter(s => !botLogins.has(s.reviewer)),
+    authorSummary: data.authorSummary.filter(s => !botLogins.has(s.author)),
+    teamSummary: undefined,
+  }
+  partial.teamSummary = computeTeamSummaryFallback(partial)
+  return partial
+}
+
+// Roll authored and reviewed metrics up per team (data.teams), respecting any exclusions already applied
+export function computeTeamRollups(data: MetricsData): TeamRollup[] {
+  return Object.entries(data.teams ?? {}).map(([team, members]) => {
+    const memberSet = new Set(members)
+    const [authored] = aggregateAuthorStats(data.details, data.workingCalendar, pr => memberSet.has(pr.author) ? team : null)
+    const [reviewed] = aggregateReviewerStats(data.details, data.workingCalendar, review => memberSet.has(review.reviewer) ? team : null)
+    const medianResponse = reviewed ? median(reviewed.responseTimes) : null
+    const noCommentApprovalPct = reviewed?.noCommentApprovalPct ?? null
+
+    return {
+      team,
+      members: members.length,
+      prsAuthored: authored?.prsAuthored ?? 0,
+      avgCloseTime: authored ? parseFloat(authored.avgCloseTime.toFixed(2)) : null,
+      totalReviews: reviewed?.totalReviews ?? 0,
+      medianResponseHours: medianResponse !== null ? parseFloat(medianResponse.toFixed(2)) : null,
+      noCommentApprovalPct: noCommentApprovalPct !== null ? parseFloat(noCommentApprovalPct.toFixed(1)) : null,
+    }
+  })
 }
 
 // Calculate team summary from data (fallback for old data files)
 export function computeTeamSummaryFallback(data: MetricsData): TeamSummary {
-  const validPRs = data.details.filter(p => !p.error)
-  
-  const sum = (arr: number[]) => arr.reduce((a, b) => a + b, 0)
-  const avg = (arr: number[]) => arr.length > 0 ? sum(arr) / arr.length : 0
-  const median = (arr: number[]) => {
-    if (arr.length === 0) return null
-    const sorted = [...arr].sort((a, b) => a - b)
-    return sorted[Math.floor(sorted.length / 2)]
+  return calculateTeamSummary(data.authorSummary, data.summary, data.details, data.workingCalendar)
+}
+
+// Get team summary (use provided or compute fallback)
+export function getTeamSummary(data: MetricsData): TeamSummary {
+  return data.teamSummary || computeTeamSummaryFallback(data)
+}
+
+// Remove excluded devs' authored PRs and strip their reviews, then recompute the team summary
+export function applyDeveloperExclusions(data: MetricsData, excludedDevs: Set<string>): MetricsData {
+  if (excludedDevs.size === 0) return data
+
+  const withoutExcluded = <T extends PRDetail | UnmergedPRDetail>(prs: T[]): T[] => prs
+    .filter(pr => !excludedDevs.has(pr.author))
+    .map(pr => ({
+      ...pr,
+      reviews: pr.reviews.filter(r => !excludedDevs.has(r.reviewer)),
+    }))
+
+  const partial: MetricsData = {
+    ...data,
+    details: withoutExcluded(data.details),
+    unmergedDetails: data.unmergedDetails && withoutExcluded(data.unmergedDetails),
+    summary: data.summary.filter(s => !excludedDevs.has(s.reviewer)),
+    authorSummary: data.authorSummary.filter(s => !excludedDevs.has(s.author)),
+    teamSummary: undefined,
   }
-  
-  const weightedAvg = (items: ReviewerSummary[], valueField: keyof ReviewerSummary, weightField: keyof ReviewerSummary): number => {
-    let totalWeight = 0
-    let weightedSum = 0
-    for (const item of items) {
-      const value = parseFloat(String(item[valueField])) || 0
-      const weight = (item[weightField] as number) || 0
-      weightedSum += value * weight
-      totalWeight += weight
+  partial.teamSummary = computeTeamSummaryFallback(partial)
+  return partial
+}
+
+// Base branches the PRs target, sorted (empty for files collected before baseRef)
+export function getBaseRefs(data: MetricsData): string[] {
+  return Array.from(new Set(data.details.map(pr => pr.baseRef).filter((ref): ref is string => Boolean(ref)))).sort()
+}
+
+// Open PRs, longest waiting first; age is working hours from ready for review to collection
+export function getOpenPRs(data: MetricsData): { pr: UnmergedPRDetail; ageHours: number }[] {
+  return (data.unmergedDetails ?? [])
+    .filter(pr => pr.status === 'open')
+    .map(pr => ({
+      pr,
+      ageHours: calculateWorkingHours(getReviewableAt(pr), data.generatedAt, data.workingCalendar, pr.author),
+    }))
+    .sort((a, b) => b.ageHours - a.ageHours)
+}
+
+// Share of finished PRs closed without merging, per author or per repo
+// Open PRs are not finished yet and do not count either way
+export function computeAbandonment(data: MetricsData, by: 'author' | 'repo'): AbandonmentRate[] {
+  const counts = new Map<string, { merged: number; abandoned: number }>()
+  const entry = (key: string) => {
+    if (!counts.has(key)) counts.set(key, { merged: 0, abandoned: 0 })
+    return counts.get(key)!
+  }
+
+  for (const pr of data.details) entry(pr[by]).merged++
+  for (const pr of data.unmergedDetails ?? []) {
+    if (pr.status === 'closed') entry(pr[by]).abandoned++
+  }
+
+  return Array.from(counts, ([key, { merged, abandoned }]) => ({
+    key,
+    merged,
+    abandoned,
+    rate: merged + abandoned > 0 ? (abandoned / (merged + abandoned)) * 100 : null,
+  }))
+}
+
+// Lines and files changed per file category across PRs (files collected with categories only)
+export function computeCategoryTotals(data: MetricsData): { category: FileCategory; lines: number; files: number; prs: number }[] {
+  const totals = new Map<FileCategory, { category: FileCategory; lines: number; files: number; prs: number }>()
+
+  for (const pr of data.details) {
+    for (const [category, changes] of Object.entries(pr.changesByCategory ?? {}) as [FileCategory, CategoryChanges][]) {
+      if (!totals.has(category)) totals.set(category, { category, lines: 0, files: 0, prs: 0 })
+      const total = totals.get(category)!
+      total.lines += changes.additions + changes.deletions
+      total.files += changes.files
+      total.prs++
     }
-    return totalWeight > 0 ? weightedSum / totalWeight : 0
   }
-  
-  const totalPRs = validPRs.length
-  const prSizes = validPRs.map(p => p.totalAdditions + p.totalDeletions)
-  const prodLines = validPRs.map(p => p.prodAdditions + p.prodDeletions)
-  const testLines = validPRs.map(p => p.testAdditions + p.testDeletions)
-  const iterations = validPRs.map(p => p.iterationCount)
-  
-  // Compute working hours to close from raw timestamps
-  const workingHoursCloseTimes = validPRs
-    .map(p => calculateWorkingHours(p.createdAt, p.mergedAt))
-    .filter(h => h > 0)
-  
-  const churnPercentages = validPRs
-    .filter(p => p.churnPercentage !== undefined)
-    .map(p => p.churnPercentage!)
-  
-  const fileChurnCounts = validPRs
-    .filter(p => p.fileChurnCount !== undefined)
-    .map(p => p.fileChurnCount!)
-  
-  const commitCounts = validPRs.map(p => p.commitCount || 1)
-  
-  // Compute response times from firstResponseAt
-  const allResponseTimes: number[] = validPRs
-    .filter(p => p.firstResponseAt)
-    .map(p => calculateWorkingHours(p.createdAt, p.firstResponseAt!))
-    .filter(h => h >= 0)
-  
-  let totalReviews = 0
-  let totalApprovals = 0
-  let totalNoCommentApprovals = 0
-  let totalInlineComments = 0
-  
-  for (const pr of validPRs) {
-    for (const review of pr.reviews) {
-      totalReviews++
-      totalInlineComments += review.inlineCommentCount
-      
-      if (review.state === 'APPROVED') {
-        totalApprovals++
-        if (!review.hasComments) {
-          totalNoCommentApprovals++
+
+  return Array.from(totals.values()).sort((a, b) => b.lines - a.lines)
+}
+
+// Hotspot label for files whose repo has a CODEOWNERS file but no rule for them
+export const UNOWNED = '(unowned)'
+
+// Directory of a path cut to `depth` segments ('' for files at the repo root)
+function getDirectory(path: string, depth: number): string {
+  return path.split('/').slice(0, -1).slice(0, depth).join('/')
+}
+
+// Review comments, iterations and rework per directory (repo/dir, cut to `depth` segments) or CODEOWNERS owner
+// Only PRs collected with per-file data count. By owner, a file counts for each of its owners,
+// and repos without a CODEOWNERS file are left out
+export function computeHotspots(data: MetricsData, by: 'directory' | 'owner', depth: number = 2): Hotspot[] {
+  const groups = new Map<string, { prs: Map<string, PRDetail>; files: Set<string>; linesChanged: number; comments: number; reworkAdditions: number; churnedFiles: number }>()
+
+  for (const pr of data.details) {
+    for (const file of pr.files ?? []) {
+      const keys = by === 'owner'
+        ? (file.owners && (file.owners.length > 0 ? file.owners : [UNOWNED])) ?? []
+        : [`${pr.repo}/${getDirectory(file.path, depth)}`]
+
+      for (const key of keys) {
+        if (!groups.has(key)) {
+          groups.set(key, { prs: new Map(), files: new Set(), linesChanged: 0, comments: 0, reworkAdditions: 0, churnedFiles: 0 })
         }
+        const group = groups.get(key)!
+        group.prs.set(getPRKey(pr), pr)
+        group.files.add(`${pr.repo}/${file.path}`)
+        group.linesChanged += file.additions + file.deletions
+        group.comments += file.comments
+        group.reworkAdditions += file.reworkAdditions
+        if (file.commits > 1) group.churnedFiles++
       }
     }
   }
-  
-  return {
-    authored: {
-      totalPRs,
-      totalDevelopers: data.authorSummary.length,
-      avgPrSize: Math.round(avg(prSizes)),
-      avgProdLines: Math.round(avg(prodLines)),
-      avgTestLines: Math.round(avg(testLines)),
-      avgCloseTime: workingHoursCloseTimes.length > 0 ? parseFloat(avg(workingHoursCloseTimes).toFixed(2)) : null,
-      avgIterations: parseFloat(avg(iterations).toFixed(2)),
-      avgChurnPct: churnPercentages.length > 0 ? parseFloat(avg(churnPercentages).toFixed(1)) : 0,
-      avgFileChurn: fileChurnCounts.length > 0 ? parseFloat(avg(fileChurnCounts).toFixed(1)) : 0,
-      avgCommitsPerPr: parseFloat(avg(commitCounts).toFixed(2))
-    },
-    reviewed: {
-      totalReviews,
-      totalReviewers: data.summary.length,
-      avgPrSizeReviewed: Math.round(weightedAvg(data.summary, 'avgPrSizeReviewed', 'prsReviewedCount')),
-      avgProdLinesReviewed: Math.round(weightedAvg(data.summary, 'avgPrProdLinesReviewed', 'prsReviewedCount')),
-      avgTestLinesReviewed: Math.round(weightedAvg(data.summary, 'avgPrTestLinesReviewed', 'prsReviewedCount')),
-      medianResponseTime: allResponseTimes.length > 0 ? parseFloat(median(allResponseTimes)!.toFixed(2)) : null,
-      overallNoCommentPct: totalApprovals > 0 ? parseFloat((totalNoCommentApprovals / totalApprovals * 100).toFixed(1)) : 0,
-      avgInlineComments: totalReviews > 0 ? parseFloat((totalInlineComments / totalReviews).toFixed(2)) : 0,
-      avgIterationsPerPr: parseFloat(avg(iterations).toFixed(2))
+
+  return Array.from(groups, ([key, group]) => ({
+    key,
+    prs: group.prs.size,
+    files: group.files.size,
+    linesChanged: group.linesChanged,
+    comments: group.comments,
+    reworkAdditions: group.reworkAdditions,
+    churnedFiles: group.churnedFiles,
+    avgIterations: average(Array.from(group.prs.values(), pr => pr.iterationCount)) ?? 0,
+  }))
+}
+
+// Per-file review comments and rework across PRs, most re-worked first
+export function computeFileHotspots(data: MetricsData): FileHotspot[] {
+  const files = new Map<string, FileHotspot>()
+
+  for (const pr of data.details) {
+    for (const file of pr.files ?? []) {
+      const key = `${pr.repo}/${file.path}`
+      if (!files.has(key)) {
+        files.set(key, { repo: pr.repo, path: file.path, prs: 0, commits: 0, reworkAdditions: 0, comments: 0, linesChanged: 0 })
+      }
+      const hotspot = files.get(key)!
+      hotspot.prs++
+      hotspot.commits += file.commits
+      hotspot.reworkAdditions += file.reworkAdditions
+      hotspot.comments += file.comments
+      hotspot.linesChanged += file.additions + file.deletions
     }
   }
+
+  return Array.from(files.values()).sort((a, b) => b.reworkAdditions - a.reworkAdditions || b.comments - a.comments)
 }
 
-// Get team summary (use provided or compute fallback)
-export function getTeamSummary(data: MetricsData): TeamSummary {
-  return data.teamSummary || computeTeamSummaryFallback(data)
+// Change from previous to current value (null when either side is missing)
+export function calculateDelta(
+  current: number | string | null | undefined,
+  previous: number | string | null | undefined
+): number | null {
+  if (current === null || current === undefined || previous === null || previous === undefined) return null
+  const cur = typeof current === 'string' ? parseFloat(current) : current
+  const prev = typeof previous === 'string' ? parseFloat(previous) : previous
+  if (isNaN(cur) || isNaN(prev)) return null
+  return cur - prev
+}
+
+// Build team and per-developer time series from monthly data files (sorted oldest first)
+export function buildTrendsData(from: string, to: string, monthlyData: MetricsData[]): TrendsData {
+  const sorted = [...monthlyData].sort((a, b) => a.month.localeCompare(b.month))
+  const parseOrNull = (value: string | number | null | undefined): number | null => {
+    if (value === null || value === undefined) return null
+    const num = typeof value === 'string' ? parseFloat(value) : value
+    return isNaN(num) ? null : num
+  }
+
+  const developers: { [developer: string]: DeveloperTrendPoint[] } = {}
+
+  for (const data of sorted) {
+    const points = new Map<string, DeveloperTrendPoint>()
+    const pointFor = (developer: string): DeveloperTrendPoint => {
+      if (!points.has(developer)) {
+        points.set(developer, {
+          month: data.month,
+          prsAuthored: 0,
+          avgCloseTime: null,
+          avgReviewTime: null,
+          totalReviews: 0,
+          medianResponseHours: null,
+          noCommentApprovalPct: null
+        })
+      }
+      return points.get(developer)!
+    }
+
+    for (const author of data.authorSummary) {
+      const point = pointFor(author.author)
+      point.prsAuthored = author.prsAuthored
+      point.avgCloseTime = parseOrNull(author.authoredPrAvgCloseTime)
+      point.avgReviewTime = parseOrNull(author.authoredPrAvgReviewTime)
+    }
+
+    for (const reviewer of data.summary) {
+      const point = pointFor(reviewer.reviewer)
+      point.totalReviews = reviewer.totalReviews
+      point.medianResponseHours = parseOrNull(reviewer.medianResponseHours)
+      point.noCommentApprovalPct = reviewer.approvals > 0 ? reviewer.noCommentApprovalPct : null
+    }
+
+    for (const [developer, point] of points) {
+      if (!developers[developer]) developers[developer] = []
+      developers[developer].push(point)
+    }
+  }
+
+  return {
+    from,
+    to,
+    months: sorted.map(d => d.month),
+    team: sorted.map(d => ({ month: d.month, ...getTeamSummary(d) })),
+    developers
+  }
+}
+
+// Share of an author's received reviews (or of a reviewer's given reviews) from which a pair counts as siloed
+const SILO_SHARE = 0.8
+// Fewest reviews between a pair (and reviewed PRs for a single-reviewer author) before flagging it
+const NETWORK_MIN_REVIEWS = 3
+
+// Review network across monthly data files: who reviews whose PRs, and how much
+// Self-reviews are left out; pass files with bot activity excluded
+export function buildReviewNetwork(from: string, to: string, monthlyData: MetricsData[]): ReviewNetwork {
+  const sorted = [...monthlyData].sort((a, b) => a.month.localeCompare(b.month))
+  const edges = new Map<string, ReviewNetworkEdge>()
+  const nodes = new Map<string, { prsAuthored: number; reviewsGiven: number; reviewsReceived: number; reviewers: Set<string>; reviewedPRs: number }>()
+  const node = (developer: string) => {
+    if (!nodes.has(developer)) nodes.set(developer, { prsAuthored: 0, reviewsGiven: 0, reviewsReceived: 0, reviewers: new Set(), reviewedPRs: 0 })
+    return nodes.get(developer)!
+  }
+
+  for (const pr of sorted.flatMap(data => data.details)) {
+    const author = node(pr.author)
+    author.prsAuthored++
+
+    const reviews = pr.reviews.filter(review => isPeerReview(pr, review))
+    if (reviews.length > 0) author.reviewedPRs++
+
+    for (const reviewer of new Set(reviews.map(review => review.reviewer))) {
+      const own = reviews.filter(review => review.reviewer === reviewer)
+      const key = `${reviewer}->${pr.author}`
+      if (!edges.has(key)) {
+        edges.set(key, { reviewer, author: pr.author, prs: 0, reviews: 0, comments: 0, changesRequested: 0, weight: 0, reciprocal: false, siloed: false })
+      }
+      const edge = edges.get(key)!
+      edge.prs++
+      edge.reviews += own.length
+      edge.changesRequested += own.filter(review => review.state === 'CHANGES_REQUESTED').length
+      // conversationCommentCount is the reviewer's total on the PR, repeated on each of their reviews
+      edge.comments += own.reduce((total, review) => total + review.inlineCommentCount, 0)
+        + Math.max(...own.map(review => review.conversationCommentCount || 0))
+
+      node(reviewer).reviewsGiven += own.length
+      author.reviewsReceived += own.length
+      author.reviewers.add(reviewer)
+    }
+  }
+
+  for (const edge of edges.values()) {
+    edge.weight = edge.reviews + edge.changesRequested + edge.comments / 4
+    edge.reciprocal = edges.has(`${edge.author}->${edge.reviewer}`)
+    edge.siloed = edge.reviews >= NETWORK_MIN_REVIEWS && (
+      edge.reviews >= SILO_SHARE * nodes.get(edge.author)!.reviewsReceived ||
+      edge.reviews >= SILO_SHARE * nodes.get(edge.reviewer)!.reviewsGiven
+    )
+  }
+
+  return {
+    from,
+    to,
+    months: sorted.map(d => d.month),
+    nodes: Array.from(nodes, ([developer, stats]) => ({
+      developer,
+      prsAuthored: stats.prsAuthored,
+      reviewsGiven: stats.reviewsGiven,
+      reviewers: stats.reviewers.size,
+      singleReviewer: stats.reviewers.size === 1 && stats.reviewedPRs >= NETWORK_MIN_REVIEWS,
+    })),
+    edges: Array.from(edges.values()),
+  }
 }
 
 // Find most active developer (PRs authored + reviews done)
@@ -209,294 +522,95 @@ export function findMostActiveDeveloper(data: MetricsData): { name: string; acti
   return mostActive ? { name: mostActive, activity: maxActivity } : null
 }
 
-// Find developer with fastest PR velocity (lowest avg working hours to close)
-export function findFastestVelocity(data: MetricsData): { name: string; hours: number } | null {
-  const validPRs = data.details.filter(p => !p.error)
-  
-  // Group PRs by author and compute working hours close time
-  const authorStats = new Map<string, number[]>()
-  
-  for (const pr of validPRs) {
-    if (!authorStats.has(pr.author)) {
-      authorStats.set(pr.author, [])
-    }
-    const workingHours = calculateWorkingHours(pr.createdAt, pr.mergedAt)
-    if (workingHours > 0) {
-      authorStats.get(pr.author)!.push(workingHours)
-    }
-  }
-  
-  let fastest: { name: string; hours: number } | null = null
-  
-  for (const [author, hours] of authorStats) {
-    if (hours.length >= 2) { // minimum 2 PRs
-      const avgHours = hours.reduce((a, b) => a + b, 0) / hours.length
-      if (!fastest || avgHours < fastest.hours) {
-        fastest = { name: author, hours: avgHours }
-      }
-    }
+// Pick the card winner among developers with at least MIN_SAMPLE_SIZE PRs/reviews; when nobody has
+// that many, fall back to 2 and flag the result as a small sample
+function pickLeader<T extends { sampleSize: number; value: number }>(
+  candidates: T[],
+  isBetter: (a: number, b: number) => boolean
+): (T & { smallSample: boolean }) | null {
+  const qualified = candidates.filter(c => c.sampleSize >= MIN_SAMPLE_SIZE)
+  const pool = qualified.length > 0 ? qualified : candidates.filter(c => c.sampleSize >= 2)
+  let leader: T | null = null
+  
+  for (const candidate of pool) {
+    if (!leader || isBetter(candidate.value, leader.value)) leader = candidate
   }
   
-  return fastest
+  return leader ? { ...leader, smallSample: qualified.length === 0 } : null
 }
 
-// Find most responsive reviewer (lowest median working hours response)
-export function findMostResponsiveReviewer(data: MetricsData): { name: string; hours: number } | null {
-  const validPRs = data.details.filter(p => !p.error)
-  
-  // Group response times by reviewer using firstActivityAt
-  const reviewerStats = new Map<string, number[]>()
-  
-  for (const pr of validPRs) {
-    for (const review of pr.reviews) {
-      if (review.firstActivityAt) {
-        if (!reviewerStats.has(review.reviewer)) {
-          reviewerStats.set(review.reviewer, [])
-        }
-        const workingHours = calculateWorkingHours(pr.createdAt, review.firstActivityAt)
-        if (workingHours >= 0) {
-          reviewerStats.get(review.reviewer)!.push(workingHours)
-        }
-      }
-    }
-  }
-  
-  let mostResponsive: { name: string; hours: number } | null = null
+// Find developer with fastest PR velocity (lowest avg working hours to close)
+export function findFastestVelocity(data: MetricsData): LeaderboardEntry | null {
+  const authors = aggregateAuthorStats(data.details, data.workingCalendar)
+  const leader = pickLeader(
+    authors.map(stats => ({ name: stats.author, value: stats.avgCloseTime, sampleSize: stats.prsAuthored, closeTimes: stats.closeTimes })),
+    (a, b) => a < b
+  )
+  if (!leader) return null
   
-  for (const [reviewer, times] of reviewerStats) {
-    if (times.length >= 2) { // minimum 2 reviews
-      const sorted = [...times].sort((a, b) => a - b)
-      const medianHours = sorted[Math.floor(sorted.length / 2)]
-      if (!mostResponsive || medianHours < mostResponsive.hours) {
-        mostResponsive = { name: reviewer, hours: medianHours }
-      }
-    }
-  }
+  const { closeTimes, ...entry } = leader
+  return { ...entry, interval: bootstrapInterval(closeTimes, average) }
+}
+
+// Find most responsive reviewer (lowest median working hours response, from review request)
+export function findMostResponsiveReviewer(data: MetricsData): LeaderboardEntry | null {
+  const reviewers = aggregateReviewerStats(data.details, data.workingCalendar)
+  const leader = pickLeader(
+    reviewers
+      .filter(stats => stats.responseTimes.length > 0)
+      .map(stats => ({ name: stats.reviewer, value: median(stats.responseTimes)!, sampleSize: stats.responseTimes.length, responseTimes: stats.responseTimes })),
+    (a, b) => a < b
+  )
+  if (!leader) return null
   
-  return mostResponsive
+  const { responseTimes, ...entry } = leader
+  return { ...entry, interval: bootstrapInterval(responseTimes, median) }
 }
 
 // Calculate average churn rate across all PRs
 export function calculateAvgChurnRate(data: MetricsData): number {
-  const validPRs = data.details.filter(p => !p.error && p.churnPercentage !== undefined)
-  if (validPRs.length === 0) return 0
-  
-  const sum = validPRs.reduce((acc, pr) => acc + (pr.churnPercentage || 0), 0)
-  return parseFloat((sum / validPRs.length).toFixed(1))
-}
-
-// Calculate quality score for a developer (0-100)
-// Weights: source size (35%), close time (30%), iterations (20%), churn (15%)
-// Size uses source (non-test) lines and files only — test code is excluded.
-export function calculateQualityScore(
-  dev: {
-    avgSrcSize: number            // avg source (non-test) lines changed per PR
-    avgSrcFiles: number           // avg source (non-test) files changed per PR
-    avgIterations: number
-    avgWorkingHoursToClose: number | null
-    churnPct: number
-  },
-  teamAvg: TeamSummary['authored']
-): number {
-  // 1. Source size score (35%): smaller source PRs are better — average of lines + files sub-scores
-  //    Source lines: <=100 = 100, >=400 = 0, linear between
-  const linesScore = Math.max(0, Math.min(100, 100 * (1 - (dev.avgSrcSize - 100) / 300)))
-  //    Source files: <=4 = 100, >=10 = 0, linear between
-  const filesScore = Math.max(0, Math.min(100, 100 * (1 - (dev.avgSrcFiles - 4) / 6)))
-  const sizeScore = (linesScore + filesScore) / 2
-  
-  // 2. Close time score (30%): linear from 2h (100) to 8h (0)
-  const closeTimeScore = dev.avgWorkingHoursToClose !== null
-    ? Math.max(0, Math.min(100, 100 * (1 - (dev.avgWorkingHoursToClose - 2) / 6)))
-    : 50 // default if no data
-  
-  // 3. Iteration score (20%): fewer iterations is better (1 = perfect, 4+ = 0)
-  const iterationScore = Math.max(0, Math.min(100, 100 * (1 - Math.max(0, dev.avgIterations - 1) / 3)))
-  
-  // 4. Churn score (15%): less churn is better (50% churn = 0 score)
-  const churnScore = Math.max(0, 100 * (1 - dev.churnPct / 50))
-  
-  return Math.round(
-    sizeScore * 0.35 +
-    closeTimeScore * 0.30 +
-    iterationScore * 0.20 +
-    churnScore * 0.15
-  )
+  const churn = average(data.details.filter(p => !p.error && p.churnPercentage !== undefined).map(p => p.churnPercentage!))
+  return churn !== null ? parseFloat(churn.toFixed(1)) : 0
 }
 
-// Find top quality developer
-export function findTopQualityScore(data: MetricsData): { name: string; score: number } | null {
+// Find top quality developer (default quality profile, as PRs span repos)
+// The score combines several averages, so it carries no interval
+export function findTopQualityScore(data: MetricsData): LeaderboardEntry | null {
   const teamSummary = getTeamSummary(data)
-  const validPRs = data.details.filter(p => !p.error)
-  
-  // Group PRs by author
-  const authorPRs = new Map<string, PRDetail[]>()
-  for (const pr of validPRs) {
-    if (!authorPRs.has(pr.author)) {
-      authorPRs.set(pr.author, [])
-    }
-    authorPRs.get(pr.author)!.push(pr)
-  }
-  
-  let topDev: { name: string; score: number } | null = null
-  
-  for (const [author, prs] of authorPRs) {
-    if (prs.length < 2) continue // minimum 2 PRs
-    
-    // Compute stats from raw PR data (source lines/files only for size score)
-    const totalSrcSize = prs.reduce((sum, p) => sum + p.prodAdditions + p.prodDeletions, 0)
-    
-    const avgSrcSize = totalSrcSize / prs.length
-    const avgSrcFiles = prs.reduce((sum, p) => sum + p.prodFilesChanged, 0) / prs.length
-    const avgIterations = prs.reduce((sum, p) => sum + p.iterationCount, 0) / prs.length
-    
-    const workingHoursToClose = prs
-      .map(p => calculateWorkingHours(p.createdAt, p.mergedAt))
-      .filter(h => h > 0)
-    const avgWorkingHoursToClose = workingHoursToClose.length > 0
-      ? workingHoursToClose.reduce((a, b) => a + b, 0) / workingHoursToClose.length
-      : null
-    
-    const churnPcts = prs.filter(p => p.churnPercentage !== undefined).map(p => p.churnPercentage!)
-    const churnPct = churnPcts.length > 0 ? churnPcts.reduce((a, b) => a + b, 0) / churnPcts.length : 0
-    
-    const score = calculateQualityScore(
-      { avgSrcSize, avgSrcFiles, avgIterations, avgWorkingHoursToClose, churnPct },
+  const profile = resolveQualityProfile(data.qualityScoring)
+  
+  const candidates = aggregateAuthorStats(data.details, data.workingCalendar).map(stats => {
+    // Size score uses source lines/files only
+    const { score } = calculateQualityScore(
+      {
+        avgSrcSize: stats.avgProdLines,
+        avgSrcFiles: stats.avgProdFiles,
+        avgIterations: stats.avgIterations,
+        avgWorkingHoursToClose: stats.avgCloseTime,
+        churnPct: stats.avgChurnPct,
+      },
+      profile,
       teamSummary.authored
     )
-    
-    if (!topDev || score > topDev.score) {
-      topDev = { name: author, score }
-    }
-  }
+    return { name: stats.author, value: score, sampleSize: stats.prsAuthored }
+  })
   
-  return topDev
+  const leader = pickLeader(candidates, (a, b) => a > b)
+  return leader ? { ...leader, interval: null } : null
 }
 
-// Recompute team stats for a filtered repo
-export function computeTeamStatsForRepo(data: MetricsData, repo: string): TeamSummary {
-  const filteredPRs = data.details.filter(p => !p.error && p.repo === repo)
+// Recompute team stats for the PRs matching a filter (e.g. one repo or base branch)
+export function computeTeamStatsForPRs(data: MetricsData, include: (pr: PRDetail) => boolean): TeamSummary {
+  const filteredPRs = data.details.filter(p => !p.error && include(p))
   
   if (filteredPRs.length === 0) {
     return getTeamSummary(data) // fallback to full stats
   }
   
-  const sum = (arr: number[]) => arr.reduce((a, b) => a + b, 0)
-  const avg = (arr: number[]) => arr.length > 0 ? sum(arr) / arr.length : 0
-  const median = (arr: number[]) => {
-    if (arr.length === 0) return null
-    const sorted = [...arr].sort((a, b) => a - b)
-    return sorted[Math.floor(sorted.length / 2)]
-  }
-  
-  const totalPRs = filteredPRs.length
-  const prSizes = filteredPRs.map(p => p.totalAdditions + p.totalDeletions)
-  const prodLines = filteredPRs.map(p => p.prodAdditions + p.prodDeletions)
-  const testLines = filteredPRs.map(p => p.testAdditions + p.testDeletions)
-  const iterations = filteredPRs.map(p => p.iterationCount)
-  
-  // Compute working hours to close from raw timestamps
-  const workingHoursCloseTimes = filteredPRs
-    .map(p => calculateWorkingHours(p.createdAt, p.mergedAt))
-    .filter(h => h > 0)
-  
-  const churnPercentages = filteredPRs
-    .filter(p => p.churnPercentage !== undefined)
-    .map(p => p.churnPercentage!)
-  
-  const fileChurnCounts = filteredPRs
-    .filter(p => p.fileChurnCount !== undefined)
-    .map(p => p.fileChurnCount!)
-  
-  const commitCounts = filteredPRs.map(p => p.commitCount || 1)
-  
-  // Get unique developers
-  const authors = new Set(filteredPRs.map(p => p.author))
-  const reviewers = new Set<string>()
-  
-  // Compute response times from firstResponseAt
-  const allResponseTimes: number[] = filteredPRs
-    .filter(p => p.firstResponseAt)
-    .map(p => calculateWorkingHours(p.createdAt, p.firstResponseAt!))
-    .filter(h => h >= 0)
-  
-  let totalReviews = 0
-  let totalApprovals = 0
-  let totalNoCommentApprovals = 0
-  let totalInlineComments = 0
-  
-  for (const pr of filteredPRs) {
-    for (const review of pr.reviews) {
-      totalReviews++
-      reviewers.add(review.reviewer)
-      totalInlineComments += review.inlineCommentCount
-      
-      if (review.state === 'APPROVED') {
-        totalApprovals++
-        if (!review.hasComments) {
-          totalNoCommentApprovals++
-        }
-      }
-    }
-  }
-  
-  // Compute reviewer stats for the filtered repo
-  const reviewerStatsMap = new Map<string, { prSizes: number[], prodLines: number[], testLines: number[] }>()
-  
-  for (const pr of filteredPRs) {
-    const prSize = pr.totalAdditions + pr.totalDeletions
-    const prodSize = pr.prodAdditions + pr.prodDeletions
-    const testSize = pr.testAdditions + pr.testDeletions
-    
-    const reviewersForPr = new Set(pr.reviews.map(r => r.reviewer))
-    for (const reviewer of reviewersForPr) {
-      if (!reviewerStatsMap.has(reviewer)) {
-        reviewerStatsMap.set(reviewer, { prSizes: [], prodLines: [], testLines: [] })
-      }
-      const stats = reviewerStatsMap.get(reviewer)!
-      stats.prSizes.push(prSize)
-      stats.prodLines.push(prodSize)
-      stats.testLines.push(testSize)
-    }
-  }
-  
-  // Weighted average for reviewer stats
-  let totalWeight = 0
-  let weightedSizeSum = 0
-  let weightedProdSum = 0
-  let weightedTestSum = 0
-  
-  for (const [, stats] of reviewerStatsMap) {
-    const weight = stats.prSizes.length
-    totalWeight += weight
-    weightedSizeSum += avg(stats.prSizes) * weight
-    weightedProdSum += avg(stats.prodLines) * weight
-    weightedTestSum += avg(stats.testLines) * weight
-  }
-  
-  return {
-    authored: {
-      totalPRs,
-      totalDevelopers: authors.size,
-      avgPrSize: Math.round(avg(prSizes)),
-      avgProdLines: Math.round(avg(prodLines)),
-      avgTestLines: Math.round(avg(testLines)),
-      avgCloseTime: workingHoursCloseTimes.length > 0 ? parseFloat(avg(workingHoursCloseTimes).toFixed(2)) : null,
-      avgIterations: parseFloat(avg(iterations).toFixed(2)),
-      avgChurnPct: churnPercentages.length > 0 ? parseFloat(avg(churnPercentages).toFixed(1)) : 0,
-      avgFileChurn: fileChurnCounts.length > 0 ? parseFloat(avg(fileChurnCounts).toFixed(1)) : 0,
-      avgCommitsPerPr: parseFloat(avg(commitCounts).toFixed(2))
-    },
-    reviewed: {
-      totalReviews,
-      totalReviewers: reviewers.size,
-      avgPrSizeReviewed: totalWeight > 0 ? Math.round(weightedSizeSum / totalWeight) : 0,
-      avgProdLinesReviewed: totalWeight > 0 ? Math.round(weightedProdSum / totalWeight) : 0,
-      avgTestLinesReviewed: totalWeight > 0 ? Math.round(weightedTestSum / totalWeight) : 0,
-      medianResponseTime: allResponseTimes.length > 0 ? parseFloat(median(allResponseTimes)!.toFixed(2)) : null,
-      overallNoCommentPct: totalApprovals > 0 ? parseFloat((totalNoCommentApprovals / totalApprovals * 100).toFixed(1)) : 0,
-      avgInlineComments: totalReviews > 0 ? parseFloat((totalInlineComments / totalReviews).toFixed(2)) : 0,
-      avgIterationsPerPr: parseFloat(avg(iterations).toFixed(2))
-    }
-  }
+  return calculateTeamSummary(
+    calculateAuthorSummary(filteredPRs, data.workingCalendar),
+    calculateReviewerSummary(filteredPRs, data.workingCalendar),
+    filteredPRs,
+    data.workingCalendar
+  )
 }
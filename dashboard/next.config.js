@@ -1,6 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  experimental: {
+    // Allow importing modules shared with the collector from ../shared
+    externalDir: true,
+  },
 }
 
 module.exports = nextConfig
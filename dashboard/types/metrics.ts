@@ -1,21 +1,55 @@
+import type { WorkingCalendar } from '@shared/working-calendar'
+import type { QualityScoring, QualityProfile, QualityScore, QualityScoreComponent } from '@shared/quality-score'
+import type { TimelineEvent, TimelinePhase, TimelinePhaseName, ReviewTimelineSummary } from '@shared/review-timeline'
+import type { ReviewerStats, AuthorStats, ConfidenceInterval } from '@shared/metrics-engine'
+
+export type { WorkingCalendar, QualityScoring, QualityProfile, QualityScore, QualityScoreComponent, TimelineEvent, TimelinePhase, TimelinePhaseName, ReviewTimelineSummary, ReviewerStats, AuthorStats, ConfidenceInterval }
+
 export interface Review {
   reviewer: string
+  reviewerLogin?: string  // Original GitHub login when merged into a canonical person
+  isBot?: boolean  // Bot or automation account (absent in older files)
   state: 'APPROVED' | 'CHANGES_REQUESTED' | 'COMMENTED' | 'DISMISSED'
   submittedAt: string
+  requestedAt?: string | null  // Review request this review answered (null if unrequested; absent in older files)
   firstActivityAt?: string  // Earliest of: review submission, inline comment, or conversation comment
   hasComments: boolean
   inlineCommentCount: number
   conversationCommentCount: number
   body: string
+  // Comment kinds (heuristic); absent in files collected before comment classification
+  bodyKind?: CommentKind | null  // null for an empty review body
+  inlineComments?: ReviewComment[]
+}
+
+// Heuristic label of a review comment (scripts/comment-classifier.js)
+export type CommentKind = 'suggestion' | 'nit' | 'blocking' | 'question' | 'praise' | 'other'
+
+export interface ReviewComment {
+  path?: string     // Inline comments only
+  author?: string   // Conversation comments only
+  body: string
+  createdAt: string
+  kind: CommentKind | null
 }
 
+export type PRStatus = 'merged' | 'open' | 'closed'
+
 export interface PRDetail {
   repo: string
   number: number
   title: string
   author: string
+  authorLogin?: string  // Original GitHub login when merged into a canonical person
+  authorIsBot?: boolean  // Authored by a bot, e.g. dependabot (absent in older files)
   createdAt: string
+  readyForReviewAt?: string | null  // First ready-for-review if opened as a draft, else createdAt (absent in older files)
+  draft?: boolean  // Draft state at collection time
+  status?: PRStatus  // Absent in older files (merged only)
+  baseRef?: string  // Target branch (absent in older files, which only hold PRs into main)
   mergedAt: string
+  closedAt?: string | null
+  updatedAt?: string  // PR updated_at at collection time (API cache key)
   url: string
   totalAdditions: number
   totalDeletions: number
@@ -26,6 +60,7 @@ export interface PRDetail {
   filesChanged: number
   testFilesChanged: number
   prodFilesChanged: number
+  changesByCategory?: Partial<Record<FileCategory, CategoryChanges>>  // Absent in files collected before file categories
   iterationCount: number
   reviews: Review[]
   error?: string
@@ -35,6 +70,48 @@ export interface PRDetail {
   commitCount?: number
   churnPercentage?: number
   fileChurnCount?: number
+  commits?: CommitSummary[]  // Absent in files collected before the SQLite store
+  files?: FileChange[]  // Absent in files collected before per-file hotspots
+  conversationComments?: ReviewComment[]  // Non-bot PR conversation comments (absent in older files)
+  timeline?: TimelineEvent[]  // Review-cycle events from opening to merge (absent in older files)
+  // Open PRs only: current phase at collection time and requested reviewers yet to review (teams as @slug)
+  waitingOn?: TimelinePhaseName | null
+  pendingReviewers?: string[]
+}
+
+// Open or closed-without-merge PR, collected with --include-open / --include-closed
+export interface UnmergedPRDetail extends Omit<PRDetail, 'status' | 'mergedAt'> {
+  status: 'open' | 'closed'
+  mergedAt: null
+}
+
+// Collector file categories (config.fileCategories); prod is anything no category matches
+export type FileCategory = 'prod' | 'test' | 'lockfile' | 'generated' | 'snapshot' | 'migration' | 'docs'
+
+export interface CategoryChanges {
+  additions: number
+  deletions: number
+  files: number
+}
+
+// One file changed by a PR
+export interface FileChange {
+  path: string
+  additions: number
+  deletions: number
+  category: FileCategory
+  commits: number          // Commits in the PR touching the file
+  reworkAdditions: number  // Lines added by commits after the first one touching the file
+  comments: number         // Inline review comments on the file (not the author's or bots')
+  owners?: string[]        // CODEOWNERS owners ([] = unowned); absent when the repo has no CODEOWNERS
+}
+
+export interface CommitSummary {
+  sha: string
+  date: string
+  additions: number
+  deletions: number
+  filesChanged: number
 }
 
 export interface ReviewerSummary {
@@ -48,16 +125,28 @@ export interface ReviewerSummary {
   noCommentApprovalPct: number
   totalInlineComments: number
   totalConversationComments: number
-  // Response times are calendar hours from PR open to first activity
+  // Response times are working hours from review request (PR open if unrequested) to first activity
   medianResponseHours: string | null
   p90ResponseHours: string | null
   fastestResponseHours: string | null
+  // Same, from PR open (absent in older files, where the fields above are already from PR open)
+  medianResponseFromOpenHours?: string | null
+  p90ResponseFromOpenHours?: string | null
   avgPrSizeReviewed: number
   avgPrProdLinesReviewed: number
   avgPrTestLinesReviewed: number
   avgIterationsPerPr: string
   avgReviewedPrCloseTime: string | null  // Calendar hours
   prsWithMultipleRounds: number
+  // Comments by kind and reviews with a suggestion, blocking point or question (absent in older files)
+  suggestionComments?: number
+  nitComments?: number
+  blockingComments?: number
+  questionComments?: number
+  praiseComments?: number
+  otherComments?: number
+  substantiveReviews?: number
+  substantiveReviewPct?: number
   [key: string]: string | number | null | undefined // For repo-specific columns
 }
 
@@ -74,6 +163,10 @@ export interface AuthorSummary {
   authoredPrAvgCommits?: string
   authoredPrAvgChurnPct?: string
   authoredPrAvgFileChurn?: string
+  authoredPrAvgReviewRounds?: string | null     // Review rounds from the timeline
+  authoredPrAvgDraftTime?: string | null        // Working hours in draft
+  authoredPrAvgWaitingOnReviewer?: string | null  // Working hours waiting on reviewers
+  authoredPrAvgWaitingOnAuthor?: string | null    // Working hours waiting on the author
   [key: string]: string | number | null | undefined // For repo-specific columns
 }
 
@@ -84,6 +177,7 @@ export interface TeamSummary {
     avgPrSize: number
     avgProdLines: number
     avgTestLines: number
+    avgProdFiles?: number  // Absent in older files
     avgCloseTime: number | null  // Working hours
     avgIterations: number
     avgChurnPct: number
@@ -98,18 +192,258 @@ export interface TeamSummary {
     avgTestLinesReviewed: number
     medianResponseTime: number | null  // Working hours
     overallNoCommentPct: number
-    avgInlineComments: number
+    avgInlineComments: number  // Inline comments per review (the team's comments per review)
     avgIterationsPerPr: number
   }
 }
 
+// Winner of a developer card (fastest velocity, most responsive, top quality)
+export interface LeaderboardEntry {
+  name: string
+  value: number                         // Working hours, or a 0-100 score
+  sampleSize: number                    // PRs or reviews behind the value
+  interval: ConfidenceInterval | null   // 90% bootstrap interval of the value
+  smallSample: boolean                  // Nobody reached MIN_SAMPLE_SIZE; picked among developers with 2+
+}
+
+export type PeriodType = 'month' | 'quarter' | 'sprint' | 'custom'
+
+// Collection window; since/until are ISO timestamps (inclusive)
+export interface Period {
+  id: string
+  type: PeriodType
+  since: string
+  until: string
+}
+
 export interface MetricsData {
-  month: string
+  month: string  // Period id: YYYY-MM, YYYY-QN or YYYY-MM-DD_YYYY-MM-DD
+  period?: Period  // Optional for backward compatibility (monthly files before custom periods)
   org: string
   repos: string[]
   generatedAt: string
+  workingCalendar?: WorkingCalendar  // Calendar the collector used; absent in older files (default calendar)
+  qualityScoring?: QualityScoring  // Quality score profiles the collector was configured with; absent in older files (default profile)
   summary: ReviewerSummary[]
   authorSummary: AuthorSummary[]
   teamSummary?: TeamSummary  // Optional for backward compatibility
+  teams?: { [team: string]: string[] }  // Team -> canonical members (config and GitHub org teams)
+  teamRollups?: {
+    reviewers: ReviewerSummary[]  // One row per team, team name in `reviewer`
+    authors: AuthorSummary[]      // One row per team, team name in `author`
+  }
   details: PRDetail[]
+  unmergedDetails?: UnmergedPRDetail[]  // Only when open or closed PRs were collected; not in any summary
+  violations?: SlaReport  // SLA check of the collected data; only when the collector had SLA rules (config.slas)
+}
+
+export type SlaScope = 'pr' | 'reviewer' | 'team'
+
+// One PR, reviewer or the team over an SLA's max
+export interface SlaViolation {
+  subject: string      // repo#number, reviewer name, or 'team'
+  value: number
+  developer?: string   // PR author or the reviewer
+  title?: string       // PR violations only
+  url?: string         // PR violations only
+}
+
+export interface SlaResult {
+  id: string
+  metric: string   // e.g. firstResponseHours, prodLines, noCommentApprovalPct
+  label: string
+  scope: SlaScope
+  max: number      // Values above this break the SLA
+  checked: number  // PRs, reviewers (with enough reviews) or team values with a measured value
+  violations: SlaViolation[]  // Worst first
+}
+
+export interface SlaReport {
+  total: number  // Violations across all rules
+  rules: SlaResult[]
+}
+
+// Per-team metrics computed from (filtered) details
+export interface TeamRollup {
+  team: string
+  members: number
+  prsAuthored: number
+  avgCloseTime: number | null        // Working hours
+  totalReviews: number
+  medianResponseHours: number | null // Working hours
+  noCommentApprovalPct: number | null
+}
+
+// Review activity rolled up per directory or CODEOWNERS owner
+export interface Hotspot {
+  key: string              // repo/directory, or owner
+  prs: number              // PRs touching it
+  files: number            // Distinct files changed
+  linesChanged: number
+  comments: number         // Inline review comments
+  reworkAdditions: number
+  churnedFiles: number     // File changes touched by more than one commit
+  avgIterations: number    // Average review iterations of the PRs touching it
+}
+
+// Review activity of one file across PRs
+export interface FileHotspot {
+  repo: string
+  path: string
+  prs: number
+  commits: number
+  reworkAdditions: number
+  comments: number
+  linesChanged: number
+}
+
+// A reviewer's current load and the areas they know, from recent months (lib/reviewer-load.ts)
+export interface ReviewerLoad {
+  reviewer: string
+  openQueue: number      // Open PRs waiting on their review at the latest collection
+  recentReviews: number  // Reviews submitted in the recent window before the latest collection
+  familiarity: { [area: string]: number }  // Area (repo, or repo/dir) -> PRs they reviewed touching it
+}
+
+// Candidate reviewer for a PR: familiarity with its changed areas, discounted by current load
+export interface SuggestedReviewer {
+  reviewer: string
+  score: number
+  familiarity: number  // Depth-weighted count of reviewed PRs touching the PR's areas
+  openQueue: number
+  recentReviews: number
+}
+
+export interface ReviewerSuggestions {
+  months: string[]  // Monthly files the history came from, oldest first
+  suggestions: SuggestedReviewer[]
+}
+
+// How evenly reviews are spread across reviewers
+export interface ReviewConcentration {
+  reviewers: number
+  totalReviews: number
+  gini: number | null     // 0 = evenly spread, towards 1 = one person does them all
+  topReviewers: string[]  // The top two reviewers by reviews
+  topShare: number | null // Percent of reviews by the top two
+}
+
+// Closed-without-merge share of finished PRs for one author or repo
+export interface AbandonmentRate {
+  key: string  // Author or repo
+  merged: number
+  abandoned: number
+  rate: number | null  // abandoned / (merged + abandoned), as a percentage
+}
+
+// Per-developer values for a single month in a trend series
+export interface DeveloperTrendPoint {
+  month: string
+  prsAuthored: number
+  avgCloseTime: number | null        // Working hours to merge
+  avgReviewTime: number | null       // Working hours to first response
+  totalReviews: number
+  medianResponseHours: number | null // Working hours
+  noCommentApprovalPct: number | null
+}
+
+// Team summary for a single month in a trend series
+export interface TrendPoint extends TeamSummary {
+  month: string
+}
+
+export interface TrendsData {
+  from: string
+  to: string
+  months: string[]
+  team: TrendPoint[]
+  developers: { [developer: string]: DeveloperTrendPoint[] }
+}
+
+// Who reviews whom across a range of months (/api/network)
+export interface ReviewNetworkNode {
+  developer: string
+  prsAuthored: number
+  reviewsGiven: number
+  reviewers: number          // Distinct people who reviewed their PRs
+  singleReviewer: boolean    // Several reviewed PRs, all reviewed by the same one person
+}
+
+// Reviews by `reviewer` on PRs authored by `author`
+export interface ReviewNetworkEdge {
+  reviewer: string
+  author: string
+  prs: number
+  reviews: number
+  comments: number           // Inline and conversation comments on those PRs
+  changesRequested: number
+  weight: number             // reviews + changesRequested + comments / 4
+  reciprocal: boolean        // The author also reviews the reviewer's PRs
+  siloed: boolean            // The pair accounts for most of the author's reviews or of the reviewer's
+}
+
+export interface ReviewNetwork {
+  from: string
+  to: string
+  months: string[]
+  nodes: ReviewNetworkNode[]
+  edges: ReviewNetworkEdge[]
+}
+
+// Aggregates served from the optional SQLite store (/api/db/*)
+// Durations are working hours; windows are inclusive local dates (YYYY-MM-DD)
+export interface DbAuthorStats {
+  author: string
+  prsAuthored: number
+  avgPrSize: number
+  avgProdLines: number
+  avgTestLines: number
+  avgCloseTime: number | null
+  avgReviewTime: number | null
+  avgIterations: number
+  avgCommits: number
+  avgChurnPct: number
+}
+
+export interface DbReviewerStats {
+  reviewer: string
+  totalReviews: number
+  prsReviewed: number
+  approvals: number
+  changesRequested: number
+  noCommentApprovals: number
+  noCommentApprovalPct: number
+  totalInlineComments: number
+  totalConversationComments: number
+  medianResponseHours: number | null
+  p90ResponseHours: number | null
+}
+
+export interface DbDeveloperStats {
+  since: string
+  until: string
+  repo: string | null
+  authors: DbAuthorStats[]
+  reviewers: DbReviewerStats[]
+}
+
+export type DbTrendGranularity = 'month' | 'week'
+
+export interface DbTrendPoint {
+  period: string  // YYYY-MM or YYYY-Www (UTC buckets)
+  totalPRs: number
+  avgPrSize: number | null
+  avgCloseTime: number | null
+  avgChurnPct: number | null
+  totalReviews: number
+  medianResponseTime: number | null
+  noCommentApprovalPct: number | null
+}
+
+export interface DbTrendsData {
+  since: string
+  until: string
+  granularity: DbTrendGranularity
+  developer: string | null  // When set, authored values are the developer's PRs and review values their reviews
+  points: DbTrendPoint[]
 }
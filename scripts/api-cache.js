@@ -0,0 +1,39 @@
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { createHash } from 'crypto'
+import { join } from 'path'
+
+// On-disk cache of GitHub API responses, one JSON file per endpoint
+// Entries: { endpoint, etag, updatedAt, cachedAt, data }
+export function createApiCache({ dir, enabled = true }) {
+  const stats = { hits: 0, revalidated: 0, misses: 0 }
+  let dirReady = null
+
+  const pathFor = (endpoint) => {
+    const key = createHash('sha1').update(endpoint).digest('hex')
+    return join(dir, `${key}.json`)
+  }
+
+  const ensureDir = () => {
+    if (!dirReady) dirReady = mkdir(dir, { recursive: true })
+    return dirReady
+  }
+
+  async function get(endpoint) {
+    if (!enabled) return null
+    try {
+      const entry = JSON.parse(await readFile(pathFor(endpoint), 'utf-8'))
+      return entry.endpoint === endpoint ? entry : null
+    } catch (error) {
+      return null // Missing or corrupt entries are treated as a miss
+    }
+  }
+
+  async function set(endpoint, { data, etag = null, updatedAt = null }) {
+    if (!enabled) return
+    await ensureDir()
+    const entry = { endpoint, etag, updatedAt, cachedAt: new Date().toISOString(), data }
+    await writeFile(pathFor(endpoint), JSON.stringify(entry))
+  }
+
+  return { enabled, stats, get, set }
+}
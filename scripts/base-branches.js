@@ -0,0 +1,17 @@
+import { globToRegExp } from './glob.js'
+
+// Target branches whose PRs are collected (config.baseBranches)
+// default: patterns for repos without their own entry
+// repos:   repo -> patterns, e.g. { 'be-revamp': ['develop', 'release/*'] }
+// Patterns are branch names or globs: `*` matches within one path segment, `**` across segments
+
+// Patterns for one repo; an override (--base-branches) applies to every repo
+export function getBaseBranchPatterns({ default: defaults = ['main'], repos = {} } = {}, repo, override = null) {
+  return override ?? repos[repo] ?? defaults
+}
+
+// Predicate telling whether a PR's base branch is one of the patterns
+export function createBaseBranchMatcher(patterns) {
+  const expressions = patterns.map(globToRegExp)
+  return (branch) => Boolean(branch) && expressions.some(expression => expression.test(branch))
+}
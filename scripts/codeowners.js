@@ -0,0 +1,27 @@
+import { pathPatternToRegExp } from './glob.js'
+
+// CODEOWNERS parsing and matching
+// Like on GitHub, the last matching pattern decides a file's owners, and a pattern with no owners
+// leaves the file unowned. Patterns follow gitignore rules (see pathPatternToRegExp)
+
+// Locations GitHub reads CODEOWNERS from, in order
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS']
+
+// Rules ({ pattern, owners, expression }) from a CODEOWNERS file, in file order
+export function parseCodeowners(text) {
+  const rules = []
+  for (const line of text.split(/\r?\n/)) {
+    const [pattern, ...owners] = line.replace(/(^|\s)#.*$/, '').trim().split(/\s+/)
+    if (!pattern) continue
+    rules.push({ pattern, owners, expression: pathPatternToRegExp(pattern) })
+  }
+  return rules
+}
+
+// Owners of a path (e.g. ['@org/web', '@alice']); [] when unowned
+export function getCodeowners(rules, path) {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].expression.test(path)) return rules[i].owners
+  }
+  return []
+}
@@ -1,11 +1,36 @@
 import { exec } from 'child_process'
 import { promisify } from 'util'
-import { writeFile, mkdir } from 'fs/promises'
+import { writeFile, readFile, mkdir, rm } from 'fs/promises'
 import { join } from 'path'
 import config from './config.js'
+import { createApiCache } from './api-cache.js'
+import { fetchMergedPRsGraphQL } from './graphql-fetcher.js'
+import { createStorage } from './storage.js'
+import { openMetricsStore } from './sqlite-store.js'
+import { createTeamDirectory, applyIdentities, importGitHubTeams } from './teams.js'
+import { getBaseBranchPatterns, createBaseBranchMatcher } from './base-branches.js'
+import { searchInWindows, SEARCH_RESULT_CAP } from './pr-search.js'
+import { CODEOWNERS_PATHS, parseCodeowners, getCodeowners } from './codeowners.js'
+import { createFileClassifier } from './file-categories.js'
+import { classifyComment } from './comment-classifier.js'
+import { validateSlaRules, evaluateSlas } from './sla.js'
+import { buildReviewTimeline, assignRequestTimes, getPendingReviewers } from './review-timeline.js'
+import { calculateWorkingHours as calculateCalendarWorkingHours } from '../shared/working-calendar.js'
+import { getPRKey } from '../shared/pr-key.js'
+import { getTimelinePhases } from '../shared/review-timeline.js'
+import { calculateReviewerSummary, calculateAuthorSummary, calculateTeamSummary, calculateTeamRollups } from '../shared/metrics-engine.js'
 
 const execAsync = promisify(exec)
 
+// API response cache (initialized in main once CLI flags are known)
+let apiCache = createApiCache({ dir: join(config.cacheDir, 'api'), enabled: false })
+
+// repo -> CODEOWNERS rules (filled in main; no entry when the repo has no CODEOWNERS file)
+const codeownersByRepo = new Map()
+
+// Developer identities (config.teams aliases) and teams; main may add GitHub org teams
+const teamDirectory = createTeamDirectory(config.teams)
+
 // Parse CLI arguments
 function parseArgs() {
   const args = process.argv.slice(2)
@@ -14,7 +39,8 @@ function parseArgs() {
   for (const arg of args) {
     const [key, value] = arg.split('=')
     if (key.startsWith('--')) {
-      parsed[key.slice(2)] = value
+      // Bare flags (e.g. --sprint) are recorded as true
+      parsed[key.slice(2)] = value ?? true
     }
   }
   
@@ -37,70 +63,117 @@ function getTargetMonth(monthArg) {
   return `${year}-${month}`
 }
 
-// Sleep utility for retries
-const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+// Format a Date as YYYY-MM-DD in local time
+function formatDate(date) {
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
 
-// Calculate working hours between two timestamps
-// Removes: 16 hours per night (6pm-10am) and full weekends (48h Sat+Sun)
-function calculateWorkingHours(startISO, endISO) {
-  const start = new Date(startISO)
-  const end = new Date(endISO)
+// Parse a YYYY-MM-DD argument as local midnight
+function parseDateArg(value, name) {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`--${name} must be in YYYY-MM-DD format`)
+  }
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// Build a collection window from inclusive local start/end days
+function buildPeriod(id, type, startDay, endDay) {
+  const since = new Date(startDay.getFullYear(), startDay.getMonth(), startDay.getDate())
+  const until = new Date(endDay.getFullYear(), endDay.getMonth(), endDay.getDate(), 23, 59, 59, 999)
+  return { id, type, since: since.toISOString(), until: until.toISOString() }
+}
+
+// Get the sprint containing a date, based on the configured sprint anchor and length
+function getSprintPeriod(sprintArg) {
+  const anchor = parseDateArg(config.sprint.anchorDate, 'sprint anchorDate')
+  const lengthDays = config.sprint.lengthDays
   
-  if (end <= start) return 0
+  let reference
+  if (sprintArg === true || sprintArg === 'previous') {
+    reference = new Date()
+    reference.setDate(reference.getDate() - lengthDays)
+  } else if (sprintArg === 'current') {
+    reference = new Date()
+  } else {
+    reference = parseDateArg(sprintArg, 'sprint')
+  }
   
-  const MS_PER_HOUR = 1000 * 60 * 60
-  const totalCalendarHours = (end - start) / MS_PER_HOUR
+  // Whole days between anchor and reference (rounded to absorb DST shifts)
+  const MS_PER_DAY = 1000 * 60 * 60 * 24
+  const daysFromAnchor = Math.round((reference - anchor) / MS_PER_DAY)
+  const sprintIndex = Math.floor(daysFromAnchor / lengthDays)
   
-  let hoursToRemove = 0
+  const start = new Date(anchor)
+  start.setDate(start.getDate() + sprintIndex * lengthDays)
+  const end = new Date(start)
+  end.setDate(end.getDate() + lengthDays - 1)
   
-  // Walk day by day
-  const currentDay = new Date(start)
-  currentDay.setHours(0, 0, 0, 0) // Start of the day
+  return buildPeriod(`${formatDate(start)}_${formatDate(end)}`, 'sprint', start, end)
+}
+
+// Get a calendar quarter (defaults to the previous quarter)
+function getQuarterPeriod(quarterArg) {
+  let year
+  let quarter
   
-  while (currentDay < end) {
-    const dayOfWeek = currentDay.getDay() // 0=Sun, 6=Sat
-    const dayStart = new Date(currentDay)
-    const dayEnd = new Date(currentDay)
-    dayEnd.setDate(dayEnd.getDate() + 1)
-    
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      // Weekend day: remove all overlapping hours
-      const overlapStart = Math.max(start.getTime(), dayStart.getTime())
-      const overlapEnd = Math.min(end.getTime(), dayEnd.getTime())
-      if (overlapEnd > overlapStart) {
-        hoursToRemove += (overlapEnd - overlapStart) / MS_PER_HOUR
-      }
-    } else {
-      // Weekday: remove night hours (6pm to 10am next day = 16 hours)
-      // Evening: 6pm (18:00) to midnight
-      const eveningStart = new Date(currentDay)
-      eveningStart.setHours(18, 0, 0, 0)
-      const eveningEnd = new Date(dayEnd)
-      
-      const eveningOverlapStart = Math.max(start.getTime(), eveningStart.getTime())
-      const eveningOverlapEnd = Math.min(end.getTime(), eveningEnd.getTime())
-      if (eveningOverlapEnd > eveningOverlapStart) {
-        hoursToRemove += (eveningOverlapEnd - eveningOverlapStart) / MS_PER_HOUR
-      }
-      
-      // Morning: midnight to 10am
-      const morningStart = new Date(dayStart)
-      const morningEnd = new Date(currentDay)
-      morningEnd.setHours(10, 0, 0, 0)
-      
-      const morningOverlapStart = Math.max(start.getTime(), morningStart.getTime())
-      const morningOverlapEnd = Math.min(end.getTime(), morningEnd.getTime())
-      if (morningOverlapEnd > morningOverlapStart) {
-        hoursToRemove += (morningOverlapEnd - morningOverlapStart) / MS_PER_HOUR
-      }
+  if (quarterArg === true) {
+    const now = new Date()
+    const currentQuarter = Math.floor(now.getMonth() / 3) + 1
+    year = currentQuarter === 1 ? now.getFullYear() - 1 : now.getFullYear()
+    quarter = currentQuarter === 1 ? 4 : currentQuarter - 1
+  } else {
+    const match = /^(\d{4})-Q([1-4])$/.exec(quarterArg)
+    if (!match) {
+      throw new Error('Quarter must be in YYYY-QN format (e.g. 2026-Q1)')
     }
-    
-    currentDay.setDate(currentDay.getDate() + 1)
+    year = Number(match[1])
+    quarter = Number(match[2])
+  }
+  
+  const start = new Date(year, (quarter - 1) * 3, 1)
+  const end = new Date(year, quarter * 3, 0)
+  return buildPeriod(`${year}-Q${quarter}`, 'quarter', start, end)
+}
+
+// Resolve the collection window from CLI arguments (defaults to previous month)
+// Precedence: --since/--until, --sprint, --quarter, --month
+function getTargetPeriod(args) {
+  if (args.since || args.until) {
+    if (!args.since || !args.until) {
+      throw new Error('--since and --until must be used together')
+    }
+    const start = parseDateArg(args.since, 'since')
+    const end = parseDateArg(args.until, 'until')
+    if (end < start) {
+      throw new Error('--until must not be before --since')
+    }
+    return buildPeriod(`${args.since}_${args.until}`, 'custom', start, end)
   }
   
-  return Math.max(0, totalCalendarHours - hoursToRemove)
+  if (args.sprint) return getSprintPeriod(args.sprint)
+  if (args.quarter) return getQuarterPeriod(args.quarter)
+  
+  const targetMonth = getTargetMonth(args.month)
+  const [year, month] = targetMonth.split('-').map(Number)
+  return buildPeriod(targetMonth, 'month', new Date(year, month - 1, 1), new Date(year, month, 0))
 }
 
+// Sleep utility for retries
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+
+// Working hours between two timestamps under config.workingCalendar
+// Pass a login to measure in that developer's calendar (timezone/holiday override)
+function calculateWorkingHours(startISO, endISO, login = null) {
+  return calculateCalendarWorkingHours(startISO, endISO, config.workingCalendar, login)
+}
+
+// A 404 from gh api is final (e.g. an optional file that does not exist), so it is not retried
+const isNotFound = (error) => /HTTP 404/.test(error.stderr || error.message)
+
 // Execute gh CLI command with retry logic
 async function ghApiWithRetry(endpoint, paginate = false) {
   for (let attempt = 0; attempt < config.maxRetries; attempt++) {
@@ -111,7 +184,7 @@ async function ghApiWithRetry(endpoint, paginate = false) {
       })
       return JSON.parse(stdout)
     } catch (error) {
-      const isLastAttempt = attempt === config.maxRetries - 1
+      const isLastAttempt = attempt === config.maxRetries - 1 || isNotFound(error)
       
       if (isLastAttempt) {
         console.error(`❌ Failed after ${config.maxRetries} attempts: ${endpoint}`)
@@ -125,6 +198,96 @@ async function ghApiWithRetry(endpoint, paginate = false) {
   }
 }
 
+// Split `gh api -i` output into status, headers and parsed JSON body
+function parseIncludeOutput(stdout) {
+  const match = /\r?\n\r?\n/.exec(stdout)
+  const head = match ? stdout.slice(0, match.index) : stdout
+  const body = match ? stdout.slice(match.index + match[0].length) : ''
+  const [statusLine, ...headerLines] = head.split(/\r?\n/)
+  const status = parseInt(statusLine.split(' ')[1], 10)
+  
+  const headers = {}
+  for (const line of headerLines) {
+    const idx = line.indexOf(':')
+    if (idx > 0) {
+      headers[line.slice(0, idx).trim().toLowerCase()] = line.slice(idx + 1).trim()
+    }
+  }
+  
+  return { status, headers, data: body.trim() ? JSON.parse(body) : null }
+}
+
+// Fetch a single (non-paginated) endpoint with If-None-Match revalidation
+// Returns { status, etag, data }; a 304 does not count against the rate limit
+async function ghApiConditional(endpoint, etag) {
+  for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+    let stdout
+    try {
+      const headerFlag = etag ? `-H "If-None-Match: ${etag.replace(/"/g, '\\"')}"` : ''
+      const result = await execAsync(`gh api -i ${headerFlag} "${endpoint}"`, {
+        maxBuffer: 50 * 1024 * 1024 // 50MB buffer
+      })
+      stdout = result.stdout
+    } catch (error) {
+      // gh exits non-zero on 304 Not Modified but still prints the response head
+      if (error.stdout && /^HTTP\/\S+ 304/.test(error.stdout)) {
+        stdout = error.stdout
+      } else {
+        const isLastAttempt = attempt === config.maxRetries - 1 || isNotFound(error)
+        
+        if (isLastAttempt) {
+          console.error(`❌ Failed after ${config.maxRetries} attempts: ${endpoint}`)
+          throw error
+        }
+        
+        const delayMs = config.retryDelayMs * Math.pow(2, attempt)
+        console.warn(`⚠️  Attempt ${attempt + 1} failed, retrying in ${delayMs}ms...`)
+        await sleep(delayMs)
+        continue
+      }
+    }
+    
+    const { status, headers, data } = parseIncludeOutput(stdout)
+    return { status, etag: headers.etag || null, data }
+  }
+}
+
+// Fetch an endpoint through the on-disk cache
+// - immutable: cached entries never expire (e.g. commit details by SHA)
+// - updatedAt: cached entries are served while the owning PR's updated_at is unchanged
+// - otherwise non-paginated entries are revalidated with their ETag
+async function ghApiCached(endpoint, { paginate = false, updatedAt = null, immutable = false } = {}) {
+  if (!apiCache.enabled) {
+    return ghApiWithRetry(endpoint, paginate)
+  }
+  
+  const cached = await apiCache.get(endpoint)
+  
+  if (cached && (immutable || (updatedAt && cached.updatedAt === updatedAt))) {
+    apiCache.stats.hits++
+    return cached.data
+  }
+  
+  if (paginate) {
+    apiCache.stats.misses++
+    const data = await ghApiWithRetry(endpoint, true)
+    await apiCache.set(endpoint, { data, updatedAt })
+    return data
+  }
+  
+  const response = await ghApiConditional(endpoint, cached?.etag)
+  
+  if (response.status === 304 && cached) {
+    apiCache.stats.revalidated++
+    await apiCache.set(endpoint, { data: cached.data, etag: cached.etag, updatedAt })
+    return cached.data
+  }
+  
+  apiCache.stats.misses++
+  await apiCache.set(endpoint, { data: response.data, etag: response.etag, updatedAt })
+  return response.data
+}
+
 // Check GitHub API rate limit
 async function checkRateLimit() {
   try {
@@ -133,6 +296,9 @@ async function checkRateLimit() {
     const resetTime = new Date(data.resources.core.reset * 1000)
     
     console.log(`📊 API Rate Limit: ${remaining} calls remaining (resets at ${resetTime.toLocaleTimeString()})`)
+    if (data.resources.graphql) {
+      console.log(`📊 GraphQL Rate Limit: ${data.resources.graphql.remaining} points remaining`)
+    }
     
     if (remaining < config.rateLimitWarningThreshold) {
       console.warn(`⚠️  Low API calls remaining: ${remaining}`)
@@ -145,92 +311,114 @@ async function checkRateLimit() {
   }
 }
 
+// Fetch per-file details for a list of commits ({ sha, date })
+// Commits whose details cannot be fetched are skipped
+async function fetchCommitDetails(org, repo, commits) {
+  const detailed = []
+  for (const commit of commits) {
+    try {
+      // Commit details are immutable per SHA
+      const detail = await ghApiCached(
+        `repos/${org}/${repo}/commits/${commit.sha}`,
+        { immutable: true }
+      )
+      detailed.push({
+        sha: commit.sha,
+        date: commit.date,
+        files: (detail.files || []).map(f => ({
+          filename: f.filename,
+          additions: f.additions || 0,
+          deletions: f.deletions || 0,
+          status: f.status
+        }))
+      })
+    } catch (error) {
+      console.warn(`      Warning: Could not fetch commit details for ${commit.sha.slice(0, 7)}`)
+    }
+  }
+  return detailed
+}
+
 // Fetch commits for a PR with detailed file information
-async function fetchPRCommits(org, repo, prNumber) {
+async function fetchPRCommits(org, repo, prNumber, updatedAt) {
   try {
-    const commits = await ghApiWithRetry(
+    const commits = await ghApiCached(
       `repos/${org}/${repo}/pulls/${prNumber}/commits`,
-      true
+      { paginate: true, updatedAt }
     )
     
-    const detailed = []
-    for (const commit of commits) {
-      try {
-        const detail = await ghApiWithRetry(
-          `repos/${org}/${repo}/commits/${commit.sha}`
-        )
-        detailed.push({
-          sha: commit.sha,
-          date: commit.commit.author.date,
-          files: (detail.files || []).map(f => ({
-            filename: f.filename,
-            additions: f.additions || 0,
-            deletions: f.deletions || 0,
-            status: f.status
-          }))
-        })
-      } catch (error) {
-        console.warn(`      Warning: Could not fetch commit details for ${commit.sha.slice(0, 7)}`)
-      }
-    }
-    return detailed
+    return await fetchCommitDetails(
+      org,
+      repo,
+      commits.map(commit => ({ sha: commit.sha, date: commit.commit.author.date }))
+    )
   } catch (error) {
     console.warn(`      Warning: Could not fetch commits for PR #${prNumber}`)
     return []
   }
 }
 
+// CODEOWNERS rules from a repo's default branch; null when it has none
+async function fetchCodeowners(org, repo) {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      const file = await ghApiCached(`repos/${org}/${repo}/contents/${path}`)
+      return parseCodeowners(Buffer.from(file.content, 'base64').toString('utf-8'))
+    } catch (error) {
+      if (!isNotFound(error)) {
+        console.warn(`   ⚠️  Could not fetch ${path} for ${repo}: ${error.message}`)
+      }
+    }
+  }
+  return null
+}
+
 // Calculate churn metrics from commits
 // Churn = lines added to files that were already modified in previous commits
+// files: filename -> { commits, reworkAdditions } (commits touching the file and its churned lines)
 function calculateChurnMetrics(commits) {
-  if (!commits || commits.length <= 1) {
-    return { churnPercentage: 0, fileChurnCount: 0 }
-  }
-  
-  const fileSeenInCommit = new Map() // filename -> Set<commitIndex>
+  const files = new Map()
   let totalAdditions = 0
   let reWorkAdditions = 0
   
-  commits.forEach((commit, idx) => {
+  for (const commit of commits || []) {
     for (const file of commit.files) {
       totalAdditions += file.additions
       
-      if (!fileSeenInCommit.has(file.filename)) {
-        fileSeenInCommit.set(file.filename, new Set())
+      if (!files.has(file.filename)) {
+        files.set(file.filename, { commits: 0, reworkAdditions: 0 })
       }
       
-      const seen = fileSeenInCommit.get(file.filename)
-      if (seen.size > 0) {
+      const churn = files.get(file.filename)
+      if (churn.commits > 0) {
         // File was touched in a previous commit - this is re-work
+        churn.reworkAdditions += file.additions
         reWorkAdditions += file.additions
       }
-      seen.add(idx)
+      churn.commits++
     }
-  })
+  }
   
-  const fileChurnCount = Array.from(fileSeenInCommit.values())
-    .filter(s => s.size > 1).length
+  const fileChurnCount = Array.from(files.values())
+    .filter(churn => churn.commits > 1).length
   
   return {
     churnPercentage: totalAdditions > 0
       ? parseFloat((reWorkAdditions / totalAdditions * 100).toFixed(1))
       : 0,
-    fileChurnCount
+    fileChurnCount,
+    files
   }
 }
 
-// Check if file is a test file
-function isTestFile(filename) {
-  return config.testFilePatterns.some(pattern => {
-    if (pattern.endsWith('/')) {
-      return filename.includes(pattern)
-    }
-    return filename.includes(pattern)
-  })
+// Check if a GitHub user ({ login, type }) is a bot or automation account
+function isBotUser(user) {
+  return user?.type === 'Bot' || config.botLogins.includes(user?.login)
 }
 
-// Classify file changes as test or production
-function classifyFileChanges(files) {
+// Line counts by file category (classify: path -> category, see file-categories.js)
+// prod and test totals are kept as top-level fields; every category with changes is in changesByCategory
+function classifyFileChanges(files, classify) {
   const result = {
     totalAdditions: 0,
     totalDeletions: 0,
@@ -240,202 +428,416 @@ function classifyFileChanges(files) {
     testDeletions: 0,
     filesChanged: files.length,
     testFilesChanged: 0,
-    prodFilesChanged: 0
+    prodFilesChanged: 0,
+    changesByCategory: {}
   }
   
   for (const file of files) {
     result.totalAdditions += file.additions
     result.totalDeletions += file.deletions
     
-    if (isTestFile(file.filename)) {
+    const category = classify(file.filename)
+    if (category === 'test') {
       result.testAdditions += file.additions
       result.testDeletions += file.deletions
       result.testFilesChanged++
-    } else {
+    } else if (category === 'prod') {
       result.prodAdditions += file.additions
       result.prodDeletions += file.deletions
       result.prodFilesChanged++
     }
+    
+    if (!result.changesByCategory[category]) {
+      result.changesByCategory[category] = { additions: 0, deletions: 0, files: 0 }
+    }
+    const changes = result.changesByCategory[category]
+    changes.additions += file.additions
+    changes.deletions += file.deletions
+    changes.files++
   }
   
   return result
 }
 
-// Fetch PRs merged in target month
-async function fetchMergedPRs(org, repo, targetMonth) {
-  console.log(`📥 Fetching PRs for ${repo}...`)
+// One page of REST issue search results (100 per page, up to the search result cap)
+async function searchIssuesPage(query, page) {
+  const pageNumber = page ?? 1
+  const data = await ghApiWithRetry(`search/issues?q=${encodeURIComponent(query)}&per_page=100&page=${pageNumber}`)
+  
+  // A search that timed out returns partial results; better to list PRs than to miss some
+  if (data.incomplete_results) {
+    throw new Error('search returned incomplete results')
+  }
+  
+  const hasMore = data.items.length === 100 && pageNumber * 100 < Math.min(data.total_count, SEARCH_RESULT_CAP)
+  return { total: data.total_count, items: data.items, next: hasMore ? pageNumber + 1 : null }
+}
+
+// Find PRs merged (and, with include.closed, closed without merging) in the period with the search API
+// Plain branch names are searched with base:; glob patterns cannot be, so those results are
+// looked up through pulls/{number} for their base branch
+// Returns pulls-list shaped entries
+async function searchEndedPRs(org, repo, period, include, baseBranches) {
+  const isBaseBranch = createBaseBranchMatcher(baseBranches)
+  const names = baseBranches.filter(pattern => !pattern.includes('*'))
+  const bases = names.length === baseBranches.length ? names : [...names, null]
+  const searches = [
+    { qualifiers: 'is:merged', dateField: 'merged' },
+    ...(include.closed ? [{ qualifiers: 'is:closed is:unmerged', dateField: 'closed' }] : [])
+  ]
   
-  const [year, month] = targetMonth.split('-')
-  const startDate = new Date(year, month - 1, 1)
-  const endDate = new Date(year, month, 0, 23, 59, 59)
+  const found = new Map() // number -> PR
+  for (const { qualifiers, dateField } of searches) {
+    for (const base of bases) {
+      const items = await searchInWindows(
+        { page: searchIssuesPage },
+        (since, until) => `repo:${org}/${repo} is:pr ${qualifiers} ${dateField}:${since}..${until}${base ? ` base:${base}` : ''}`,
+        period.since,
+        period.until
+      )
+      
+      for (const item of items) {
+        if (found.has(item.number)) continue
+        
+        // Issue results have no base branch (and older API versions no merged_at)
+        if (!base || (dateField === 'merged' && !item.pull_request?.merged_at)) {
+          const pr = await ghApiCached(`repos/${org}/${repo}/pulls/${item.number}`, { updatedAt: item.updated_at })
+          if (isBaseBranch(pr.base?.ref)) found.set(item.number, pr)
+          continue
+        }
+        
+        found.set(item.number, {
+          number: item.number,
+          title: item.title,
+          user: item.user,
+          state: item.state,
+          draft: item.draft,
+          base: { ref: base },
+          created_at: item.created_at,
+          merged_at: item.pull_request?.merged_at ?? null,
+          closed_at: item.closed_at,
+          updated_at: item.updated_at,
+          html_url: item.html_url
+        })
+      }
+    }
+  }
   
+  return Array.from(found.values())
+}
+
+// List closed PRs (most recently updated first) and keep those targeting the base branches
+// Fallback discovery: pages through every closed PR in the repo
+async function listEndedPRs(org, repo, isBaseBranch) {
   const prs = await ghApiWithRetry(
     `repos/${org}/${repo}/pulls?state=closed&sort=updated&direction=desc&per_page=100`,
     true
   )
+  return prs.filter(pr => isBaseBranch(pr.base?.ref))
+}
+
+// Fetch PRs merged into one of the base branches (names or globs) in the target period
+// include.closed adds PRs closed without merging in the period; include.open adds PRs still open
+// (created before the period ended)
+// discovery 'search' finds merged and closed PRs with the search API, 'list' by listing closed PRs
+// (also used when the search fails)
+async function fetchMergedPRs(org, repo, period, include = {}, baseBranches = ['main'], discovery = 'search') {
+  console.log(`📥 Fetching PRs for ${repo}...`)
+  
+  const startDate = new Date(period.since)
+  const endDate = new Date(period.until)
+  const inPeriod = (timestamp) => new Date(timestamp) >= startDate && new Date(timestamp) <= endDate
+  const isBaseBranch = createBaseBranchMatcher(baseBranches)
+  
+  let basePRs = null
+  if (discovery === 'search') {
+    try {
+      basePRs = await searchEndedPRs(org, repo, period, include, baseBranches)
+    } catch (error) {
+      console.warn(`   ⚠️  PR search failed (${error.message}), listing closed PRs instead`)
+    }
+  }
+  if (!basePRs) {
+    basePRs = await listEndedPRs(org, repo, isBaseBranch)
+  }
   
-  // Filter for PRs merged in target month
-  const mergedPRs = prs.filter(pr => {
-    if (!pr.merged_at) return false
-    // Only include PRs targeting main branch
-    if (pr.base?.ref !== 'main') return false
-    const mergedDate = new Date(pr.merged_at)
-    return mergedDate >= startDate && mergedDate <= endDate
-  })
+  // Filter for PRs merged (or abandoned) in the target period
+  const mergedPRs = basePRs.filter(pr => pr.merged_at && inPeriod(pr.merged_at))
+  const closedPRs = include.closed
+    ? basePRs.filter(pr => !pr.merged_at && pr.closed_at && inPeriod(pr.closed_at))
+    : []
+  
+  let openPRs = []
+  if (include.open) {
+    const open = await ghApiWithRetry(`repos/${org}/${repo}/pulls?state=open&per_page=100`, true)
+    openPRs = open.filter(pr => isBaseBranch(pr.base?.ref) && new Date(pr.created_at) <= endDate)
+  }
   
-  console.log(`   Found ${mergedPRs.length} merged PRs in ${targetMonth}`)
+  console.log(`   Found ${mergedPRs.length} merged PRs in ${period.id}`)
+  if (include.closed) console.log(`   Found ${closedPRs.length} PRs closed without merging`)
+  if (include.open) console.log(`   Found ${openPRs.length} open PRs`)
   
-  return mergedPRs.map(pr => ({
+  return [...mergedPRs, ...closedPRs, ...openPRs].map(pr => ({
     repo,
     number: pr.number,
     title: pr.title,
     author: pr.user.login,
+    authorIsBot: isBotUser(pr.user),
+    status: pr.merged_at ? 'merged' : pr.state === 'open' ? 'open' : 'closed',
+    draft: pr.draft ?? false,
+    baseRef: pr.base.ref,
     createdAt: pr.created_at,
     mergedAt: pr.merged_at,
+    closedAt: pr.closed_at,
+    updatedAt: pr.updated_at,
     url: pr.html_url
   }))
 }
 
-// Process a single PR to gather all metrics
-async function processPR(org, pr, index, total) {
-  console.log(`   [${pr.repo}] Processing PR #${pr.number} (${index}/${total}): ${pr.title}`)
+// Fetch the raw data for one PR via the REST API
+// Shape (REST field names, shared with the GraphQL backend):
+// { files, reviews, reviewComments: { [reviewId]: comments[] }, conversationComments, timeline, commits }
+async function fetchPRDataRest(org, pr) {
+  // Fetch PR files
+  const files = await ghApiCached(`repos/${org}/${pr.repo}/pulls/${pr.number}/files`, { paginate: true, updatedAt: pr.updatedAt })
+  
+  // Fetch reviews
+  const reviews = await ghApiCached(`repos/${org}/${pr.repo}/pulls/${pr.number}/reviews`, { updatedAt: pr.updatedAt })
+  
+  // Fetch timeline (ready-for-review, review requests, pushes and merge for the review-cycle timeline)
+  const timeline = await ghApiCached(`repos/${org}/${pr.repo}/issues/${pr.number}/timeline`, { paginate: true, updatedAt: pr.updatedAt })
   
+  // Fetch PR conversation comments (general comments on the PR thread)
+  // These are separate from inline review comments and review body comments
+  let conversationComments = []
   try {
-    // Fetch PR files
-    const files = await ghApiWithRetry(`repos/${org}/${pr.repo}/pulls/${pr.number}/files`, true)
-    const fileMetrics = classifyFileChanges(files)
-    
-    // Fetch reviews
-    const reviews = await ghApiWithRetry(`repos/${org}/${pr.repo}/pulls/${pr.number}/reviews`)
-    
-    // Fetch timeline (we keep this for potential future use but don't use requestedAt anymore)
-    const timeline = await ghApiWithRetry(`repos/${org}/${pr.repo}/issues/${pr.number}/timeline`, true)
-    
-    // Fetch PR conversation comments (general comments on the PR thread)
-    // These are separate from inline review comments and review body comments
-    let prConversationComments = []
+    conversationComments = await ghApiCached(
+      `repos/${org}/${pr.repo}/issues/${pr.number}/comments`,
+      { paginate: true, updatedAt: pr.updatedAt }
+    )
+  } catch (error) {
+    console.warn(`      ⚠️  Could not fetch conversation comments for PR #${pr.number}`)
+  }
+  
+  // Fetch inline comments for each review
+  const reviewComments = {}
+  for (const review of reviews) {
     try {
-      prConversationComments = await ghApiWithRetry(
-        `repos/${org}/${pr.repo}/issues/${pr.number}/comments`,
-        true
+      reviewComments[review.id] = await ghApiCached(
+        `repos/${org}/${pr.repo}/pulls/${pr.number}/reviews/${review.id}/comments`,
+        { updatedAt: pr.updatedAt }
       )
     } catch (error) {
-      console.warn(`      ⚠️  Could not fetch conversation comments for PR #${pr.number}`)
+      console.warn(`      ⚠️  Could not fetch comments for review ${review.id}`)
+      reviewComments[review.id] = []
     }
-    
-    // Build a map of users to their conversation comment timestamps
-    const userConversationCommentTimestamps = new Map()
-    for (const comment of prConversationComments) {
-      const user = comment.user?.login
-      if (user) {
-        if (!userConversationCommentTimestamps.has(user)) {
-          userConversationCommentTimestamps.set(user, [])
-        }
-        userConversationCommentTimestamps.get(user).push(comment.created_at)
+  }
+  
+  // Fetch commits for churn analysis
+  const commits = await fetchPRCommits(org, pr.repo, pr.number, pr.updatedAt)
+  
+  return { files, reviews, reviewComments, conversationComments, timeline, commits }
+}
+
+// Build the PRDetail record from raw PR data (backend-independent)
+function buildPRDetail(pr, raw) {
+  const classify = createFileClassifier(config.fileCategories, pr.repo)
+  const fileMetrics = classifyFileChanges(raw.files, classify)
+  const authorIsBot = pr.authorIsBot || config.botLogins.includes(pr.author)
+  // The author's own activity, under any of their aliases, is never a response or a review of their PR
+  const author = teamDirectory.canonical(pr.author)
+  const isAuthor = (login) => teamDirectory.canonical(login) === author
+  
+  // Build a map of users to their conversation comment timestamps
+  const userConversationCommentTimestamps = new Map()
+  const botUsers = new Set()
+  // Conversation comments by people (bots left out), labelled by comment-classifier.js
+  const conversationComments = []
+  for (const comment of raw.conversationComments) {
+    const user = comment.user?.login
+    if (user) {
+      if (isBotUser(comment.user)) {
+        botUsers.add(user)
+      } else {
+        conversationComments.push({ author: user, body: comment.body || '', createdAt: comment.created_at, kind: classifyComment(comment.body) })
+      }
+      if (!userConversationCommentTimestamps.has(user)) {
+        userConversationCommentTimestamps.set(user, [])
       }
+      userConversationCommentTimestamps.get(user).push(comment.created_at)
+    }
+  }
+  
+  // Track all response timestamps for firstResponseAt calculation (excluding PR author)
+  const allResponseTimestamps = []
+  
+  // Inline review comments per file from people other than the author
+  const commentsByPath = new Map()
+  
+  // Add conversation comment timestamps from non-authors (bots do not count as a response)
+  for (const [user, timestamps] of userConversationCommentTimestamps) {
+    if (!isAuthor(user) && !botUsers.has(user)) {
+      allResponseTimestamps.push(...timestamps)
     }
+  }
+  
+  // Process each review
+  let processedReviews = []
+  for (const review of raw.reviews) {
+    const inlineComments = raw.reviewComments[review.id] || []
     
-    // Track all response timestamps for firstResponseAt calculation (excluding PR author)
-    const allResponseTimestamps = []
+    const reviewer = review.user.login
+    const isBot = isBotUser(review.user)
+    const submittedAt = review.submitted_at
     
-    // Add conversation comment timestamps from non-authors
-    for (const [user, timestamps] of userConversationCommentTimestamps) {
-      if (user !== pr.author) {
-        allResponseTimestamps.push(...timestamps)
-      }
+    // Collect all activity timestamps for this reviewer to find their firstActivityAt
+    const reviewerActivityTimestamps = []
+    
+    // Add review submission time
+    if (submittedAt) {
+      reviewerActivityTimestamps.push(submittedAt)
     }
     
-    // Process each review
-    const processedReviews = []
-    for (const review of reviews) {
-      // Fetch inline comments for this review
-      let inlineComments = []
-      try {
-        inlineComments = await ghApiWithRetry(
-          `repos/${org}/${pr.repo}/pulls/${pr.number}/reviews/${review.id}/comments`
-        )
-      } catch (error) {
-        console.warn(`      ⚠️  Could not fetch comments for review ${review.id}`)
+    // Add inline comment timestamps
+    for (const inlineComment of inlineComments) {
+      if (inlineComment.created_at) {
+        reviewerActivityTimestamps.push(inlineComment.created_at)
       }
-      
-      const reviewer = review.user.login
-      const submittedAt = review.submitted_at
-      
-      // Collect all activity timestamps for this reviewer to find their firstActivityAt
-      const reviewerActivityTimestamps = []
-      
-      // Add review submission time
-      if (submittedAt) {
-        reviewerActivityTimestamps.push(submittedAt)
-      }
-      
-      // Add inline comment timestamps
+    }
+    
+    // Add conversation comment timestamps for this reviewer
+    const conversationTimestamps = userConversationCommentTimestamps.get(reviewer) || []
+    reviewerActivityTimestamps.push(...conversationTimestamps)
+    
+    // Find the earliest activity timestamp for this reviewer
+    const firstActivityAt = reviewerActivityTimestamps.length > 0
+      ? reviewerActivityTimestamps.sort((a, b) => new Date(a) - new Date(b))[0]
+      : submittedAt
+    
+    // Add to global response timestamps if not the PR author or a bot
+    if (!isAuthor(reviewer) && !isBot) {
+      allResponseTimestamps.push(...reviewerActivityTimestamps)
       for (const inlineComment of inlineComments) {
-        if (inlineComment.created_at) {
-          reviewerActivityTimestamps.push(inlineComment.created_at)
+        if (inlineComment.path) {
+          commentsByPath.set(inlineComment.path, (commentsByPath.get(inlineComment.path) || 0) + 1)
         }
       }
-      
-      // Add conversation comment timestamps for this reviewer
-      const conversationTimestamps = userConversationCommentTimestamps.get(reviewer) || []
-      reviewerActivityTimestamps.push(...conversationTimestamps)
-      
-      // Find the earliest activity timestamp for this reviewer
-      const firstActivityAt = reviewerActivityTimestamps.length > 0
-        ? reviewerActivityTimestamps.sort((a, b) => new Date(a) - new Date(b))[0]
-        : submittedAt
-      
-      // Add to global response timestamps if not the PR author
-      if (reviewer !== pr.author) {
-        allResponseTimestamps.push(...reviewerActivityTimestamps)
-      }
-      
-      // Check for comments: review body, inline comments, OR conversation comments
-      const hasReviewBodyComment = review.body && review.body.trim().length > 0
-      const hasInlineComments = inlineComments.length > 0
-      const hasConversationComments = conversationTimestamps.length > 0
-      const hasComments = hasReviewBodyComment || hasInlineComments || hasConversationComments
-      
-      processedReviews.push({
-        reviewer,
-        state: review.state,
-        submittedAt,
-        firstActivityAt,
-        hasComments,
-        inlineCommentCount: inlineComments.length,
-        conversationCommentCount: conversationTimestamps.length,
-        body: review.body || ''
-      })
     }
     
-    // Calculate firstResponseAt: earliest activity by anyone other than the PR author
-    const firstResponseAt = allResponseTimestamps.length > 0
-      ? allResponseTimestamps.sort((a, b) => new Date(a) - new Date(b))[0]
-      : null
-    
-    // Calculate iteration count (total review submissions)
-    const iterationCount = processedReviews.length
+    // Check for comments: review body, inline comments, OR conversation comments
+    const hasReviewBodyComment = review.body && review.body.trim().length > 0
+    const hasInlineComments = inlineComments.length > 0
+    const hasConversationComments = conversationTimestamps.length > 0
+    const hasComments = hasReviewBodyComment || hasInlineComments || hasConversationComments
     
-    // Fetch commits for churn analysis
-    const commits = await fetchPRCommits(org, pr.repo, pr.number)
-    const churnMetrics = calculateChurnMetrics(commits)
-    
-    return {
-      ...pr,
-      ...fileMetrics,
-      iterationCount,
-      reviews: processedReviews,
-      // First response timestamp (for working hours calculation client-side)
-      firstResponseAt,
-      // Churn metrics
-      commitCount: commits.length || 1,
-      churnPercentage: churnMetrics.churnPercentage,
-      fileChurnCount: churnMetrics.fileChurnCount
+    processedReviews.push({
+      reviewer,
+      isBot,
+      state: review.state,
+      submittedAt,
+      firstActivityAt,
+      hasComments,
+      inlineCommentCount: inlineComments.length,
+      conversationCommentCount: conversationTimestamps.length,
+      body: review.body || '',
+      bodyKind: classifyComment(review.body),
+      inlineComments: inlineComments.map(comment => ({
+        path: comment.path,
+        body: comment.body || '',
+        createdAt: comment.created_at,
+        kind: classifyComment(comment.body)
+      }))
+    })
+  }
+  
+  // When each reviewer was asked for each review (from review_requested timeline events)
+  processedReviews = assignRequestTimes(processedReviews, raw.timeline)
+  
+  // Calculate firstResponseAt: earliest activity by anyone other than the PR author
+  const firstResponseAt = allResponseTimestamps.length > 0
+    ? allResponseTimestamps.sort((a, b) => new Date(a) - new Date(b))[0]
+    : null
+  
+  // Calculate iteration count (review submissions by people, not bots)
+  const iterationCount = processedReviews.filter(r => !r.isBot).length
+  
+  const churnMetrics = calculateChurnMetrics(raw.commits)
+  
+  // Review-cycle event sequence (phases and durations are derived from it)
+  const timeline = buildReviewTimeline(pr, raw.timeline, processedReviews, isAuthor)
+  
+  // Per-file changes with their review comments, rework and CODEOWNERS owners (for hotspots)
+  const codeowners = codeownersByRepo.get(pr.repo)
+  const files = raw.files.map(file => ({
+    path: file.filename,
+    additions: file.additions,
+    deletions: file.deletions,
+    category: classify(file.filename),
+    commits: churnMetrics.files.get(file.filename)?.commits ?? 0,
+    reworkAdditions: churnMetrics.files.get(file.filename)?.reworkAdditions ?? 0,
+    comments: commentsByPath.get(file.filename) || 0,
+    ...(codeowners && { owners: getCodeowners(codeowners, file.filename) })
+  }))
+  
+  // A PR opened as a draft becomes reviewable at its first ready-for-review
+  const readyForReviewAt = (timeline[0]?.draft && timeline.find(e => e.type === 'ready_for_review')?.at) || pr.createdAt
+  
+  return {
+    ...pr,
+    authorIsBot,
+    ...fileMetrics,
+    iterationCount,
+    reviews: processedReviews,
+    conversationComments,
+    // First response timestamp (for working hours calculation client-side)
+    firstResponseAt,
+    readyForReviewAt,
+    timeline,
+    // Open PRs: whose move it is at collection time (draft, reviewer or author) and outstanding review requests
+    ...(pr.status === 'open' && {
+      waitingOn: getTimelinePhases(timeline, new Date().toISOString()).pop()?.phase ?? null,
+      pendingReviewers: getPendingReviewers(timeline)
+    }),
+    // Churn metrics
+    commitCount: raw.commits.length || 1,
+    churnPercentage: churnMetrics.churnPercentage,
+    fileChurnCount: churnMetrics.fileChurnCount,
+    files,
+    // Per-commit line counts (persisted by the SQLite store)
+    commits: raw.commits.map(commit => ({
+      sha: commit.sha,
+      date: commit.date,
+      additions: commit.files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: commit.files.reduce((sum, f) => sum + f.deletions, 0),
+      filesChanged: commit.files.length
+    }))
+  }
+}
+
+// Process a single PR to gather all metrics
+// PRs discovered by the GraphQL backend arrive with their raw data prefetched
+async function processPR(org, pr, index, total) {
+  const { raw: prefetched, ...prInfo } = pr
+  console.log(`   [${prInfo.repo}] Processing PR #${prInfo.number} (${index}/${total}): ${prInfo.title}`)
+  
+  try {
+    let raw
+    if (prefetched) {
+      // GraphQL has no per-commit file lists. A single commit's files are the PR's own; longer PRs
+      // still look up each commit over REST (cached by SHA), the one per-commit call left on this backend
+      const commits = prefetched.commits.length === 1
+        ? [{ ...prefetched.commits[0], files: prefetched.files }]
+        : await fetchCommitDetails(org, prInfo.repo, prefetched.commits)
+      raw = { ...prefetched, commits }
+    } else {
+      raw = await fetchPRDataRest(org, prInfo)
     }
+    
+    return buildPRDetail(prInfo, raw)
   } catch (error) {
-    console.error(`      ❌ Error processing PR #${pr.number}: ${error.message}`)
+    console.error(`      ❌ Error processing PR #${prInfo.number}: ${error.message}`)
     return {
-      ...pr,
+      ...prInfo,
       error: error.message,
       iterationCount: 0,
       reviews: []
@@ -444,7 +846,8 @@ async function processPR(org, pr, index, total) {
 }
 
 // Process PRs with concurrency limit
-async function processPRsWithConcurrency(org, prs) {
+// onResult is called as each PR finishes (used for --resume checkpoints)
+async function processPRsWithConcurrency(org, prs, onResult = () => {}) {
   const results = []
   const pool = []
   let index = 0
@@ -452,8 +855,9 @@ async function processPRsWithConcurrency(org, prs) {
   for (const pr of prs) {
     index++
     const promise = processPR(org, pr, index, prs.length)
-      .then(result => {
+      .then(async result => {
         results.push(result)
+        await onResult(result)
         return result
       })
     
@@ -469,228 +873,38 @@ async function processPRsWithConcurrency(org, prs) {
   return results
 }
 
-// Calculate summary metrics per reviewer
-function calculateReviewerSummary(prDetails) {
-  const reviewerStats = new Map()
-  
-  for (const pr of prDetails) {
-    if (pr.error) continue
-    
-    for (const review of pr.reviews) {
-      const reviewer = review.reviewer
-      
-      if (!reviewerStats.has(reviewer)) {
-        reviewerStats.set(reviewer, {
-          reviewer,
-          totalReviews: 0,
-          approvals: 0,
-          changesRequested: 0,
-          commentOnlyReviews: 0,
-          noCommentApprovals: 0,
-          totalInlineComments: 0,
-          totalConversationComments: 0,
-          responseTimes: [],  // Working hours from PR open to first activity
-          prSizesReviewed: [],
-          prProdLinesReviewed: [],
-          prTestLinesReviewed: [],
-          iterationsPerPr: [],
-          prsReviewed: new Set(),
-          prsByRepo: {},
-          reviewedPrCloseTimes: []  // Working hours from PR open to merge
-        })
-      }
-      
-      const stats = reviewerStats.get(reviewer)
-      stats.totalReviews++
-      
-      if (review.state === 'APPROVED') {
-        stats.approvals++
-        if (!review.hasComments) {
-          stats.noCommentApprovals++
-        }
-      } else if (review.state === 'CHANGES_REQUESTED') {
-        stats.changesRequested++
-      } else if (review.state === 'COMMENTED') {
-        stats.commentOnlyReviews++
-      }
-      
-      stats.totalInlineComments += review.inlineCommentCount
-      stats.totalConversationComments += review.conversationCommentCount || 0
-      
-      // Calculate response time from PR open to reviewer's first activity
-      if (review.firstActivityAt && pr.createdAt) {
-        const responseHours = calculateWorkingHours(pr.createdAt, review.firstActivityAt)
-        if (responseHours >= 0) {
-          stats.responseTimes.push(responseHours)
-        }
-      }
-      
-      // Track PR-level metrics (only once per PR per reviewer)
-      if (!stats.prsReviewed.has(pr.number)) {
-        stats.prsReviewed.add(pr.number)
-        stats.prSizesReviewed.push(pr.totalAdditions + pr.totalDeletions)
-        stats.prProdLinesReviewed.push(pr.prodAdditions + pr.prodDeletions)
-        stats.prTestLinesReviewed.push(pr.testAdditions + pr.testDeletions)
-        stats.iterationsPerPr.push(pr.iterationCount)
-        
-        // Track close time for reviewed PRs (working hours)
-        const closeTime = calculateWorkingHours(pr.createdAt, pr.mergedAt)
-        stats.reviewedPrCloseTimes.push(closeTime)
-        
-        stats.prsByRepo[pr.repo] = (stats.prsByRepo[pr.repo] || 0) + 1
-      }
-    }
-  }
-  
-  // Helper functions
-  const avg = arr => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
-  const median = arr => {
-    if (arr.length === 0) return null
-    const sorted = [...arr].sort((a, b) => a - b)
-    return sorted[Math.floor(sorted.length / 2)]
-  }
-  const percentile = (arr, p) => {
-    if (arr.length === 0) return null
-    const sorted = [...arr].sort((a, b) => a - b)
-    return sorted[Math.floor(sorted.length * p)]
-  }
-  
-  // Calculate final metrics
-  const summary = []
-  for (const [reviewer, stats] of reviewerStats) {
-    const medianResponse = median(stats.responseTimes)
-    const p90Response = percentile(stats.responseTimes, 0.9)
-    const fastestResponse = stats.responseTimes.length > 0 ? Math.min(...stats.responseTimes) : null
-    
-    const avgPrSize = avg(stats.prSizesReviewed)
-    const avgProdLines = avg(stats.prProdLinesReviewed)
-    const avgTestLines = avg(stats.prTestLinesReviewed)
-    const avgIterations = avg(stats.iterationsPerPr)
-    
-    const prsWithMultipleRounds = stats.iterationsPerPr.filter(i => i > 1).length
-    
-    const noCommentApprovalPct = stats.approvals > 0
-      ? (stats.noCommentApprovals / stats.approvals * 100).toFixed(1)
-      : 0
-    
-    const avgReviewedPrCloseTime = avg(stats.reviewedPrCloseTimes) || null
-    
-    summary.push({
-      reviewer,
-      totalReviews: stats.totalReviews,
-      prsReviewedCount: stats.prsReviewed.size,
-      approvals: stats.approvals,
-      changesRequested: stats.changesRequested,
-      commentOnlyReviews: stats.commentOnlyReviews,
-      noCommentApprovals: stats.noCommentApprovals,
-      noCommentApprovalPct: parseFloat(noCommentApprovalPct),
-      totalInlineComments: stats.totalInlineComments,
-      totalConversationComments: stats.totalConversationComments,
-      // Response times are working hours from PR open to first activity
-      medianResponseHours: medianResponse ? medianResponse.toFixed(2) : null,
-      p90ResponseHours: p90Response ? p90Response.toFixed(2) : null,
-      fastestResponseHours: fastestResponse ? fastestResponse.toFixed(2) : null,
-      avgPrSizeReviewed: Math.round(avgPrSize),
-      avgPrProdLinesReviewed: Math.round(avgProdLines),
-      avgPrTestLinesReviewed: Math.round(avgTestLines),
-      avgIterationsPerPr: avgIterations.toFixed(2),
-      avgReviewedPrCloseTime: avgReviewedPrCloseTime ? avgReviewedPrCloseTime.toFixed(2) : null,
-      prsWithMultipleRounds,
-      ...stats.prsByRepo
-    })
+// Checkpoint file holding PRs already processed for a period (for --resume)
+function getCheckpointPath(periodId) {
+  return join(config.cacheDir, `progress-${periodId}.json`)
+}
+
+// Load processed PRs from a previous run; ignores checkpoints for a different org
+async function loadCheckpoint(path, org) {
+  try {
+    const checkpoint = JSON.parse(await readFile(path, 'utf-8'))
+    return checkpoint.org === org ? checkpoint.details : []
+  } catch (error) {
+    return []
   }
-  
-  return summary.sort((a, b) => b.totalReviews - a.totalReviews)
 }
 
-// Calculate summary metrics per author
-function calculateAuthorSummary(prDetails) {
-  const authorStats = new Map()
+// Persist successfully processed PRs as they complete; writes are serialized
+function createCheckpointWriter(path, meta, initialDetails) {
+  const details = [...initialDetails]
+  let pending = mkdir(config.cacheDir, { recursive: true })
   
-  for (const pr of prDetails) {
-    if (pr.error) continue
-    
-    const author = pr.author
-    if (!authorStats.has(author)) {
-      authorStats.set(author, {
-        author,
-        prsAuthored: 0,
-        prSizes: [],
-        prodLines: [],
-        testLines: [],
-        reviewTimes: [],    // Calendar hours to first response
-        closeTimes: [],     // Calendar hours to merge
-        reviewCounts: [],   // Number of reviews per PR
-        iterations: [],
-        commitCounts: [],
-        churnPercentages: [],
-        fileChurnCounts: [],
-        prsByRepo: {}
-      })
-    }
-    
-    const stats = authorStats.get(author)
-    stats.prsAuthored++
-    stats.prSizes.push(pr.totalAdditions + pr.totalDeletions)
-    stats.prodLines.push(pr.prodAdditions + pr.prodDeletions)
-    stats.testLines.push(pr.testAdditions + pr.testDeletions)
-    stats.reviewCounts.push(pr.reviews.length)
-    stats.iterations.push(pr.iterationCount)
-    stats.commitCounts.push(pr.commitCount || 1)
-    stats.churnPercentages.push(pr.churnPercentage || 0)
-    stats.fileChurnCounts.push(pr.fileChurnCount || 0)
-    
-    // Time to first response (working hours)
-    if (pr.firstResponseAt) {
-      const firstResponseTime = calculateWorkingHours(pr.createdAt, pr.firstResponseAt)
-      if (firstResponseTime >= 0) {
-        stats.reviewTimes.push(firstResponseTime)
-      }
+  return {
+    add(result) {
+      if (result.error) return pending // Failed PRs are retried on resume
+      details.push(result)
+      pending = pending.then(() => writeFile(path, JSON.stringify({ ...meta, details })))
+      return pending
+    },
+    async remove() {
+      await pending
+      await rm(path, { force: true })
     }
-    
-    // Time to merge (close time) - working hours
-    const closeTime = calculateWorkingHours(pr.createdAt, pr.mergedAt)
-    stats.closeTimes.push(closeTime)
-    
-    // Per-repo count
-    stats.prsByRepo[pr.repo] = (stats.prsByRepo[pr.repo] || 0) + 1
-  }
-  
-  // Helper function for averages
-  const avg = arr => arr.length > 0 ? arr.reduce((a, b) => a + b, 0) / arr.length : 0
-  
-  // Calculate averages
-  const summary = []
-  for (const [author, stats] of authorStats) {
-    const avgSize = avg(stats.prSizes)
-    const avgProdLines = avg(stats.prodLines)
-    const avgTestLines = avg(stats.testLines)
-    const avgReviewTime = stats.reviewTimes.length > 0 ? avg(stats.reviewTimes) : null
-    const avgCloseTime = avg(stats.closeTimes)
-    const avgReviewCount = avg(stats.reviewCounts)
-    const avgIterations = avg(stats.iterations)
-    const avgCommits = avg(stats.commitCounts)
-    const avgChurnPct = avg(stats.churnPercentages)
-    const avgFileChurn = avg(stats.fileChurnCounts)
-    
-    summary.push({
-      author,
-      prsAuthored: stats.prsAuthored,
-      authoredPrAvgSize: Math.round(avgSize),
-      authoredPrAvgProdLines: Math.round(avgProdLines),
-      authoredPrAvgTestLines: Math.round(avgTestLines),
-      authoredPrAvgReviewTime: avgReviewTime ? avgReviewTime.toFixed(2) : null,  // Working hours to first response
-      authoredPrAvgCloseTime: avgCloseTime.toFixed(2),  // Working hours to merge
-      authoredPrAvgReviewCount: avgReviewCount.toFixed(2),
-      authoredPrAvgIterations: avgIterations.toFixed(2),
-      authoredPrAvgCommits: avgCommits.toFixed(2),
-      authoredPrAvgChurnPct: avgChurnPct.toFixed(1),
-      authoredPrAvgFileChurn: avgFileChurn.toFixed(1),
-      ...stats.prsByRepo
-    })
   }
-  
-  return summary.sort((a, b) => b.prsAuthored - a.prsAuthored)
 }
 
 // Convert to CSV format
@@ -705,91 +919,17 @@ function generateCSV(summary) {
   return [headers.join(','), ...rows].join('\n')
 }
 
-// Calculate team-level summary (totals and weighted averages)
-function calculateTeamSummary(authorSummary, reviewerSummary, prDetails) {
-  const validPRs = prDetails.filter(p => !p.error)
-  
-  // Helper functions
-  const sum = arr => arr.reduce((a, b) => a + b, 0)
-  const avg = arr => arr.length > 0 ? sum(arr) / arr.length : 0
-  const median = arr => {
-    if (arr.length === 0) return null
-    const sorted = [...arr].sort((a, b) => a - b)
-    return sorted[Math.floor(sorted.length / 2)]
-  }
-  
-  // Weighted average: weight each author's average by their PR count
-  const weightedAvg = (items, valueField, weightField) => {
-    let totalWeight = 0
-    let weightedSum = 0
-    for (const item of items) {
-      const value = parseFloat(item[valueField]) || 0
-      const weight = item[weightField] || 0
-      weightedSum += value * weight
-      totalWeight += weight
-    }
-    return totalWeight > 0 ? weightedSum / totalWeight : 0
-  }
-  
-  // Calculate authored stats from PRs directly (more accurate than averaging averages)
-  const totalPRs = validPRs.length
-  const prSizes = validPRs.map(p => p.totalAdditions + p.totalDeletions)
-  const prodLines = validPRs.map(p => p.prodAdditions + p.prodDeletions)
-  const testLines = validPRs.map(p => p.testAdditions + p.testDeletions)
-  const iterations = validPRs.map(p => p.iterationCount)
-  const closeTimes = validPRs.map(p => calculateWorkingHours(p.createdAt, p.mergedAt)).filter(h => h > 0)
-  const churnPercentages = validPRs.filter(p => p.churnPercentage !== undefined).map(p => p.churnPercentage)
-  const fileChurnCounts = validPRs.filter(p => p.fileChurnCount !== undefined).map(p => p.fileChurnCount)
-  const commitCounts = validPRs.map(p => p.commitCount || 1)
-  
-  // Collect all response times from PRs with firstResponseAt (working hours)
-  const allResponseTimes = validPRs
-    .filter(p => p.firstResponseAt)
-    .map(p => calculateWorkingHours(p.createdAt, p.firstResponseAt))
-    .filter(t => t > 0)
-  
-  let totalReviews = 0
-  let totalApprovals = 0
-  let totalNoCommentApprovals = 0
-  let totalInlineComments = 0
-  
-  for (const pr of validPRs) {
-    for (const review of pr.reviews) {
-      totalReviews++
-      totalInlineComments += review.inlineCommentCount
-      
-      if (review.state === 'APPROVED') {
-        totalApprovals++
-        if (!review.hasComments) {
-          totalNoCommentApprovals++
-        }
-      }
+// Print each broken SLA with its worst offenders
+function reportViolations(violations) {
+  console.log(`\n🚨 SLA check: ${violations.total} violations`)
+  for (const rule of violations.rules) {
+    const status = rule.violations.length === 0 ? '✅' : '❌'
+    console.log(`   ${status} ${rule.id}: ${rule.label} ≤ ${rule.max} — ${rule.violations.length} of ${rule.checked} over`)
+    for (const violation of rule.violations.slice(0, 5)) {
+      console.log(`      ${violation.subject}: ${violation.value}${violation.title ? ` (${violation.title})` : ''}`)
     }
-  }
-  
-  return {
-    authored: {
-      totalPRs,
-      totalDevelopers: authorSummary.length,
-      avgPrSize: Math.round(avg(prSizes)),
-      avgProdLines: Math.round(avg(prodLines)),
-      avgTestLines: Math.round(avg(testLines)),
-      avgCloseTime: closeTimes.length > 0 ? parseFloat(avg(closeTimes).toFixed(2)) : null,  // Working hours
-      avgIterations: parseFloat(avg(iterations).toFixed(2)),
-      avgChurnPct: churnPercentages.length > 0 ? parseFloat(avg(churnPercentages).toFixed(1)) : 0,
-      avgFileChurn: fileChurnCounts.length > 0 ? parseFloat(avg(fileChurnCounts).toFixed(1)) : 0,
-      avgCommitsPerPr: parseFloat(avg(commitCounts).toFixed(2))
-    },
-    reviewed: {
-      totalReviews,
-      totalReviewers: reviewerSummary.length,
-      avgPrSizeReviewed: Math.round(weightedAvg(reviewerSummary, 'avgPrSizeReviewed', 'prsReviewedCount')),
-      avgProdLinesReviewed: Math.round(weightedAvg(reviewerSummary, 'avgPrProdLinesReviewed', 'prsReviewedCount')),
-      avgTestLinesReviewed: Math.round(weightedAvg(reviewerSummary, 'avgPrTestLinesReviewed', 'prsReviewedCount')),
-      medianResponseTime: allResponseTimes.length > 0 ? parseFloat(median(allResponseTimes).toFixed(2)) : null,  // Calendar hours
-      overallNoCommentPct: totalApprovals > 0 ? parseFloat((totalNoCommentApprovals / totalApprovals * 100).toFixed(1)) : 0,
-      avgInlineComments: totalReviews > 0 ? parseFloat((totalInlineComments / totalReviews).toFixed(2)) : 0,
-      avgIterationsPerPr: parseFloat(avg(iterations).toFixed(2))
+    if (rule.violations.length > 5) {
+      console.log(`      ... and ${rule.violations.length - 5} more`)
     }
   }
 }
@@ -801,7 +941,19 @@ async function main() {
   const args = parseArgs()
   const org = args.org || config.org
   const repos = args.repos ? args.repos.split(',') : config.repos
-  const targetMonth = getTargetMonth(args.month)
+  const period = getTargetPeriod(args)
+  const backend = args.backend || config.backend
+  apiCache = createApiCache({ dir: join(config.cacheDir, 'api'), enabled: !args['no-cache'] })
+  const storage = createStorage(config.storage, config.outputDir)
+  const sqlitePath = args.sqlite || config.sqlitePath
+  const include = {
+    open: Boolean(args['include-open'] || config.include.open),
+    closed: Boolean(args['include-closed'] || config.include.closed)
+  }
+  const discovery = args.discovery || config.discovery
+  const baseBranchOverride = typeof args['base-branches'] === 'string' ? args['base-branches'].split(',') : null
+  const slaRules = config.slas.rules
+  const failOnViolations = Boolean(args['fail-on-violations'] || config.slas.failOnViolations)
   
   if (!org) {
     console.error('❌ Organization is required. Use --org=your-org')
@@ -813,85 +965,210 @@ async function main() {
     process.exit(1)
   }
   
+  if (!['rest', 'graphql'].includes(backend)) {
+    console.error('❌ Unknown backend. Use --backend=rest or --backend=graphql')
+    process.exit(1)
+  }
+  
+  if (!['search', 'list'].includes(discovery)) {
+    console.error('❌ Unknown discovery. Use --discovery=search or --discovery=list')
+    process.exit(1)
+  }
+  
+  // A null timezone means this machine's zone; pin it before it is used or embedded in the JSON,
+  // where the dashboard would otherwise fall back to the default calendar's zone
+  if (!config.workingCalendar.timezone) {
+    config.workingCalendar.timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  }
+  
+  try {
+    validateSlaRules(slaRules)
+  } catch (error) {
+    console.error(`❌ ${error.message}`)
+    process.exit(1)
+  }
+  
   console.log(`📋 Configuration:`)
   console.log(`   Organization: ${org}`)
   console.log(`   Repositories: ${repos.join(', ')}`)
-  console.log(`   Target Month: ${targetMonth}\n`)
+  console.log(`   Target Period: ${period.id} (${period.type}, ${period.since} → ${period.until})`)
+  console.log(`   Backend: ${backend}`)
+  console.log(`   Discovery: ${discovery}`)
+  console.log(`   Base Branches: ${repos.map(repo => `${repo} → ${getBaseBranchPatterns(config.baseBranches, repo, baseBranchOverride).join(', ')}`).join('; ')}`)
+  console.log(`   PRs: merged${include.open ? ' + open' : ''}${include.closed ? ' + closed unmerged' : ''}`)
+  console.log(`   Working Hours: ${config.workingCalendar.hours.start}-${config.workingCalendar.hours.end} ${config.workingCalendar.timezone}`)
+  console.log(`   SLAs: ${slaRules.length > 0 ? `${slaRules.map(rule => rule.id).join(', ')}${failOnViolations ? ' (fail on violations)' : ''}` : 'none'}`)
+  console.log(`   Storage: ${storage.describe('')}`)
+  console.log(`   SQLite Store: ${sqlitePath || 'disabled'}`)
+  console.log(`   API Cache: ${apiCache.enabled ? join(config.cacheDir, 'api') : 'disabled'}\n`)
   
   // Check rate limit
   await checkRateLimit()
   console.log()
   
+  // Add GitHub org teams to the configured ones
+  if (args['import-teams'] || config.teams.importFromGitHub) {
+    try {
+      const count = await importGitHubTeams(org, teamDirectory, ghApiWithRetry)
+      console.log(`👥 Imported ${count} teams from GitHub org ${org}\n`)
+    } catch (error) {
+      console.warn(`⚠️  Could not import GitHub teams (needs read:org scope): ${error.message}\n`)
+    }
+  }
+  
   // Collect PRs from all repos
   const allPRs = []
   for (const repo of repos) {
     try {
-      const prs = await fetchMergedPRs(org, repo, targetMonth)
+      const baseBranches = getBaseBranchPatterns(config.baseBranches, repo, baseBranchOverride)
+      const prs = backend === 'graphql'
+        ? await fetchMergedPRsGraphQL(org, repo, period, include, baseBranches, discovery)
+        : await fetchMergedPRs(org, repo, period, include, baseBranches, discovery)
       allPRs.push(...prs)
+      
+      // Owners for the per-file hotspots
+      const codeowners = await fetchCodeowners(org, repo)
+      if (codeowners) {
+        codeownersByRepo.set(repo, codeowners)
+        console.log(`   📋 CODEOWNERS: ${codeowners.length} rules`)
+      }
     } catch (error) {
       console.error(`❌ Error fetching PRs from ${repo}: ${error.message}`)
     }
   }
   
   if (allPRs.length === 0) {
-    console.log('ℹ️  No PRs found for the specified month and repositories')
+    console.log('ℹ️  No PRs found for the specified period and repositories')
     process.exit(0)
   }
   
-  console.log(`\n📊 Processing ${allPRs.length} total PRs...\n`)
+  // Resume from a crashed run: skip PRs already in the checkpoint
+  const checkpointPath = getCheckpointPath(period.id)
+  const prKeys = new Set(allPRs.map(getPRKey))
+  const resumedDetails = args.resume
+    ? (await loadCheckpoint(checkpointPath, org)).filter(pr => prKeys.has(getPRKey(pr)))
+    : []
+  const resumedKeys = new Set(resumedDetails.map(getPRKey))
+  const pendingPRs = allPRs.filter(pr => !resumedKeys.has(getPRKey(pr)))
+  
+  if (args.resume) {
+    console.log(`\n⏯️  Resuming: ${resumedDetails.length} PRs already processed, ${pendingPRs.length} remaining`)
+  }
+  
+  console.log(`\n📊 Processing ${pendingPRs.length} total PRs...\n`)
   
-  // Process all PRs with concurrency
-  const prDetails = await processPRsWithConcurrency(org, allPRs)
+  // Process all PRs with concurrency, checkpointing each completed PR
+  const checkpoint = createCheckpointWriter(checkpointPath, { org, repos, period }, resumedDetails)
+  const processedDetails = await processPRsWithConcurrency(org, pendingPRs, result => checkpoint.add(result))
   
-  console.log(`\n✅ Processed ${prDetails.length} PRs\n`)
+  // Merge aliased logins into their canonical person
+  const allDetails = applyIdentities([...resumedDetails, ...processedDetails], teamDirectory)
+  
+  // Merged PRs feed every metric; open and abandoned PRs are reported separately
+  // (checkpoints from before PR statuses only hold merged PRs)
+  const isMerged = pr => (pr.status ?? 'merged') === 'merged'
+  const prDetails = allDetails.filter(isMerged)
+  const unmergedDetails = allDetails.filter(pr => !isMerged(pr))
+  
+  const botPRCount = prDetails.filter(pr => pr.authorIsBot).length
+  console.log(`\n✅ Processed ${prDetails.length} merged PRs (${botPRCount} authored by bots)`)
+  if (include.open || include.closed) {
+    const openCount = unmergedDetails.filter(pr => pr.status === 'open').length
+    console.log(`   Plus ${openCount} open and ${unmergedDetails.length - openCount} closed without merging`)
+  }
+  console.log()
   
   // Calculate summary metrics
   console.log('📊 Calculating reviewer metrics...')
-  const summary = calculateReviewerSummary(prDetails)
+  const summary = calculateReviewerSummary(prDetails, config.workingCalendar)
   
   console.log('📊 Calculating author metrics...')
-  const authorSummary = calculateAuthorSummary(prDetails)
+  const authorSummary = calculateAuthorSummary(prDetails, config.workingCalendar)
   
   console.log('📊 Calculating team summary...')
-  const teamSummary = calculateTeamSummary(authorSummary, summary, prDetails)
+  const teamSummary = calculateTeamSummary(authorSummary, summary, prDetails, config.workingCalendar)
+  
+  // SLA breaches (only reported when rules are configured)
+  const violations = slaRules.length > 0
+    ? evaluateSlas(slaRules, { prDetails, teamSummary, calendar: config.workingCalendar })
+    : null
+  
+  const teams = teamDirectory.getTeams()
+  const teamRollups = calculateTeamRollups(prDetails, teams, config.workingCalendar)
   
   // Prepare output
   const outputData = {
-    month: targetMonth,
+    // Period id (YYYY-MM for monthly runs) - kept as `month` for backward compatibility
+    month: period.id,
+    period,
     org,
     repos,
     generatedAt: new Date().toISOString(),
+    workingCalendar: config.workingCalendar,
+    qualityScoring: config.qualityScoring,
     summary,
     authorSummary,
     teamSummary,
-    details: prDetails
+    teams,
+    teamRollups,
+    details: prDetails,
+    // Open and closed-without-merge PRs (only when collected with --include-open / --include-closed)
+    ...((include.open || include.closed) && { unmergedDetails }),
+    // SLA breaches (only when config.slas has rules)
+    ...(violations && { violations })
   }
   
-  // Ensure output directory exists
-  await mkdir(config.outputDir, { recursive: true })
-  
   // Write JSON output
-  const jsonPath = join(config.outputDir, `pr-reviews-${targetMonth}.json`)
-  await writeFile(jsonPath, JSON.stringify(outputData, null, 2))
-  console.log(`✅ Written JSON to ${jsonPath}`)
+  const jsonName = `pr-reviews-${period.id}.json`
+  await storage.write(jsonName, JSON.stringify(outputData, null, 2))
+  console.log(`✅ Written JSON to ${storage.describe(jsonName)}`)
   
   // Write CSV output for reviewers
-  const csvPath = join(config.outputDir, `pr-reviews-${targetMonth}.csv`)
+  const csvName = `pr-reviews-${period.id}.csv`
   const csv = generateCSV(summary)
-  await writeFile(csvPath, csv)
-  console.log(`✅ Written reviewer CSV to ${csvPath}`)
+  await storage.write(csvName, csv)
+  console.log(`✅ Written reviewer CSV to ${storage.describe(csvName)}`)
   
   // Write CSV output for authors
-  const authorCsvPath = join(config.outputDir, `pr-authors-${targetMonth}.csv`)
+  const authorCsvName = `pr-authors-${period.id}.csv`
   const authorCsv = generateCSV(authorSummary)
-  await writeFile(authorCsvPath, authorCsv)
-  console.log(`✅ Written author CSV to ${authorCsvPath}`)
+  await storage.write(authorCsvName, authorCsv)
+  console.log(`✅ Written author CSV to ${storage.describe(authorCsvName)}`)
+  
+  // Upsert into the SQLite store
+  if (sqlitePath) {
+    const store = await openMetricsStore(sqlitePath)
+    try {
+      const count = store.upsertPRs(org, prDetails, calculateWorkingHours)
+      console.log(`✅ Upserted ${count} PRs into ${sqlitePath}`)
+    } finally {
+      store.close()
+    }
+  }
+  
+  // Run completed - the checkpoint is no longer needed
+  await checkpoint.remove()
+  
+  if (apiCache.enabled) {
+    const { hits, revalidated, misses } = apiCache.stats
+    console.log(`💾 API cache: ${hits} hits, ${revalidated} revalidated (304), ${misses} fetched`)
+  }
   
   console.log(`\n🎉 Done! Processed ${prDetails.length} PRs, ${summary.length} reviewers, ${authorSummary.length} authors`)
   
+  if (violations) {
+    reportViolations(violations)
+  }
+  
   // Final rate limit check
   console.log()
   await checkRateLimit()
+  
+  // Non-zero exit for scheduled jobs, after every output is written
+  if (violations && violations.total > 0 && failOnViolations) {
+    console.error(`\n❌ ${violations.total} SLA violations (--fail-on-violations)`)
+    process.exit(2)
+  }
 }
 
 main().catch(error => {
@@ -0,0 +1,76 @@
+// Heuristic labels for review comments (no network, no model): each comment gets one kind
+//   suggestion  GitHub suggestion block (```suggestion)
+//   nit         marked as a nit, nitpick, optional or minor point
+//   blocking    flags a defect or a required change ("this is a bug", "must be fixed", do not merge, ...)
+//   question    asks something (ends a sentence with ?, or opens with why)
+//   praise      approval or thanks with nothing else to act on
+//   other       any other feedback
+// Conventional Comments prefixes (`nit:`, `question:`, `issue (blocking):`, `praise:` ...) take precedence
+
+export const COMMENT_KINDS = ['suggestion', 'nit', 'blocking', 'question', 'praise', 'other']
+
+const CONVENTIONAL_PREFIXES = {
+  suggestion: 'suggestion',
+  nit: 'nit',
+  nitpick: 'nit',
+  issue: 'blocking',
+  todo: 'blocking',
+  question: 'question',
+  praise: 'praise',
+  kudos: 'praise'
+}
+
+const SUGGESTION_BLOCK = /```suggestion\b/
+const CONVENTIONAL = /^\s*\**(\w+)\**\s*(\(([^)]*)\))?\s*:/
+const NIT = /^\s*\**(nit|nitpick|minor|optional|tiny|small thing|style)\b|\(nit\)|\bnit:/i
+// Defects and required changes are phrases rather than single words, so that
+// "fixes the bug", "you must have seen" or "the old value was wrong" stay other
+const BLOCKING = new RegExp([
+  String.raw`(?<!non-)\b(blocking|blocker|do not merge|don't merge|won't work|race condition|memory leak|data loss|vulnerab\w*)\b`,
+  String.raw`\b(a|is a) regression\b(?! test)`,
+  String.raw`\b(this|that|it|which) (breaks|will break|would break)\b`,
+  String.raw`\b(this|that|it|there)('s| is| looks like| introduces)( a)? bug\b`,
+  String.raw`\b(is|are|looks|seems) (broken|wrong|incorrect)\b`,
+  String.raw`\b(returns|uses|gives|picks) the wrong\b`,
+  String.raw`\b(must|needs? to|has to) (not|(be )?(fix|fixed|change|changed|remove|removed|handle|handled|update|updated|address|addressed))\b`,
+  String.raw`\bsecurity (issue|hole|risk|problem|bug)\b`,
+  String.raw`\b(will|would|could|can|might) crash\b`
+].join('|'), 'i')
+// A question ends a sentence with ? (not one inside a URL), or opens with why / how come / what if
+const QUESTION = /\?(\s|$)|^\s*(why|how come|what if|what about|wdyt)\b/im
+// "nice" and "great" mid-sentence are often requests ("it would be nice to ...", "nice to have")
+const PRAISE = /\b(lgtm|looks (good|great)|(nice|great|good) (job|work|catch|call|idea|one|touch|cleanup|find)|awesome|love (it|this)|well done|thanks|thank you|excellent)\b|^\s*(nice|great|neat)\b(?! to\b)|👍|🎉|💯|🚀|❤️/im
+
+// Comment text without code blocks, inline code and quoted replies
+function proseOf(body) {
+  return body
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/`[^`\n]*`/g, ' ')
+    .split('\n')
+    .filter(line => !line.trimStart().startsWith('>'))
+    .join('\n')
+    .trim()
+}
+
+// Kind of one comment body; null for an empty body
+export function classifyComment(body) {
+  if (!body || !body.trim()) return null
+  if (SUGGESTION_BLOCK.test(body)) return 'suggestion'
+
+  const prose = proseOf(body)
+  const conventional = CONVENTIONAL.exec(prose)
+  const label = conventional && CONVENTIONAL_PREFIXES[conventional[1].toLowerCase()]
+  if (label) {
+    const decorations = (conventional[3] || '').toLowerCase()
+    if (/\bnon-blocking\b/.test(decorations)) return label === 'blocking' ? 'other' : label
+    if (/\bblocking\b/.test(decorations)) return 'blocking'
+    return label
+  }
+
+  if (NIT.test(prose)) return 'nit'
+  if (BLOCKING.test(prose)) return 'blocking'
+  if (QUESTION.test(prose)) return 'question'
+  // Praise only when that is all there is (short and nothing else matched)
+  if (PRAISE.test(prose) && prose.length <= 120) return 'praise'
+  return 'other'
+}
@@ -1,27 +1,154 @@
 export default {
   org: 'thgenergy',
   repos: ['fe-redesign', 'be-revamp', 'API-docs'],
-  outputDir: './output',
-  
-  // Patterns to identify test files
-  testFilePatterns: [
-    '*.test.*',
-    '*.spec.*',
-    '__tests__/',
-    '__mocks__/',
-    'e2e/',
-    'tests/',
-    'test/',
-    '*.stories.*',
-    'integration/',
-    'fixtures/',
-    '.test/',
-    '.spec/'
-  ],
+  outputDir: process.env.LOCAL_OUTPUT_DIR || './output',
+  
+  // Output storage backend, shared with the dashboard via environment variables
+  storage: {
+    backend: process.env.STORAGE_BACKEND || 'local',
+    s3: {
+      bucket: process.env.S3_BUCKET,
+      prefix: process.env.S3_PREFIX || '',
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,  // e.g. http://localhost:9000 for MinIO
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true'
+    }
+  },
+  
+  // Optional SQLite store for queryable history (also read by the dashboard)
+  sqlitePath: process.env.SQLITE_PATH || null,
+  
+  // Developer identities and squads, used for login merging and team rollups
+  teams: {
+    // Canonical person -> GitHub logins (metrics for all logins are merged under the person)
+    aliases: {
+      // 'jane': ['jane-work', 'jane-oss']
+    },
+    // Team -> members (canonical names or logins); a person may be in several teams
+    groups: {
+      // 'Platform': ['jane', 'bob']
+    },
+    // Also load teams from `gh api orgs/{org}/teams` (or pass --import-teams)
+    importFromGitHub: false
+  },
+  
+  // Target branches whose PRs are collected: names or globs ('release/*'), per repo with a
+  // default for the others (or pass --base-branches=develop,release/* for every repo)
+  baseBranches: {
+    default: ['main'],
+    repos: {
+      'be-revamp': ['develop']
+    }
+  },
+  
+  // Accounts treated as bots in addition to GitHub's user.type === 'Bot'
+  // (e.g. CI machine users registered as regular accounts)
+  botLogins: [],
+  
+  // File categories kept apart from production code in line counts
+  // Each file takes the first category whose patterns match (lockfile, generated, snapshot,
+  // migration, test, docs); anything else is production code. Patterns are gitignore-style globs:
+  // `*.test.*` matches at any depth, `tests/` everything below a directory named tests
+  // repos: per-repo patterns replacing the defaults of the categories they set
+  fileCategories: {
+    default: {
+      lockfile: [
+        'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+        'Gemfile.lock', 'Cargo.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock', 'composer.lock',
+        'go.sum', 'Podfile.lock', 'mix.lock', 'packages.lock.json', 'pubspec.lock'
+      ],
+      generated: [
+        '*.min.js', '*.min.css', '*.map', '*.generated.*', '__generated__/', 'generated/',
+        '*.pb.go', '*_pb2.py', '*.g.dart', '*.designer.cs'
+      ],
+      snapshot: ['__snapshots__/', '*.snap'],
+      migration: ['migrations/', '**/db/migrate/', '**/alembic/versions/'],
+      test: [
+        // JavaScript / TypeScript
+        '*.test.*', '*.spec.*', '__tests__/', '__mocks__/', '*.stories.*', 'e2e/', 'cypress/',
+        // Python
+        'test_*.py', '*_test.py', 'conftest.py',
+        // Go, Ruby, Elixir
+        '*_test.go', '*_spec.rb', '*_test.exs',
+        // JVM, .NET, Swift, PHP
+        '**/src/test/', '*Test.java', '*Tests.java', '*Test.kt', '*Tests.cs', '*.Tests/', '*Tests.swift', '*Test.php',
+        // Test directories in any language
+        'tests/', 'test/', 'spec/', 'integration/', 'fixtures/'
+      ],
+      docs: ['*.md', '*.mdx', '*.rst', '*.adoc', 'docs/']
+    },
+    repos: {
+      // 'be-revamp': { migration: ['src/db/changesets/'] }
+    }
+  },
+  
+  // Working-hours calendar for response and merge times (also embedded in the JSON output
+  // so the dashboard measures hours the same way). Holidays are YYYY-MM-DD in the calendar's
+  // timezone; developer overrides replace the team value for each field they set
+  workingCalendar: {
+    timezone: 'Europe/Bucharest',
+    workdays: [1, 2, 3, 4, 5],  // 0=Sun ... 6=Sat
+    hours: { start: '10:00', end: '18:00' },
+    holidays: [],  // e.g. ['2026-01-01', '2026-01-02']
+    developers: {
+      // 'github-login': { timezone: 'Europe/London', holidays: ['2026-08-31'] }
+    }
+  },
+  
+  // Quality score profiles (also embedded in the JSON output for the dashboard's scores)
+  // Each profile sets only what differs from the default in shared/quality-score.js: author and
+  // reviewer weights, { best, worst } thresholds, and teamRelative ({ best, worst } multiples of the
+  // team average replacing the thresholds). repos picks a profile per repo; others use 'default'
+  qualityScoring: {
+    profiles: {
+      // 'backend': { author: { thresholds: { lines: { best: 200, worst: 800 } } } },
+      // 'relative': { teamRelative: { best: 0.5, worst: 2 } }
+    },
+    repos: {
+      // 'be-revamp': 'backend'
+    }
+  },
+  
+  // SLAs checked after each run; breaches are listed in the JSON output (`violations`) and shown
+  // on the dashboard. Each rule caps one metric (a value above max is a violation): per PR
+  // firstResponseHours, timeToMergeHours, prodLines, iterations; per reviewer responseHours,
+  // noCommentApprovalPct; team-wide teamResponseHours, teamNoCommentApprovalPct
+  // failOnViolations (or --fail-on-violations) exits with code 2 when any rule is broken
+  slas: {
+    rules: [
+      // { id: 'first-response', metric: 'firstResponseHours', max: 4 },
+      // { id: 'pr-size', metric: 'prodLines', max: 800 },
+      // { id: 'no-comment-approvals', metric: 'noCommentApprovalPct', max: 30 }
+    ],
+    failOnViolations: false
+  },
+  
+  // Sprint calendar used by --sprint (any sprint start date + sprint length)
+  sprint: {
+    anchorDate: '2026-01-05',
+    lengthDays: 14
+  },
+  
+  // Fetch backend: 'rest' (per-PR REST calls) or 'graphql' (batched queries)
+  backend: 'rest',
+  
+  // How merged (and closed) PRs are found: 'search' (search API, by merge date) or 'list'
+  // (page through the repo's closed PRs); 'list' is also the fallback when a search fails
+  discovery: 'search',
+  
+  // PRs collected besides those merged in the period (or pass --include-open / --include-closed)
+  // open: PRs still open at collection time; closed: PRs closed without merging in the period
+  include: {
+    open: false,
+    closed: false
+  },
   
   // Concurrency for processing PRs
   prConcurrency: 5,
   
+  // Local cache for API responses and --resume checkpoints
+  cacheDir: './.cache',
+  
   // Retry configuration
   maxRetries: 3,
   retryDelayMs: 1000,
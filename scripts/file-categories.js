@@ -0,0 +1,20 @@
+import { pathPatternToRegExp } from './glob.js'
+
+// File categories for line counts (config.fileCategories)
+// default: category -> patterns
+// repos:   repo -> { category: patterns }, replacing the default patterns of those categories
+// A file takes the first category (in FILE_CATEGORIES order) with a matching pattern, otherwise 'prod'.
+// Patterns are gitignore-style: `*.test.*` matches at any depth, `tests/` matches everything below any
+// directory named tests (not contests/), `/db/migrate/` only at the repo root
+
+export const FILE_CATEGORIES = ['lockfile', 'generated', 'snapshot', 'migration', 'test', 'docs']
+
+// path -> category for one repo's files
+export function createFileClassifier({ default: defaults = {}, repos = {} } = {}, repo) {
+  const patterns = { ...defaults, ...repos[repo] }
+  const matchers = FILE_CATEGORIES.map(category => ({
+    category,
+    expressions: (patterns[category] || []).map(pathPatternToRegExp)
+  }))
+  return (path) => matchers.find(({ expressions }) => expressions.some(expression => expression.test(path)))?.category ?? 'prod'
+}
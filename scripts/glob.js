@@ -0,0 +1,37 @@
+// Path globs: `*` matches within one path segment, `**` across segments,
+// and `**/` zero or more whole directories (so `a/**/b` matches `a/b` as well as `a/x/y/b`)
+
+const escape = (literal) => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+// Regular expression source for a glob (unanchored)
+export function globSource(glob) {
+  return glob
+    .split('**/')
+    .map(part => part
+      .split('**')
+      .map(segment => segment.split('*').map(escape).join('[^/]*'))
+      .join('.*'))
+    .join('(?:.*/)?')
+}
+
+// Anchored regular expression for a glob
+export function globToRegExp(glob) {
+  return new RegExp(`^${globSource(glob)}$`)
+}
+
+// Regular expression for a gitignore-style path pattern (as in CODEOWNERS):
+// a leading `/` or a slash inside anchors the pattern at the repo root, otherwise it matches at any depth.
+// A pattern naming a directory (`docs`, `*.Tests/`) matches everything below it; one ending in a
+// wildcard (`docs/*`) only matches direct children
+export function pathPatternToRegExp(pattern) {
+  const directory = pattern.endsWith('/')
+  let glob = pattern.replace(/\/$/, '')
+  let anchored = glob.includes('/')
+  if (glob.startsWith('**/')) {
+    glob = glob.slice(3)
+    anchored = false
+  }
+  glob = glob.replace(/^\//, '')
+  const below = directory || !glob.split('/').pop().includes('*') ? '(?:/.*)?' : ''
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${globSource(glob)}${below}$`)
+}
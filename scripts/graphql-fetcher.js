@@ -0,0 +1,371 @@
+import { execFile } from 'child_process'
+import config from './config.js'
+import { createBaseBranchMatcher } from './base-branches.js'
+import { searchInWindows } from './pr-search.js'
+
+// GraphQL fetch backend: pulls merged PRs with reviews, review comments,
+// conversation comments, commits, file stats and timeline events in batched, paginated queries.
+// Parsed PRs carry a `raw` object in the same shape the REST backend produces,
+// so PRDetail construction is shared.
+
+const PR_PAGE_SIZE = 25
+const NESTED_PAGE_SIZE = 50
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms))
+
+const REQUESTED_REVIEWER = 'requestedReviewer { __typename ... on User { login } ... on Bot { login } ... on Team { slug } }'
+
+// Selections for each paginated connection (used in the batch query and follow-up pages)
+const CONNECTIONS = {
+  files: 'nodes { path additions deletions changeType }',
+  reviews: `nodes {
+    id databaseId state submittedAt body
+    author { login __typename }
+    comments(first: ${NESTED_PAGE_SIZE}) { pageInfo { hasNextPage endCursor } nodes { createdAt path body } }
+  }`,
+  comments: 'nodes { createdAt body author { login __typename } }',
+  commits: 'nodes { commit { oid authoredDate } }',
+  timelineItems: `nodes {
+    __typename
+    ... on ReadyForReviewEvent { createdAt actor { login __typename } }
+    ... on ConvertToDraftEvent { createdAt actor { login __typename } }
+    ... on ReviewRequestedEvent { createdAt actor { login __typename } ${REQUESTED_REVIEWER} }
+    ... on ReviewRequestRemovedEvent { createdAt actor { login __typename } ${REQUESTED_REVIEWER} }
+    ... on PullRequestCommit { commit { oid committedDate } }
+    ... on HeadRefForcePushedEvent { createdAt actor { login __typename } }
+    ... on MergedEvent { createdAt actor { login __typename } }
+    ... on ClosedEvent { createdAt actor { login __typename } }
+  }`
+}
+
+// Extra arguments per connection (reviews come from their own connection, not the timeline)
+const CONNECTION_ARGS = {
+  timelineItems: 'itemTypes: [READY_FOR_REVIEW_EVENT, CONVERT_TO_DRAFT_EVENT, REVIEW_REQUESTED_EVENT, REVIEW_REQUEST_REMOVED_EVENT, PULL_REQUEST_COMMIT, HEAD_REF_FORCE_PUSHED_EVENT, MERGED_EVENT, CLOSED_EVENT]'
+}
+
+const connectionArgs = (name) => CONNECTION_ARGS[name] ? `, ${CONNECTION_ARGS[name]}` : ''
+
+const connectionField = (name) =>
+  `${name}(first: ${name === 'files' ? 100 : NESTED_PAGE_SIZE}${connectionArgs(name)}) {
+    pageInfo { hasNextPage endCursor }
+    ${CONNECTIONS[name]}
+  }`
+
+const PULL_REQUEST_FIELDS = `
+  id number title url state isDraft baseRefName createdAt mergedAt closedAt updatedAt
+  author { login __typename }
+  ${connectionField('files')}
+  ${connectionField('reviews')}
+  ${connectionField('comments')}
+  ${connectionField('commits')}
+  ${connectionField('timelineItems')}
+`
+
+const PULL_REQUESTS_QUERY = `
+  query($owner: String!, $repo: String!, $states: [PullRequestState!], $after: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequests(states: $states, orderBy: { field: UPDATED_AT, direction: DESC }, first: ${PR_PAGE_SIZE}, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes { ${PULL_REQUEST_FIELDS} }
+      }
+    }
+  }
+`
+
+const SEARCH_QUERY = `
+  query($query: String!, $after: String) {
+    search(query: $query, type: ISSUE, first: ${PR_PAGE_SIZE}, after: $after) {
+      issueCount
+      pageInfo { hasNextPage endCursor }
+      nodes { ... on PullRequest { ${PULL_REQUEST_FIELDS} } }
+    }
+  }
+`
+
+// Result count alone, so windows over the search cap are split before any PR payload is fetched
+const SEARCH_COUNT_QUERY = `
+  query($query: String!) {
+    search(query: $query, type: ISSUE, first: 1) { issueCount }
+  }
+`
+
+// Execute a GraphQL query through `gh api graphql` with retry logic
+async function runGraphQL(query, variables = {}) {
+  const body = JSON.stringify({ query, variables })
+
+  for (let attempt = 0; attempt < config.maxRetries; attempt++) {
+    try {
+      const stdout = await new Promise((resolve, reject) => {
+        const child = execFile('gh', ['api', 'graphql', '--input', '-'], {
+          maxBuffer: 50 * 1024 * 1024 // 50MB buffer
+        }, (error, out) => error ? reject(error) : resolve(out))
+        child.stdin.end(body)
+      })
+
+      const response = JSON.parse(stdout)
+      if (response.errors?.length) {
+        throw new Error(response.errors.map(e => e.message).join('; '))
+      }
+      return response.data
+    } catch (error) {
+      const isLastAttempt = attempt === config.maxRetries - 1
+
+      if (isLastAttempt) {
+        console.error(`❌ GraphQL query failed after ${config.maxRetries} attempts`)
+        throw error
+      }
+
+      const delayMs = config.retryDelayMs * Math.pow(2, attempt)
+      console.warn(`⚠️  Attempt ${attempt + 1} failed, retrying in ${delayMs}ms...`)
+      await sleep(delayMs)
+    }
+  }
+}
+
+// Fetch the remaining pages of a connection on any node (PR or review)
+async function fetchRemainingNodes(nodeId, typeName, field, selection, after, args = '') {
+  const nodes = []
+  let cursor = after
+
+  while (cursor) {
+    const data = await runGraphQL(`
+      query($id: ID!, $after: String) {
+        node(id: $id) {
+          ... on ${typeName} {
+            ${field}(first: 100, after: $after${args}) {
+              pageInfo { hasNextPage endCursor }
+              ${selection}
+            }
+          }
+        }
+      }
+    `, { id: nodeId, after: cursor })
+
+    const connection = data.node[field]
+    nodes.push(...connection.nodes)
+    cursor = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null
+  }
+
+  return nodes
+}
+
+// Complete every truncated connection of a PR node in place
+async function completePullRequestNode(node) {
+  for (const field of Object.keys(CONNECTIONS)) {
+    const connection = node[field]
+    if (connection.pageInfo.hasNextPage) {
+      const rest = await fetchRemainingNodes(node.id, 'PullRequest', field, CONNECTIONS[field], connection.pageInfo.endCursor, connectionArgs(field))
+      connection.nodes.push(...rest)
+      connection.pageInfo = { hasNextPage: false, endCursor: null }
+    }
+  }
+
+  for (const review of node.reviews.nodes) {
+    if (review.comments.pageInfo.hasNextPage) {
+      const rest = await fetchRemainingNodes(review.id, 'PullRequestReview', 'comments', 'nodes { createdAt path body }', review.comments.pageInfo.endCursor)
+      review.comments.nodes.push(...rest)
+      review.comments.pageInfo = { hasNextPage: false, endCursor: null }
+    }
+  }
+
+  return node
+}
+
+// Map GraphQL change types onto REST file statuses
+const FILE_STATUS = {
+  ADDED: 'added',
+  DELETED: 'removed',
+  RENAMED: 'renamed',
+  COPIED: 'copied',
+  MODIFIED: 'modified',
+  CHANGED: 'changed'
+}
+
+// Map a GraphQL actor onto a REST-style user ({ login, type })
+// Deleted accounts come back as a null author; GitHub shows them as "ghost"
+// Bot logins get the "[bot]" suffix REST uses (e.g. dependabot -> dependabot[bot])
+function userOf(author) {
+  if (!author) return { login: 'ghost', type: 'User' }
+  if (author.__typename === 'Bot') return { login: `${author.login}[bot]`, type: 'Bot' }
+  return { login: author.login, type: 'User' }
+}
+
+// Timeline item types -> REST timeline event names
+const TIMELINE_EVENTS = {
+  ReadyForReviewEvent: 'ready_for_review',
+  ConvertToDraftEvent: 'convert_to_draft',
+  ReviewRequestedEvent: 'review_requested',
+  ReviewRequestRemovedEvent: 'review_request_removed',
+  PullRequestCommit: 'committed',
+  HeadRefForcePushedEvent: 'head_ref_force_pushed',
+  MergedEvent: 'merged',
+  ClosedEvent: 'closed'
+}
+
+// Map a timeline item onto a REST timeline entry
+function timelineEntryOf(item) {
+  const event = TIMELINE_EVENTS[item.__typename]
+  if (item.__typename === 'PullRequestCommit') {
+    return { event, sha: item.commit.oid, committer: { date: item.commit.committedDate } }
+  }
+
+  const entry = { event, created_at: item.createdAt, actor: item.actor ? userOf(item.actor) : null }
+  const requested = item.requestedReviewer
+  if (requested?.__typename === 'Team') {
+    entry.requested_team = { slug: requested.slug }
+  } else if (requested) {
+    entry.requested_reviewer = userOf(requested)
+  }
+  return entry
+}
+
+// Convert a (fully paginated) PullRequest node into the PR list entry + raw data
+export function parsePullRequestNode(node, repo) {
+  const reviews = node.reviews.nodes.map(review => ({
+    id: review.databaseId,
+    user: userOf(review.author),
+    state: review.state,
+    submitted_at: review.submittedAt,
+    body: review.body || ''
+  }))
+
+  const reviewComments = {}
+  for (const review of node.reviews.nodes) {
+    reviewComments[review.databaseId] = review.comments.nodes.map(c => ({ created_at: c.createdAt, path: c.path, body: c.body }))
+  }
+
+  const author = userOf(node.author)
+
+  return {
+    repo,
+    number: node.number,
+    title: node.title,
+    author: author.login,
+    authorIsBot: author.type === 'Bot',
+    status: node.state.toLowerCase(),  // merged, closed or open
+    draft: node.isDraft,
+    baseRef: node.baseRefName,
+    createdAt: node.createdAt,
+    mergedAt: node.mergedAt,
+    closedAt: node.closedAt,
+    updatedAt: node.updatedAt,
+    url: node.url,
+    raw: {
+      files: node.files.nodes.map(f => ({
+        filename: f.path,
+        additions: f.additions || 0,
+        deletions: f.deletions || 0,
+        status: FILE_STATUS[f.changeType] || 'modified'
+      })),
+      reviews,
+      reviewComments,
+      conversationComments: node.comments.nodes.map(c => ({
+        user: userOf(c.author),
+        created_at: c.createdAt,
+        body: c.body
+      })),
+      timeline: node.timelineItems.nodes.map(timelineEntryOf),
+      // File lists per commit are not exposed by GraphQL; filled in by the collector
+      commits: node.commits.nodes.map(c => ({ sha: c.commit.oid, date: c.commit.authoredDate }))
+    }
+  }
+}
+
+// Page through a repo's PRs in the given states (most recently updated first)
+// keep(node) selects PRs; pages stop once stopBefore is passed (null = read every page)
+async function fetchPullRequestNodes(org, repo, states, keep, stopBefore) {
+  const nodes = []
+  let after = null
+
+  while (true) {
+    const data = await runGraphQL(PULL_REQUESTS_QUERY, { owner: org, repo, states, after })
+    const connection = data.repository.pullRequests
+
+    for (const node of connection.nodes) {
+      // Ordered by updatedAt desc: a PR updated before the window cannot have been merged or closed in it
+      if (stopBefore && new Date(node.updatedAt) < stopBefore) return nodes
+
+      if (keep(node)) {
+        nodes.push(parsePullRequestNode(await completePullRequestNode(node), repo))
+      }
+    }
+
+    if (!connection.pageInfo.hasNextPage) return nodes
+    after = connection.pageInfo.endCursor
+  }
+}
+
+// GraphQL search for searchInWindows: counted first, since each page carries full PR payloads
+const graphQLSearch = {
+  async count(query) {
+    const data = await runGraphQL(SEARCH_COUNT_QUERY, { query })
+    return data.search.issueCount
+  },
+  async page(query, after) {
+    const data = await runGraphQL(SEARCH_QUERY, { query, after })
+    const { issueCount, pageInfo, nodes } = data.search
+    return { total: issueCount, items: nodes, next: pageInfo.hasNextPage ? pageInfo.endCursor : null }
+  }
+}
+
+// Find PRs merged (and, with include.closed, closed without merging) in the period with a GraphQL search
+// Search nodes carry baseRefName, so branch patterns are matched on the results
+async function searchPullRequestNodes(org, repo, period, include, keep) {
+  const searches = ['is:merged merged', ...(include.closed ? ['is:closed is:unmerged closed'] : [])]
+  const nodes = []
+
+  for (const search of searches) {
+    const found = await searchInWindows(
+      graphQLSearch,
+      (since, until) => `repo:${org}/${repo} is:pr ${search}:${since}..${until}`,
+      period.since,
+      period.until
+    )
+    for (const node of found) {
+      if (keep(node)) {
+        nodes.push(parsePullRequestNode(await completePullRequestNode(node), repo))
+      }
+    }
+  }
+
+  return nodes
+}
+
+// Fetch PRs merged into one of the base branches in the target period, with all review data, via GraphQL
+// include.closed adds PRs closed without merging in the period; include.open adds PRs still open
+// (pullRequests only filters on a single exact baseRefName, so branch patterns are matched here)
+// discovery 'search' finds merged and closed PRs with a search, 'list' by paging through recently
+// updated PRs (also used when the search fails)
+export async function fetchMergedPRsGraphQL(org, repo, period, include = {}, baseBranches = ['main'], discovery = 'search') {
+  console.log(`📥 Fetching PRs for ${repo} (GraphQL)...`)
+
+  const startDate = new Date(period.since)
+  const endDate = new Date(period.until)
+  const inPeriod = (timestamp) => new Date(timestamp) >= startDate && new Date(timestamp) <= endDate
+  const isBaseBranch = createBaseBranchMatcher(baseBranches)
+  const keep = node => isBaseBranch(node.baseRefName) && inPeriod(node.mergedAt || node.closedAt)
+
+  let endedPRs = null
+  if (discovery === 'search') {
+    try {
+      endedPRs = await searchPullRequestNodes(org, repo, period, include, keep)
+    } catch (error) {
+      console.warn(`   ⚠️  PR search failed (${error.message}), listing PRs instead`)
+    }
+  }
+  if (!endedPRs) {
+    const states = include.closed ? ['MERGED', 'CLOSED'] : ['MERGED']
+    endedPRs = await fetchPullRequestNodes(org, repo, states, keep, startDate)
+  }
+  const mergedPRs = endedPRs.filter(pr => pr.status === 'merged')
+
+  console.log(`   Found ${mergedPRs.length} merged PRs in ${period.id}`)
+  if (include.closed) console.log(`   Found ${endedPRs.length - mergedPRs.length} PRs closed without merging`)
+
+  if (!include.open) return endedPRs
+
+  const openPRs = await fetchPullRequestNodes(org, repo, ['OPEN'], node => isBaseBranch(node.baseRefName) && new Date(node.createdAt) <= endDate, null)
+  console.log(`   Found ${openPRs.length} open PRs`)
+
+  return [...endedPRs, ...openPRs]
+}
@@ -0,0 +1,45 @@
+// PR discovery through GitHub search (REST search/issues or GraphQL search)
+// A search returns at most 1000 results, so a window matching more is split in half
+// (repeatedly) and each part searched on its own
+
+export const SEARCH_RESULT_CAP = 1000
+
+// Windows shorter than this are not split further (their results past the cap are lost)
+const MIN_WINDOW_MS = 60 * 1000
+
+// Search range bound: ISO timestamp to the second, as the search syntax expects
+const searchTimestamp = (ms) => new Date(ms).toISOString().replace(/\.\d{3}Z$/, 'Z')
+
+// Every result of the query built for [since, until] (ISO timestamps, inclusive)
+// buildQuery(since, until) returns the search string for a window
+// search.page(query, cursor) fetches one page: { total, items, next } (next is the following page's cursor or null)
+// search.count(query), if given, returns the total alone; it is asked before any page so a window
+// over the cap is split without fetching results it would throw away (for searches with heavy pages)
+export async function searchInWindows(search, buildQuery, since, until) {
+  const start = new Date(since).getTime()
+  const end = new Date(until).getTime()
+  const query = buildQuery(searchTimestamp(start), searchTimestamp(end))
+  const first = search.count ? null : await search.page(query, null)
+  const total = first ? first.total : await search.count(query)
+
+  if (total > SEARCH_RESULT_CAP) {
+    if (end - start >= MIN_WINDOW_MS) {
+      const middle = start + Math.floor((end - start) / 2000) * 1000
+      return [
+        ...await searchInWindows(search, buildQuery, start, middle),
+        ...await searchInWindows(search, buildQuery, middle + 1000, end)
+      ]
+    }
+    console.warn(`   ⚠️  ${total} search results between ${searchTimestamp(start)} and ${searchTimestamp(end)}; only the first ${SEARCH_RESULT_CAP} are collected`)
+  }
+
+  if (total === 0) return []
+
+  const items = []
+  let page = first ?? await search.page(query, null)
+  while (true) {
+    items.push(...page.items)
+    if (!page.next) return items
+    page = await search.page(query, page.next)
+  }
+}
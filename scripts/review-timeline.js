@@ -0,0 +1,139 @@
+// Review-cycle event sequence for one PR, built from the issue timeline and its reviews
+// Timeline entries use the REST shape (`issues/{n}/timeline`); the GraphQL backend maps onto it
+// Phases and durations are derived from the events by shared/review-timeline.js
+
+// Timestamp of a REST timeline entry (commits carry theirs on the committer)
+const timestampOf = (entry) => entry.created_at || entry.submitted_at || entry.committer?.date || entry.author?.date || null
+
+// Order of simultaneous events, so e.g. a review request sorts after the ready-for-review that triggered it
+const TYPE_ORDER = ['opened', 'converted_to_draft', 'ready_for_review', 'pushed', 'review_request_removed', 'review_requested', 'reviewed', 'merged', 'closed']
+
+// reviews are processed PRDetail reviews; bot reviews and the author's own replies are left out
+// isAuthor(login) tells the author's logins apart (aliases included); defaults to the PR's author login
+// Merged PRs end with a merged event, PRs closed without merging with a closed event; open PRs have no end
+export function buildReviewTimeline(pr, timeline, reviews, isAuthor = login => login === pr.author) {
+  const entries = (timeline || []).filter(entry => timestampOf(entry))
+
+  // A PR opened as a draft first shows up as ready_for_review (never as convert_to_draft)
+  const firstDraftChange = entries.find(entry => entry.event === 'ready_for_review' || entry.event === 'convert_to_draft')
+  const events = [{ type: 'opened', at: pr.createdAt, actor: pr.author, draft: firstDraftChange?.event === 'ready_for_review' }]
+
+  const humanReviews = reviews
+    .filter(review => review.submittedAt && !review.isBot && !isAuthor(review.reviewer))
+    .map(review => ({ type: 'reviewed', at: review.submittedAt, actor: review.reviewer, state: review.state }))
+  events.push(...humanReviews)
+
+  // Pushes only matter once someone has asked for changes
+  const firstChangesRequested = humanReviews
+    .filter(review => review.state === 'CHANGES_REQUESTED')
+    .map(review => new Date(review.at))
+    .sort((a, b) => a - b)[0]
+
+  for (const entry of entries) {
+    const at = timestampOf(entry)
+    const actor = entry.actor?.login || null
+
+    switch (entry.event) {
+      case 'ready_for_review':
+        events.push({ type: 'ready_for_review', at, actor })
+        break
+      case 'convert_to_draft':
+        events.push({ type: 'converted_to_draft', at, actor })
+        break
+      case 'review_requested':
+      case 'review_request_removed': {
+        // Skip requests to bots and to accounts deleted since
+        if (entry.requested_reviewer?.type === 'Bot') break
+        const target = entry.requested_reviewer
+          ? { reviewer: entry.requested_reviewer.login }
+          : entry.requested_team && { team: entry.requested_team.slug || entry.requested_team.name }
+        if (!target) break
+        const event = { type: entry.event, at, actor, ...target }
+        if (entry.event === 'review_requested' && target.reviewer) {
+          event.rerequest = humanReviews.some(review => review.actor === target.reviewer && new Date(review.at) < new Date(at))
+        }
+        events.push(event)
+        break
+      }
+      case 'committed':
+      case 'head_ref_force_pushed':
+        if (firstChangesRequested && new Date(at) > firstChangesRequested) {
+          events.push({ type: 'pushed', at, actor, ...(entry.sha && { sha: entry.sha }) })
+        }
+        break
+    }
+  }
+
+  if (pr.mergedAt) {
+    const mergedEntry = entries.find(entry => entry.event === 'merged')
+    events.push({ type: 'merged', at: pr.mergedAt, actor: mergedEntry?.actor?.login || null })
+  } else if (pr.closedAt) {
+    const closedEntry = entries.filter(entry => entry.event === 'closed').pop()
+    events.push({ type: 'closed', at: pr.closedAt, actor: closedEntry?.actor?.login || null })
+  }
+
+  // Drop anything outside the PR's open window (e.g. reviews submitted after merge)
+  const openedAt = new Date(pr.createdAt)
+  const endedAt = new Date(pr.mergedAt || pr.closedAt || Date.now())
+  return events
+    .filter(event => new Date(event.at) >= openedAt && new Date(event.at) <= endedAt)
+    .sort((a, b) => new Date(a.at) - new Date(b.at) || TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type))
+}
+
+// Reviewers whose review is still outstanding at the end of the timeline:
+// requested (and not removed) but not reviewed since. Teams are listed as @slug;
+// like on GitHub, any review is taken to answer a team request (membership is not known here)
+export function getPendingReviewers(events) {
+  const pending = new Set()
+  for (const event of events) {
+    const target = event.reviewer ?? (event.team && `@${event.team}`)
+    if (event.type === 'review_requested') pending.add(target)
+    if (event.type === 'review_request_removed') pending.delete(target)
+    if (event.type === 'reviewed') {
+      pending.delete(event.actor)
+      for (const name of pending) {
+        if (name.startsWith('@')) pending.delete(name)
+      }
+    }
+  }
+  return Array.from(pending)
+}
+
+// Set requestedAt on each review: when the reviewer was asked for the review they submitted
+// That is the earliest request to them after their previous review (a re-request starts a new wait).
+// Without a personal request, the earliest team request in that window is used; otherwise null.
+// A request removed before the review was submitted did not ask for it
+export function assignRequestTimes(reviews, timeline) {
+  const entriesOf = (event) => (timeline || [])
+    .filter(entry => entry.event === event && entry.created_at)
+    .map(entry => ({
+      at: new Date(entry.created_at),
+      reviewer: entry.requested_reviewer?.login ?? null,
+      team: entry.requested_team ? entry.requested_team.slug || entry.requested_team.name : null
+    }))
+    .sort((a, b) => a.at - b.at)
+  const requests = entriesOf('review_requested')
+  const removals = entriesOf('review_request_removed')
+  const removedBefore = (request, before) => removals.some(removal =>
+    removal.at > request.at && removal.at < before &&
+    removal.reviewer === request.reviewer && removal.team === request.team)
+
+  const requestedAt = new Map() // review -> ISO timestamp
+  const previousSubmission = new Map() // reviewer -> their previous review's submission
+  const submitted = reviews
+    .filter(review => review.submittedAt)
+    .sort((a, b) => new Date(a.submittedAt) - new Date(b.submittedAt))
+
+  for (const review of submitted) {
+    const submittedAt = new Date(review.submittedAt)
+    const after = previousSubmission.get(review.reviewer) ?? new Date(0)
+    const inWindow = requests.filter(request =>
+      request.at > after && request.at <= submittedAt && !removedBefore(request, submittedAt))
+    const request = inWindow.find(r => r.reviewer === review.reviewer) ?? inWindow.find(r => r.team)
+
+    requestedAt.set(review, request ? request.at.toISOString() : null)
+    previousSubmission.set(review.reviewer, submittedAt)
+  }
+
+  return reviews.map(review => ({ ...review, requestedAt: requestedAt.get(review) ?? null }))
+}
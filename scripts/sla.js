@@ -0,0 +1,107 @@
+// Service-level checks run by the collector after the summaries (config.slas)
+// Each rule caps one metric: { id, metric, max }; a value above max is a violation
+//   PR metrics        firstResponseHours, timeToMergeHours, prodLines, iterations
+//   Reviewer metrics  responseHours (median), noCommentApprovalPct
+//   Team metrics      teamResponseHours (median), teamNoCommentApprovalPct
+// Durations are working hours. Bot PRs and bot reviews are never checked, and reviewers with
+// fewer than MIN_SAMPLE_SIZE measured values are skipped rather than flagged on a handful of reviews
+
+import { getPRKey } from '../shared/pr-key.js'
+import { getCloseHours, getFirstResponseHours, aggregateReviewerStats, median, MIN_SAMPLE_SIZE } from '../shared/metrics-engine.js'
+
+const round = (value) => Math.round(value * 100) / 100
+
+const SLA_METRICS = {
+  firstResponseHours: { scope: 'pr', label: 'First response (working hours)', value: (pr, calendar) => getFirstResponseHours(pr, calendar) },
+  timeToMergeHours: { scope: 'pr', label: 'Time to merge (working hours)', value: (pr, calendar) => getCloseHours(pr, calendar) },
+  prodLines: { scope: 'pr', label: 'Source lines changed', value: pr => pr.prodAdditions + pr.prodDeletions },
+  iterations: { scope: 'pr', label: 'Review iterations', value: pr => pr.iterationCount },
+  responseHours: {
+    scope: 'reviewer',
+    label: 'Median response (working hours)',
+    value: stats => stats.responseTimes.length >= MIN_SAMPLE_SIZE ? median(stats.responseTimes) : null
+  },
+  noCommentApprovalPct: {
+    scope: 'reviewer',
+    label: 'No-comment approvals (%)',
+    value: stats => stats.approvals >= MIN_SAMPLE_SIZE ? stats.noCommentApprovalPct : null
+  },
+  teamResponseHours: { scope: 'team', label: 'Team median response (working hours)', value: team => team.reviewed.medianResponseTime },
+  teamNoCommentApprovalPct: { scope: 'team', label: 'Team no-comment approvals (%)', value: team => team.reviewed.overallNoCommentPct }
+}
+
+export const SLA_METRIC_NAMES = Object.keys(SLA_METRICS)
+
+// Throws on a rule the collector cannot evaluate, so a typo does not silently pass every run
+export function validateSlaRules(rules) {
+  const ids = new Set()
+  for (const rule of rules) {
+    if (!rule.id || ids.has(rule.id)) {
+      throw new Error(`SLA rules need a unique id (got ${JSON.stringify(rule.id)})`)
+    }
+    ids.add(rule.id)
+    if (!SLA_METRICS[rule.metric]) {
+      throw new Error(`SLA "${rule.id}": unknown metric "${rule.metric}" (use ${SLA_METRIC_NAMES.join(', ')})`)
+    }
+    if (typeof rule.max !== 'number' || Number.isNaN(rule.max)) {
+      throw new Error(`SLA "${rule.id}": max must be a number`)
+    }
+  }
+}
+
+// Violations report for the output JSON: one entry per rule with the offending PRs, reviewers or team
+// prDetails are the merged PRs behind the summaries; teamSummary is calculateTeamSummary's result
+export function evaluateSlas(rules, { prDetails, teamSummary, calendar }) {
+  const countedPRs = prDetails.filter(pr => !pr.error && !pr.authorIsBot)
+  const reviewerStats = aggregateReviewerStats(prDetails, calendar)
+
+  const results = rules.map(rule => {
+    const metric = SLA_METRICS[rule.metric]
+    const violations = []
+    let checked = 0
+
+    if (metric.scope === 'pr') {
+      for (const pr of countedPRs) {
+        const value = metric.value(pr, calendar)
+        if (value === null || value === undefined) continue
+        checked++
+        if (value > rule.max) {
+          violations.push({ subject: getPRKey(pr), value: round(value), developer: pr.author, title: pr.title, url: pr.url })
+        }
+      }
+    } else if (metric.scope === 'reviewer') {
+      for (const stats of reviewerStats) {
+        const value = metric.value(stats)
+        if (value === null || value === undefined) continue
+        checked++
+        if (value > rule.max) {
+          violations.push({ subject: stats.reviewer, value: round(value), developer: stats.reviewer })
+        }
+      }
+    } else {
+      const value = metric.value(teamSummary)
+      if (value !== null && value !== undefined) {
+        checked++
+        if (value > rule.max) violations.push({ subject: 'team', value: round(value) })
+      }
+    }
+
+    // Worst first
+    violations.sort((a, b) => b.value - a.value)
+
+    return {
+      id: rule.id,
+      metric: rule.metric,
+      label: rule.label || metric.label,
+      scope: metric.scope,
+      max: rule.max,
+      checked,
+      violations
+    }
+  })
+
+  return {
+    total: results.reduce((sum, result) => sum + result.violations.length, 0),
+    rules: results
+  }
+}
@@ -0,0 +1,220 @@
+import { mkdir } from 'fs/promises'
+import { dirname } from 'path'
+import { getReviewResponseWindow, getReviewableAt } from '../shared/review-timeline.js'
+import { getPRKey } from '../shared/pr-key.js'
+
+// Optional SQLite store with one row per PR, review and commit, keyed by `org/repo#number`
+// (repo names alone can repeat across orgs)
+// Enabled with SQLITE_PATH or --sqlite=path (same variable as the dashboard)
+// Working hours are stored precomputed so the dashboard can aggregate them in SQL
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS pull_requests (
+    id TEXT PRIMARY KEY,               -- org/repo#number
+    org TEXT NOT NULL,
+    repo TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    author TEXT NOT NULL,
+    author_is_bot INTEGER NOT NULL DEFAULT 0,
+    url TEXT NOT NULL,
+    base_ref TEXT,                     -- Target branch
+    created_at TEXT NOT NULL,          -- ISO timestamps (UTC)
+    ready_for_review_at TEXT,          -- First ready-for-review of a PR opened as a draft, else created_at
+    merged_at TEXT NOT NULL,
+    updated_at TEXT,
+    first_response_at TEXT,
+    total_additions INTEGER NOT NULL,
+    total_deletions INTEGER NOT NULL,
+    prod_additions INTEGER NOT NULL,
+    prod_deletions INTEGER NOT NULL,
+    test_additions INTEGER NOT NULL,
+    test_deletions INTEGER NOT NULL,
+    files_changed INTEGER NOT NULL,
+    prod_files_changed INTEGER NOT NULL,
+    test_files_changed INTEGER NOT NULL,
+    iteration_count INTEGER NOT NULL,
+    commit_count INTEGER NOT NULL,
+    churn_percentage REAL NOT NULL,
+    file_churn_count INTEGER NOT NULL,
+    review_hours REAL,                 -- Working hours from ready for review to first response
+    close_hours REAL NOT NULL,         -- Working hours from ready for review to merge
+    collected_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS reviews (
+    pr_id TEXT NOT NULL REFERENCES pull_requests(id) ON DELETE CASCADE,
+    seq INTEGER NOT NULL,              -- Position in the PR's review list
+    reviewer TEXT NOT NULL,
+    is_bot INTEGER NOT NULL DEFAULT 0,
+    state TEXT NOT NULL,
+    submitted_at TEXT,
+    requested_at TEXT,                 -- Review request this review answered (null if unrequested)
+    first_activity_at TEXT,
+    has_comments INTEGER NOT NULL,
+    inline_comment_count INTEGER NOT NULL,
+    conversation_comment_count INTEGER NOT NULL,
+    body TEXT NOT NULL,
+    response_hours REAL,               -- Working hours from review request (ready for review if unrequested) to first activity
+    open_response_hours REAL,          -- Working hours from PR open to first activity
+    PRIMARY KEY (pr_id, seq)
+  );
+
+  CREATE TABLE IF NOT EXISTS commits (
+    pr_id TEXT NOT NULL REFERENCES pull_requests(id) ON DELETE CASCADE,
+    sha TEXT NOT NULL,
+    committed_at TEXT,
+    additions INTEGER NOT NULL,
+    deletions INTEGER NOT NULL,
+    files_changed INTEGER NOT NULL,
+    PRIMARY KEY (pr_id, sha)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_pull_requests_merged_at ON pull_requests(merged_at);
+  CREATE INDEX IF NOT EXISTS idx_pull_requests_author ON pull_requests(author);
+  CREATE INDEX IF NOT EXISTS idx_reviews_reviewer ON reviews(reviewer);
+`
+
+// Normalize timestamps so string comparison in SQL matches time order
+const toISO = (value) => value ? new Date(value).toISOString() : null
+
+// Open (and create if needed) the store at dbPath
+// better-sqlite3 is loaded lazily so runs without a store need no npm install
+export async function openMetricsStore(dbPath) {
+  const { default: Database } = await import('better-sqlite3')
+  await mkdir(dirname(dbPath), { recursive: true })
+
+  const db = new Database(dbPath)
+  db.pragma('journal_mode = WAL')
+  db.pragma('foreign_keys = ON')
+  db.exec(SCHEMA)
+
+  const upsertPR = db.prepare(`
+    INSERT INTO pull_requests (
+      id, org, repo, number, title, author, author_is_bot, url, base_ref, created_at, ready_for_review_at, merged_at, updated_at, first_response_at,
+      total_additions, total_deletions, prod_additions, prod_deletions, test_additions, test_deletions,
+      files_changed, prod_files_changed, test_files_changed, iteration_count, commit_count,
+      churn_percentage, file_churn_count, review_hours, close_hours, collected_at
+    ) VALUES (
+      @id, @org, @repo, @number, @title, @author, @authorIsBot, @url, @baseRef, @createdAt, @readyForReviewAt, @mergedAt, @updatedAt, @firstResponseAt,
+      @totalAdditions, @totalDeletions, @prodAdditions, @prodDeletions, @testAdditions, @testDeletions,
+      @filesChanged, @prodFilesChanged, @testFilesChanged, @iterationCount, @commitCount,
+      @churnPercentage, @fileChurnCount, @reviewHours, @closeHours, @collectedAt
+    )
+    ON CONFLICT(id) DO UPDATE SET
+      org = excluded.org, title = excluded.title, author = excluded.author,
+      author_is_bot = excluded.author_is_bot, url = excluded.url, base_ref = excluded.base_ref,
+      created_at = excluded.created_at, ready_for_review_at = excluded.ready_for_review_at,
+      merged_at = excluded.merged_at, updated_at = excluded.updated_at,
+      first_response_at = excluded.first_response_at,
+      total_additions = excluded.total_additions, total_deletions = excluded.total_deletions,
+      prod_additions = excluded.prod_additions, prod_deletions = excluded.prod_deletions,
+      test_additions = excluded.test_additions, test_deletions = excluded.test_deletions,
+      files_changed = excluded.files_changed, prod_files_changed = excluded.prod_files_changed,
+      test_files_changed = excluded.test_files_changed, iteration_count = excluded.iteration_count,
+      commit_count = excluded.commit_count, churn_percentage = excluded.churn_percentage,
+      file_churn_count = excluded.file_churn_count, review_hours = excluded.review_hours,
+      close_hours = excluded.close_hours, collected_at = excluded.collected_at
+  `)
+  const deleteReviews = db.prepare('DELETE FROM reviews WHERE pr_id = ?')
+  const insertReview = db.prepare(`
+    INSERT INTO reviews (
+      pr_id, seq, reviewer, is_bot, state, submitted_at, requested_at, first_activity_at, has_comments,
+      inline_comment_count, conversation_comment_count, body, response_hours, open_response_hours
+    ) VALUES (
+      @prId, @seq, @reviewer, @isBot, @state, @submittedAt, @requestedAt, @firstActivityAt, @hasComments,
+      @inlineCommentCount, @conversationCommentCount, @body, @responseHours, @openResponseHours
+    )
+  `)
+  const deleteCommits = db.prepare('DELETE FROM commits WHERE pr_id = ?')
+  const insertCommit = db.prepare(`
+    INSERT OR REPLACE INTO commits (pr_id, sha, committed_at, additions, deletions, files_changed)
+    VALUES (@prId, @sha, @date, @additions, @deletions, @filesChanged)
+  `)
+
+  // Replace each PR and its child rows; re-collecting a period overwrites it
+  // workingHours(startISO, endISO, login) computes the stored durations in that developer's calendar
+  const upsertAll = db.transaction((org, prDetails, workingHours) => {
+    const collectedAt = new Date().toISOString()
+    let count = 0
+
+    for (const pr of prDetails) {
+      if (pr.error) continue
+
+      const prId = `${org}/${getPRKey(pr)}`
+      upsertPR.run({
+        id: prId,
+        org,
+        repo: pr.repo,
+        number: pr.number,
+        title: pr.title,
+        author: pr.author,
+        authorIsBot: pr.authorIsBot ? 1 : 0,
+        url: pr.url,
+        baseRef: pr.baseRef ?? null,
+        createdAt: toISO(pr.createdAt),
+        readyForReviewAt: toISO(getReviewableAt(pr)),
+        mergedAt: toISO(pr.mergedAt),
+        updatedAt: toISO(pr.updatedAt),
+        firstResponseAt: toISO(pr.firstResponseAt),
+        totalAdditions: pr.totalAdditions,
+        totalDeletions: pr.totalDeletions,
+        prodAdditions: pr.prodAdditions,
+        prodDeletions: pr.prodDeletions,
+        testAdditions: pr.testAdditions,
+        testDeletions: pr.testDeletions,
+        filesChanged: pr.filesChanged,
+        prodFilesChanged: pr.prodFilesChanged,
+        testFilesChanged: pr.testFilesChanged,
+        iterationCount: pr.iterationCount,
+        commitCount: pr.commitCount || 1,
+        churnPercentage: pr.churnPercentage || 0,
+        fileChurnCount: pr.fileChurnCount || 0,
+        reviewHours: pr.firstResponseAt ? workingHours(getReviewableAt(pr), pr.firstResponseAt, pr.author) : null,
+        closeHours: workingHours(getReviewableAt(pr), pr.mergedAt, pr.author),
+        collectedAt
+      })
+
+      // The author's own replies from the review form are not reviews (as in the metrics engine),
+      // so the SQL aggregates match the JSON summaries
+      deleteReviews.run(prId)
+      pr.reviews.forEach((review, seq) => {
+        if (review.reviewer === pr.author) return
+        const response = getReviewResponseWindow(pr, review)
+        insertReview.run({
+          prId,
+          seq,
+          reviewer: review.reviewer,
+          isBot: review.isBot ? 1 : 0,
+          state: review.state,
+          submittedAt: toISO(review.submittedAt),
+          requestedAt: toISO(review.requestedAt),
+          firstActivityAt: toISO(review.firstActivityAt),
+          hasComments: review.hasComments ? 1 : 0,
+          inlineCommentCount: review.inlineCommentCount,
+          conversationCommentCount: review.conversationCommentCount || 0,
+          body: review.body || '',
+          responseHours: review.firstActivityAt ? workingHours(response.start, response.end, review.reviewer) : null,
+          openResponseHours: review.firstActivityAt ? workingHours(pr.createdAt, review.firstActivityAt, review.reviewer) : null
+        })
+      })
+
+      // PRs resumed from older checkpoints may lack commit summaries; keep existing rows
+      if (pr.commits) {
+        deleteCommits.run(prId)
+        for (const commit of pr.commits) {
+          insertCommit.run({ prId, ...commit, date: toISO(commit.date) })
+        }
+      }
+
+      count++
+    }
+
+    return count
+  })
+
+  return {
+    upsertPRs: (org, prDetails, workingHours) => upsertAll(org, prDetails, workingHours),
+    close: () => db.close()
+  }
+}
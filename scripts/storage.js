@@ -0,0 +1,65 @@
+import { writeFile, mkdir } from 'fs/promises'
+import { join } from 'path'
+
+// Where the collector writes its output files
+// Selected with STORAGE_BACKEND=local|s3 (same variables as the dashboard)
+
+// Local filesystem backend
+function createLocalStorage(dir) {
+  let dirReady = null
+  
+  return {
+    describe: (name) => join(dir, name),
+    async write(name, content) {
+      if (!dirReady) dirReady = mkdir(dir, { recursive: true })
+      await dirReady
+      await writeFile(join(dir, name), content)
+    }
+  }
+}
+
+// S3-compatible object store backend (AWS S3, MinIO, R2, ...)
+// The SDK is loaded lazily so local runs need no npm install
+function createS3Storage({ bucket, prefix, region, endpoint, forcePathStyle }) {
+  const keyPrefix = prefix ? `${prefix.replace(/\/+$/, '')}/` : ''
+  let clientPromise = null
+  
+  const getClient = () => {
+    if (!clientPromise) {
+      clientPromise = import('@aws-sdk/client-s3').then(sdk => ({
+        sdk,
+        client: new sdk.S3Client({ region, endpoint, forcePathStyle })
+      }))
+    }
+    return clientPromise
+  }
+  
+  return {
+    describe: (name) => `s3://${bucket}/${keyPrefix}${name}`,
+    async write(name, content) {
+      const { sdk, client } = await getClient()
+      await client.send(new sdk.PutObjectCommand({
+        Bucket: bucket,
+        Key: `${keyPrefix}${name}`,
+        Body: content,
+        ContentType: name.endsWith('.json') ? 'application/json' : 'text/csv'
+      }))
+    }
+  }
+}
+
+// Create the storage backend from config.storage
+export function createStorage(storageConfig, outputDir) {
+  if (storageConfig.backend === 's3') {
+    if (!storageConfig.s3.bucket) {
+      throw new Error('S3_BUCKET is required when STORAGE_BACKEND=s3')
+    }
+    return createS3Storage(storageConfig.s3)
+  }
+  
+  if (storageConfig.backend === 'local') {
+    return createLocalStorage(outputDir)
+  }
+  
+  throw new Error(`Unknown STORAGE_BACKEND "${storageConfig.backend}". Use local or s3`)
+}
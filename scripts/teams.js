@@ -0,0 +1,81 @@
+// Developer identities and team membership (config.teams)
+// aliases: canonical person -> the GitHub logins they use
+// groups:  team -> members (canonical names or logins); a person may be in several teams
+
+export function createTeamDirectory({ aliases = {}, groups = {} } = {}) {
+  const personByLogin = new Map()
+  for (const [person, logins] of Object.entries(aliases)) {
+    for (const login of logins) {
+      personByLogin.set(login.toLowerCase(), person)
+    }
+  }
+
+  // GitHub logins are case-insensitive
+  const canonical = (login) => personByLogin.get(login.toLowerCase()) ?? login
+
+  const teams = new Map() // team -> Set<person>
+  const addMembers = (team, members) => {
+    if (!teams.has(team)) teams.set(team, new Set())
+    for (const member of members) {
+      teams.get(team).add(canonical(member))
+    }
+  }
+
+  for (const [team, members] of Object.entries(groups)) {
+    addMembers(team, members)
+  }
+
+  return {
+    canonical,
+    addMembers,
+    // { team: [person, ...] } with sorted members
+    getTeams: () => Object.fromEntries(
+      Array.from(teams, ([team, members]) => [team, Array.from(members).sort()])
+    )
+  }
+}
+
+// Rewrite authors, reviewers, pending reviewers and timeline actors to canonical people
+// The original login is kept (authorLogin / reviewerLogin) when it differs
+export function applyIdentities(prDetails, directory) {
+  return prDetails.map(pr => {
+    const author = directory.canonical(pr.author)
+    return {
+      ...pr,
+      author,
+      ...(author !== pr.author && { authorLogin: pr.author }),
+      ...(pr.timeline && {
+        timeline: pr.timeline.map(event => ({
+          ...event,
+          actor: event.actor && directory.canonical(event.actor),
+          ...(event.reviewer && { reviewer: directory.canonical(event.reviewer) })
+        }))
+      }),
+      ...(pr.pendingReviewers && { pendingReviewers: pr.pendingReviewers.map(directory.canonical) }),
+      ...(pr.conversationComments && {
+        conversationComments: pr.conversationComments.map(comment => ({ ...comment, author: directory.canonical(comment.author) }))
+      }),
+      reviews: pr.reviews.map(review => {
+        const reviewer = directory.canonical(review.reviewer)
+        return {
+          ...review,
+          reviewer,
+          ...(reviewer !== review.reviewer && { reviewerLogin: review.reviewer })
+        }
+      })
+    }
+  })
+}
+
+// Add team membership from the GitHub org's teams (the token needs read:org)
+// ghApi(endpoint, paginate) resolves to the parsed response
+export async function importGitHubTeams(org, directory, ghApi) {
+  const teams = await ghApi(`orgs/${org}/teams?per_page=100`, true)
+
+  for (const team of teams) {
+    const members = await ghApi(`orgs/${org}/teams/${team.slug}/members?per_page=100`, true)
+    directory.addMembers(team.name, members.map(member => member.login))
+  }
+
+  return teams.length
+}
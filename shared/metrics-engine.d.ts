@@ -0,0 +1,128 @@
+// Types for metrics-engine.js
+
+import type { WorkingCalendar } from './working-calendar'
+import type { PRDetail, Review, CommentKind, ReviewerSummary, AuthorSummary, TeamSummary } from '../dashboard/types/metrics'
+
+type Calendar = WorkingCalendar | null | undefined
+type PRLike = Pick<PRDetail, 'author' | 'createdAt' | 'readyForReviewAt' | 'mergedAt' | 'firstResponseAt'>
+
+// Numeric per-reviewer aggregates (formatted into ReviewerSummary rows)
+export interface ReviewerStats {
+  reviewer: string
+  totalReviews: number
+  prsReviewedCount: number
+  approvals: number
+  changesRequested: number
+  commentOnlyReviews: number
+  noCommentApprovals: number
+  noCommentApprovalPct: number | null  // null without approvals
+  totalInlineComments: number
+  totalConversationComments: number
+  responseTimes: number[]      // Working hours from review request to first activity
+  openResponseTimes: number[]  // Working hours from PR open to first activity
+  avgPrSize: number
+  avgProdLines: number
+  avgTestLines: number
+  avgIterations: number
+  prsWithMultipleRounds: number
+  avgCloseTime: number | null  // Working hours, reviewed PRs
+  commentKinds: Record<CommentKind, number>
+  substantiveReviews: number          // Reviews with a suggestion, blocking point or question
+  substantiveReviewPct: number | null  // null without reviews
+  prsByRepo: { [repo: string]: number }
+}
+
+// Numeric per-author aggregates (formatted into AuthorSummary rows); averages are null without values
+export interface AuthorStats {
+  author: string
+  prsAuthored: number
+  avgPrSize: number
+  avgProdLines: number
+  avgTestLines: number
+  avgProdFiles: number
+  closeTimes: number[]          // Working hours to merge, one per PR
+  avgReviewTime: number | null  // Working hours to first response
+  avgCloseTime: number          // Working hours to merge
+  avgReviewCount: number
+  avgIterations: number
+  avgCommits: number
+  avgChurnPct: number
+  avgFileChurn: number
+  avgReviewRounds: number | null
+  avgDraftTime: number | null
+  avgWaitingOnReviewer: number | null
+  avgWaitingOnAuthor: number | null
+  prsByRepo: { [repo: string]: number }
+}
+
+export declare function sum(values: number[]): number
+export declare function average(values: number[]): number | null
+export declare function percentile(values: number[], p: number): number | null
+export declare function median(values: number[]): number | null
+
+export declare const MIN_SAMPLE_SIZE: number
+
+export interface ConfidenceInterval {
+  low: number
+  high: number
+}
+
+export declare function bootstrapInterval(
+  values: number[],
+  statistic: (values: number[]) => number | null,
+  options?: { confidence?: number; samples?: number; seed?: number }
+): ConfidenceInterval | null
+export declare function gini(values: number[]): number | null
+
+export declare function weightedAverage<T>(
+  items: T[],
+  valueField: keyof T,
+  weightField: keyof T
+): number
+
+export declare function getCloseHours(pr: PRLike, calendar?: Calendar): number
+export declare function getFirstResponseHours(pr: PRLike, calendar?: Calendar): number | null
+
+export declare function getReviewResponseHours(
+  pr: Pick<PRDetail, 'createdAt' | 'readyForReviewAt'>,
+  review: Pick<Review, 'reviewer' | 'requestedAt' | 'firstActivityAt' | 'submittedAt'>,
+  calendar?: Calendar,
+  from?: 'request' | 'open'
+): number | null
+
+export declare function aggregateReviewerStats(
+  prDetails: PRDetail[],
+  calendar?: Calendar,
+  groupOf?: (review: Review) => string | null
+): ReviewerStats[]
+
+export declare function aggregateAuthorStats(
+  prDetails: PRDetail[],
+  calendar?: Calendar,
+  groupOf?: (pr: PRDetail) => string | null
+): AuthorStats[]
+
+export declare function calculateReviewerSummary(
+  prDetails: PRDetail[],
+  calendar?: Calendar,
+  groupOf?: (review: Review) => string | null
+): ReviewerSummary[]
+
+export declare function calculateAuthorSummary(
+  prDetails: PRDetail[],
+  calendar?: Calendar,
+  groupOf?: (pr: PRDetail) => string | null
+): AuthorSummary[]
+
+export declare function calculateTeamRollups(
+  prDetails: PRDetail[],
+  teams: { [team: string]: string[] },
+  calendar?: Calendar
+): { reviewers: ReviewerSummary[]; authors: AuthorSummary[] }
+
+export declare function calculateTeamSummary(
+  authorSummary: AuthorSummary[],
+  reviewerSummary: ReviewerSummary[],
+  prDetails: PRDetail[],
+  calendar?: Calendar
+): TeamSummary
@@ -0,0 +1,446 @@
+// Review metrics engine shared by the collector and the dashboard
+// The collector writes its summaries with these calculators and the dashboard recomputes
+// filtered views with the same ones, so both always measure the same way
+// Conventions:
+//   Durations are working hours: responses in the reviewer's calendar, everything else in the author's
+//   A duration of 0 working hours is a real value (e.g. opened and merged over a weekend) and is kept
+//   Percentiles interpolate linearly between the nearest ranks; the median is the 0.5 percentile
+//   (the mean of the two middle values for an even count)
+//   Bot-authored PRs, bot reviews and PRs that failed to process are left out
+//   Reviews by the PR's author (replies on their own PR, under any alias once merged) are not reviews
+
+import { calculateWorkingHours } from './working-calendar.js'
+import { summarizeReviewTimeline, getReviewResponseWindow, getReviewableAt } from './review-timeline.js'
+import { getPRKey } from './pr-key.js'
+
+/** @import * as Engine from './metrics-engine.js' */
+/** @import { PRDetail, Review } from '../dashboard/types/metrics' */
+
+/** @type {typeof Engine.sum} */
+export function sum(values) {
+  return values.reduce((a, b) => a + b, 0)
+}
+
+// Mean, or null without values
+/** @type {typeof Engine.average} */
+export function average(values) {
+  return values.length > 0 ? sum(values) / values.length : null
+}
+
+// Value below which a share p (0-1) of the values fall, interpolated at rank (n - 1) * p; null without values
+/** @type {typeof Engine.percentile} */
+export function percentile(values, p) {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = (sorted.length - 1) * Math.min(1, Math.max(0, p))
+  const lower = Math.floor(rank)
+  const upper = Math.ceil(rank)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower)
+}
+
+/** @type {typeof Engine.median} */
+export function median(values) {
+  return percentile(values, 0.5)
+}
+
+// Fewest values a per-developer statistic needs before it is shown without a small-sample warning
+// or can lead a leaderboard
+export const MIN_SAMPLE_SIZE = 5
+
+// Deterministic pseudo-random numbers in [0, 1) (mulberry32), so intervals do not change between renders
+/** @param {number} seed */
+function seededRandom(seed) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Bootstrap percentile confidence interval of a statistic (e.g. median) over the values
+// { low, high }, or null with fewer than 2 values
+/** @type {typeof Engine.bootstrapInterval} */
+export function bootstrapInterval(values, statistic, { confidence = 0.9, samples = 1000, seed = 1 } = {}) {
+  if (values.length < 2) return null
+  const random = seededRandom(seed)
+  const estimates = []
+  for (let i = 0; i < samples; i++) {
+    const resample = values.map(() => values[Math.floor(random() * values.length)])
+    const estimate = statistic(resample)
+    if (estimate !== null) estimates.push(estimate)
+  }
+  const tail = (1 - confidence) / 2
+  const low = percentile(estimates, tail)
+  const high = percentile(estimates, 1 - tail)
+  return low === null || high === null ? null : { low, high }
+}
+
+// Gini coefficient of non-negative values: 0 when all are equal, towards 1 when one value holds everything
+// null without values or when they sum to 0
+/** @type {typeof Engine.gini} */
+export function gini(values) {
+  const total = sum(values)
+  if (values.length === 0 || total === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const weighted = sorted.reduce((acc, value, i) => acc + (i + 1) * value, 0)
+  return (2 * weighted) / (sorted.length * total) - (sorted.length + 1) / sorted.length
+}
+
+// Average of a per-row value weighted by another field (e.g. each reviewer's average by their PR count)
+// Values may be numeric strings, as in the JSON summaries
+/** @type {typeof Engine.weightedAverage} */
+export function weightedAverage(items, valueField, weightField) {
+  let totalWeight = 0
+  let weightedSum = 0
+  for (const item of items) {
+    const value = parseFloat(String(item[valueField])) || 0
+    const weight = Number(item[weightField]) || 0
+    weightedSum += value * weight
+    totalWeight += weight
+  }
+  return totalWeight > 0 ? weightedSum / totalWeight : 0
+}
+
+// Working hours from ready for review to merge
+/** @type {typeof Engine.getCloseHours} */
+export function getCloseHours(pr, calendar) {
+  return calculateWorkingHours(getReviewableAt(pr), pr.mergedAt, calendar, pr.author)
+}
+
+// Working hours from ready for review to the first response by someone else; null without one
+/** @type {typeof Engine.getFirstResponseHours} */
+export function getFirstResponseHours(pr, calendar) {
+  return pr.firstResponseAt ? calculateWorkingHours(getReviewableAt(pr), pr.firstResponseAt, calendar, pr.author) : null
+}
+
+// Working hours a reviewer took to respond: from the review request (ready for review if unrequested)
+// to first activity, or from PR open with from = 'open'; null without activity
+/** @type {typeof Engine.getReviewResponseHours} */
+export function getReviewResponseHours(pr, review, calendar, from = 'request') {
+  if (!review.firstActivityAt) return null
+  const { start, end } = from === 'open'
+    ? { start: pr.createdAt, end: review.firstActivityAt }
+    : getReviewResponseWindow(pr, review)
+  return calculateWorkingHours(start, end, calendar, review.reviewer)
+}
+
+/** @param {PRDetail} pr */
+const isCounted = (pr) => !pr.error && !pr.authorIsBot
+
+// Reviews that count as someone reviewing the PR
+/** @param {PRDetail} pr @param {Review} review */
+const isPeerReview = (pr, review) => !review.isBot && review.reviewer !== pr.author
+
+// Default rows: one per reviewer / author
+/** @param {Review} review */
+const byReviewer = review => review.reviewer
+/** @param {PRDetail} pr */
+const byAuthor = pr => pr.author
+
+// Comment kinds that ask for something; a review with one of them is substantive (not a rubber stamp)
+const SUBSTANTIVE_KINDS = ['suggestion', 'blocking', 'question']
+/** @type {(value: number | null, decimals?: number) => string | null} */
+const toFixedOrNull = (value, decimals = 2) => value === null ? null : value.toFixed(decimals)
+
+// Numeric per-reviewer aggregates
+// groupOf maps a review to its row (e.g. a team name); null skips the review
+// Reviews of a PR authored by a bot still count for the reviewer
+/** @type {typeof Engine.aggregateReviewerStats} */
+export function aggregateReviewerStats(prDetails, calendar, groupOf = byReviewer) {
+  const reviewerStats = new Map()
+
+  for (const pr of prDetails) {
+    if (pr.error) continue
+
+    for (const review of pr.reviews) {
+      if (!isPeerReview(pr, review)) continue
+
+      const reviewer = groupOf(review)
+      if (!reviewer) continue
+
+      if (!reviewerStats.has(reviewer)) {
+        reviewerStats.set(reviewer, {
+          reviewer,
+          totalReviews: 0,
+          approvals: 0,
+          changesRequested: 0,
+          commentOnlyReviews: 0,
+          noCommentApprovals: 0,
+          totalInlineComments: 0,
+          totalConversationComments: 0,
+          responseTimes: [],
+          openResponseTimes: [],
+          // Labelled comments: review bodies, inline comments and conversation comments
+          commentKinds: { suggestion: 0, nit: 0, blocking: 0, question: 0, praise: 0, other: 0 },
+          substantiveReviews: 0,
+          prs: new Map(),  // repo#number -> PR, counted once per reviewer
+          conversationsCounted: new Set(),  // repo#number:reviewer
+        })
+      }
+
+      const stats = reviewerStats.get(reviewer)
+      stats.totalReviews++
+
+      if (review.state === 'APPROVED') {
+        stats.approvals++
+        if (!review.hasComments) stats.noCommentApprovals++
+      } else if (review.state === 'CHANGES_REQUESTED') {
+        stats.changesRequested++
+      } else if (review.state === 'COMMENTED') {
+        stats.commentOnlyReviews++
+      }
+
+      stats.totalInlineComments += review.inlineCommentCount
+      stats.totalConversationComments += review.conversationCommentCount || 0
+
+      const responseHours = getReviewResponseHours(pr, review, calendar)
+      if (responseHours !== null) stats.responseTimes.push(responseHours)
+      const openResponseHours = getReviewResponseHours(pr, review, calendar, 'open')
+      if (openResponseHours !== null) stats.openResponseTimes.push(openResponseHours)
+
+      const kinds = [review.bodyKind, ...(review.inlineComments || []).map(comment => comment.kind)].filter(kind => kind != null)
+      for (const kind of kinds) stats.commentKinds[kind]++
+      if (kinds.some(kind => SUBSTANTIVE_KINDS.includes(kind))) stats.substantiveReviews++
+
+      // Conversation comments belong to the PR, so they count once per reviewer and PR
+      const conversationKey = `${getPRKey(pr)}:${review.reviewer}`
+      if (!stats.conversationsCounted.has(conversationKey)) {
+        stats.conversationsCounted.add(conversationKey)
+        for (const comment of pr.conversationComments || []) {
+          if (comment.author === review.reviewer && comment.kind) stats.commentKinds[comment.kind]++
+        }
+      }
+
+      stats.prs.set(getPRKey(pr), pr)
+    }
+  }
+
+  return Array.from(reviewerStats.values(), ({ prs, conversationsCounted, ...stats }) => {
+    const reviewed = Array.from(prs.values())
+    /** @type {Record<string, number>} */
+    const prsByRepo = {}
+    for (const pr of reviewed) prsByRepo[pr.repo] = (prsByRepo[pr.repo] || 0) + 1
+
+    return {
+      ...stats,
+      prsReviewedCount: reviewed.length,
+      avgPrSize: average(reviewed.map(pr => pr.totalAdditions + pr.totalDeletions)) ?? 0,
+      avgProdLines: average(reviewed.map(pr => pr.prodAdditions + pr.prodDeletions)) ?? 0,
+      avgTestLines: average(reviewed.map(pr => pr.testAdditions + pr.testDeletions)) ?? 0,
+      avgIterations: average(reviewed.map(pr => pr.iterationCount)) ?? 0,
+      prsWithMultipleRounds: reviewed.filter(pr => pr.iterationCount > 1).length,
+      avgCloseTime: average(reviewed.map(pr => getCloseHours(pr, calendar))),
+      noCommentApprovalPct: stats.approvals > 0 ? stats.noCommentApprovals / stats.approvals * 100 : null,
+      substantiveReviewPct: stats.totalReviews > 0 ? stats.substantiveReviews / stats.totalReviews * 100 : null,
+      prsByRepo
+    }
+  })
+}
+
+// Numeric per-author aggregates
+// groupOf maps a PR to its row (e.g. a team name); null skips the PR
+/** @type {typeof Engine.aggregateAuthorStats} */
+export function aggregateAuthorStats(prDetails, calendar, groupOf = byAuthor) {
+  /** @type {Map<string, PRDetail[]>} */
+  const authorPRs = new Map()
+
+  for (const pr of prDetails) {
+    if (!isCounted(pr)) continue
+
+    const author = groupOf(pr)
+    if (!author) continue
+
+    const prs = authorPRs.get(author)
+    if (prs) prs.push(pr)
+    else authorPRs.set(author, [pr])
+  }
+
+  return Array.from(authorPRs, ([author, prs]) => {
+    const reviewTimes = prs.map(pr => getFirstResponseHours(pr, calendar)).filter(hours => hours !== null)
+    const closeTimes = prs.map(pr => getCloseHours(pr, calendar))
+    // Review-cycle phases (PRs collected before timelines are skipped)
+    const phases = prs
+      .filter(pr => pr.timeline)
+      .map(pr => summarizeReviewTimeline(pr.timeline, calendar, pr.author))
+    /** @type {Record<string, number>} */
+    const prsByRepo = {}
+    for (const pr of prs) prsByRepo[pr.repo] = (prsByRepo[pr.repo] || 0) + 1
+
+    return {
+      author,
+      prsAuthored: prs.length,
+      avgPrSize: average(prs.map(pr => pr.totalAdditions + pr.totalDeletions)) ?? 0,
+      avgProdLines: average(prs.map(pr => pr.prodAdditions + pr.prodDeletions)) ?? 0,
+      avgTestLines: average(prs.map(pr => pr.testAdditions + pr.testDeletions)) ?? 0,
+      avgProdFiles: average(prs.map(pr => pr.prodFilesChanged)) ?? 0,
+      avgReviewTime: average(reviewTimes),
+      closeTimes,
+      avgCloseTime: average(closeTimes) ?? 0,
+      avgReviewCount: average(prs.map(pr => pr.reviews.filter(review => isPeerReview(pr, review)).length)) ?? 0,
+      avgIterations: average(prs.map(pr => pr.iterationCount)) ?? 0,
+      avgCommits: average(prs.map(pr => pr.commitCount || 1)) ?? 0,
+      // Older files may lack churn; those PRs are left out of the churn averages
+      avgChurnPct: average(prs.map(pr => pr.churnPercentage).filter(value => value !== undefined)) ?? 0,
+      avgFileChurn: average(prs.map(pr => pr.fileChurnCount).filter(value => value !== undefined)) ?? 0,
+      avgReviewRounds: average(phases.map(p => p.reviewRounds)),
+      avgDraftTime: average(phases.map(p => p.draftHours)),
+      avgWaitingOnReviewer: average(phases.map(p => p.waitingOnReviewerHours)),
+      avgWaitingOnAuthor: average(phases.map(p => p.waitingOnAuthorHours)),
+      prsByRepo
+    }
+  })
+}
+
+// Per-reviewer summary rows as written to the JSON output, most reviews first
+/** @type {typeof Engine.calculateReviewerSummary} */
+export function calculateReviewerSummary(prDetails, calendar, groupOf) {
+  return aggregateReviewerStats(prDetails, calendar, groupOf)
+    .map(stats => {
+      const fastestResponse = stats.responseTimes.length > 0 ? Math.min(...stats.responseTimes) : null
+      return {
+        reviewer: stats.reviewer,
+        totalReviews: stats.totalReviews,
+        prsReviewedCount: stats.prsReviewedCount,
+        approvals: stats.approvals,
+        changesRequested: stats.changesRequested,
+        commentOnlyReviews: stats.commentOnlyReviews,
+        noCommentApprovals: stats.noCommentApprovals,
+        noCommentApprovalPct: parseFloat((stats.noCommentApprovalPct ?? 0).toFixed(1)),
+        totalInlineComments: stats.totalInlineComments,
+        totalConversationComments: stats.totalConversationComments,
+        // Response times are working hours from review request (ready for review if not requested) to first activity
+        medianResponseHours: toFixedOrNull(median(stats.responseTimes)),
+        p90ResponseHours: toFixedOrNull(percentile(stats.responseTimes, 0.9)),
+        fastestResponseHours: toFixedOrNull(fastestResponse),
+        // Same, measured from PR open
+        medianResponseFromOpenHours: toFixedOrNull(median(stats.openResponseTimes)),
+        p90ResponseFromOpenHours: toFixedOrNull(percentile(stats.openResponseTimes, 0.9)),
+        avgPrSizeReviewed: Math.round(stats.avgPrSize),
+        avgPrProdLinesReviewed: Math.round(stats.avgProdLines),
+        avgPrTestLinesReviewed: Math.round(stats.avgTestLines),
+        avgIterationsPerPr: stats.avgIterations.toFixed(2),
+        avgReviewedPrCloseTime: toFixedOrNull(stats.avgCloseTime),
+        prsWithMultipleRounds: stats.prsWithMultipleRounds,
+        // Comments by kind (heuristic labels) and reviews with a suggestion, blocking point or question
+        suggestionComments: stats.commentKinds.suggestion,
+        nitComments: stats.commentKinds.nit,
+        blockingComments: stats.commentKinds.blocking,
+        questionComments: stats.commentKinds.question,
+        praiseComments: stats.commentKinds.praise,
+        otherComments: stats.commentKinds.other,
+        substantiveReviews: stats.substantiveReviews,
+        substantiveReviewPct: parseFloat((stats.substantiveReviewPct ?? 0).toFixed(1)),
+        ...stats.prsByRepo
+      }
+    })
+    .sort((a, b) => b.totalReviews - a.totalReviews)
+}
+
+// Per-author summary rows as written to the JSON output, most PRs first
+/** @type {typeof Engine.calculateAuthorSummary} */
+export function calculateAuthorSummary(prDetails, calendar, groupOf) {
+  return aggregateAuthorStats(prDetails, calendar, groupOf)
+    .map(stats => ({
+      author: stats.author,
+      prsAuthored: stats.prsAuthored,
+      authoredPrAvgSize: Math.round(stats.avgPrSize),
+      authoredPrAvgProdLines: Math.round(stats.avgProdLines),
+      authoredPrAvgTestLines: Math.round(stats.avgTestLines),
+      authoredPrAvgReviewTime: toFixedOrNull(stats.avgReviewTime),  // Working hours to first response
+      authoredPrAvgCloseTime: stats.avgCloseTime.toFixed(2),        // Working hours to merge
+      authoredPrAvgReviewCount: stats.avgReviewCount.toFixed(2),
+      authoredPrAvgIterations: stats.avgIterations.toFixed(2),
+      authoredPrAvgCommits: stats.avgCommits.toFixed(2),
+      authoredPrAvgChurnPct: stats.avgChurnPct.toFixed(1),
+      authoredPrAvgFileChurn: stats.avgFileChurn.toFixed(1),
+      authoredPrAvgReviewRounds: toFixedOrNull(stats.avgReviewRounds),
+      authoredPrAvgDraftTime: toFixedOrNull(stats.avgDraftTime),
+      authoredPrAvgWaitingOnReviewer: toFixedOrNull(stats.avgWaitingOnReviewer),
+      authoredPrAvgWaitingOnAuthor: toFixedOrNull(stats.avgWaitingOnAuthor),
+      ...stats.prsByRepo
+    }))
+    .sort((a, b) => b.prsAuthored - a.prsAuthored)
+}
+
+// Reviewer and author summaries rolled up per team ({ team: [person, ...] })
+// Rows carry the team name in the reviewer / author column
+/** @type {typeof Engine.calculateTeamRollups} */
+export function calculateTeamRollups(prDetails, teams, calendar) {
+  const reviewers = []
+  const authors = []
+
+  for (const [team, members] of Object.entries(teams)) {
+    const memberSet = new Set(members)
+    reviewers.push(...calculateReviewerSummary(prDetails, calendar, review => memberSet.has(review.reviewer) ? team : null))
+    authors.push(...calculateAuthorSummary(prDetails, calendar, pr => memberSet.has(pr.author) ? team : null))
+  }
+
+  return { reviewers, authors }
+}
+
+// Team-level totals and averages
+// Authored values come from the PRs directly (more accurate than averaging averages);
+// reviewed sizes weight each reviewer's average by their PR count
+/** @type {typeof Engine.calculateTeamSummary} */
+export function calculateTeamSummary(authorSummary, reviewerSummary, prDetails, calendar) {
+  const validPRs = prDetails.filter(isCounted)
+
+  const iterations = validPRs.map(p => p.iterationCount)
+  const closeTimes = validPRs.map(p => getCloseHours(p, calendar))
+  const churnPercentages = validPRs.map(p => p.churnPercentage).filter(value => value !== undefined)
+  const fileChurnCounts = validPRs.map(p => p.fileChurnCount).filter(value => value !== undefined)
+  const responseTimes = validPRs.map(p => getFirstResponseHours(p, calendar)).filter(hours => hours !== null)
+
+  let totalReviews = 0
+  let totalApprovals = 0
+  let totalNoCommentApprovals = 0
+  let totalInlineComments = 0
+
+  for (const pr of validPRs) {
+    for (const review of pr.reviews) {
+      if (!isPeerReview(pr, review)) continue
+      totalReviews++
+      totalInlineComments += review.inlineCommentCount
+
+      if (review.state === 'APPROVED') {
+        totalApprovals++
+        if (!review.hasComments) totalNoCommentApprovals++
+      }
+    }
+  }
+
+  /** @type {(value: number, decimals?: number) => number} */
+  const round = (value, decimals = 2) => parseFloat(value.toFixed(decimals))
+  /** @type {(value: number | null) => number | null} */
+  const roundOrNull = value => value === null ? null : round(value)
+
+  return {
+    authored: {
+      totalPRs: validPRs.length,
+      totalDevelopers: authorSummary.length,
+      avgPrSize: Math.round(average(validPRs.map(p => p.totalAdditions + p.totalDeletions)) ?? 0),
+      avgProdLines: Math.round(average(validPRs.map(p => p.prodAdditions + p.prodDeletions)) ?? 0),
+      avgTestLines: Math.round(average(validPRs.map(p => p.testAdditions + p.testDeletions)) ?? 0),
+      avgProdFiles: round(average(validPRs.map(p => p.prodFilesChanged)) ?? 0, 1),
+      avgCloseTime: roundOrNull(average(closeTimes)),
+      avgIterations: round(average(iterations) ?? 0),
+      avgChurnPct: round(average(churnPercentages) ?? 0, 1),
+      avgFileChurn: round(average(fileChurnCounts) ?? 0, 1),
+      avgCommitsPerPr: round(average(validPRs.map(p => p.commitCount || 1)) ?? 0)
+    },
+    reviewed: {
+      totalReviews,
+      totalReviewers: reviewerSummary.length,
+      avgPrSizeReviewed: Math.round(weightedAverage(reviewerSummary, 'avgPrSizeReviewed', 'prsReviewedCount')),
+      avgProdLinesReviewed: Math.round(weightedAverage(reviewerSummary, 'avgPrProdLinesReviewed', 'prsReviewedCount')),
+      avgTestLinesReviewed: Math.round(weightedAverage(reviewerSummary, 'avgPrTestLinesReviewed', 'prsReviewedCount')),
+      medianResponseTime: roundOrNull(median(responseTimes)),  // Working hours to first response
+      overallNoCommentPct: totalApprovals > 0 ? round(totalNoCommentApprovals / totalApprovals * 100, 1) : 0,
+      avgInlineComments: totalReviews > 0 ? round(totalInlineComments / totalReviews) : 0,  // Per review: the team's comments per review
+      avgIterationsPerPr: round(average(iterations) ?? 0)
+    }
+  }
+}
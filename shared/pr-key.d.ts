@@ -0,0 +1,3 @@
+// Types for pr-key.js
+
+export declare function getPRKey(pr: { repo: string; number: number }): string
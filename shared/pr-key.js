@@ -0,0 +1,10 @@
+// PR identity shared by the collector and the dashboard
+// PR numbers are only unique within a repo, so PRs are keyed as repo#number wherever they
+// are de-duplicated, excluded or stored
+
+/** @import * as PRKey from './pr-key.js' */
+
+/** @type {typeof PRKey.getPRKey} */
+export function getPRKey(pr) {
+  return `${pr.repo}#${pr.number}`
+}
@@ -0,0 +1,85 @@
+// Types for quality-score.js
+
+import type { TeamSummary } from '../dashboard/types/metrics'
+
+export interface QualityThreshold {
+  best: number   // Scores 100 at or beyond
+  worst: number  // Scores 0 at or beyond
+}
+
+export interface QualityProfile {
+  author: {
+    weights: { size: number; closeTime: number; iterations: number; churn: number }
+    thresholds: {
+      lines: QualityThreshold
+      files: QualityThreshold
+      closeHours: QualityThreshold
+      iterations: QualityThreshold
+      churnPct: QualityThreshold
+    }
+  }
+  reviewer: {
+    weights: { response: number; feedback: number; depth: number }
+    thresholds: {
+      responseHours: QualityThreshold
+      noCommentPct: QualityThreshold
+      commentsPerReview: QualityThreshold
+    }
+  }
+  teamRelative: QualityThreshold | null  // Multiples of the team average replacing the thresholds
+}
+
+// Profiles only set what differs from the default
+export interface QualityProfileOverrides {
+  author?: { weights?: Partial<QualityProfile['author']['weights']>; thresholds?: Partial<QualityProfile['author']['thresholds']> }
+  reviewer?: { weights?: Partial<QualityProfile['reviewer']['weights']>; thresholds?: Partial<QualityProfile['reviewer']['thresholds']> }
+  teamRelative?: QualityThreshold | null
+}
+
+export interface QualityScoring {
+  profiles?: { [name: string]: QualityProfileOverrides }
+  repos?: { [repo: string]: string }  // Repo -> profile name
+}
+
+export interface QualityScoreComponent {
+  id: string
+  label: string
+  weight: number
+  value: number | null     // Measured value (size component: source lines)
+  score: number            // 0-100
+  contribution: number     // Points added to the total
+}
+
+export interface QualityScore {
+  score: number  // 0-100
+  components: QualityScoreComponent[]
+}
+
+export declare const DEFAULT_QUALITY_PROFILE: QualityProfile
+
+export declare function resolveQualityProfile(
+  scoring?: QualityScoring | null,
+  repo?: string | null
+): QualityProfile & { name: string }
+
+export declare function calculateQualityScore(
+  dev: {
+    avgSrcSize: number            // avg source (non-test) lines changed per PR
+    avgSrcFiles: number           // avg source (non-test) files changed per PR
+    avgIterations: number
+    avgWorkingHoursToClose: number | null
+    churnPct: number
+  },
+  profile?: QualityProfile,
+  teamAvg?: TeamSummary['authored'] | null
+): QualityScore
+
+export declare function calculateReviewerQualityScore(
+  reviewer: {
+    medianResponseHours: number | null
+    noCommentApprovalPct: number | null
+    commentsPerReview: number
+  },
+  profile?: QualityProfile,
+  teamAvg?: TeamSummary['reviewed'] | null
+): QualityScore
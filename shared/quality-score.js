@@ -0,0 +1,159 @@
+// Quality score model shared by the collector config and the dashboard (0-100, higher is better)
+// Scoring shape (config.qualityScoring, embedded in the JSON output):
+//   profiles  Named profiles; each is merged over DEFAULT_QUALITY_PROFILE, so it only sets what differs
+//   repos     Repo -> profile name; other repos use the 'default' profile (or the built-in one)
+// Profile shape:
+//   author / reviewer  { weights, thresholds } for the author-side and reviewer-side scores
+//   thresholds         { best, worst } per measure: best or better scores 100, worst or beyond 0,
+//                      linear between (worst may be below best for measures where more is better)
+//   teamRelative       null, or { best, worst } multiples of the team average that replace the
+//                      absolute thresholds (e.g. half the team's average PR size scores 100)
+
+/** @import * as Quality from './quality-score.js' */
+/** @import { QualityProfile, QualityThreshold, QualityScoreComponent } from './quality-score.js' */
+
+/** @type {typeof Quality.DEFAULT_QUALITY_PROFILE} */
+export const DEFAULT_QUALITY_PROFILE = {
+  author: {
+    weights: { size: 35, closeTime: 30, iterations: 20, churn: 15 },
+    thresholds: {
+      lines: { best: 100, worst: 400 },     // Source (non-test) lines changed per PR
+      files: { best: 4, worst: 10 },        // Source files changed per PR
+      closeHours: { best: 2, worst: 8 },    // Working hours from ready for review to merge
+      iterations: { best: 1, worst: 4 },    // Review submissions per PR
+      churnPct: { best: 0, worst: 50 }      // Lines re-worked by later commits
+    }
+  },
+  reviewer: {
+    weights: { response: 40, feedback: 35, depth: 25 },
+    thresholds: {
+      responseHours: { best: 2, worst: 16 },  // Median working hours to first activity
+      noCommentPct: { best: 0, worst: 60 },   // Approvals with no feedback at all
+      commentsPerReview: { best: 2, worst: 0 }
+    }
+  },
+  teamRelative: null
+}
+
+// Score given when a measure has no value (e.g. close time of a PR without a merge)
+const MISSING_SCORE = 50
+
+// Effective profile for a repo (null = the default profile): named profile fields replace the defaults
+/** @type {typeof Quality.resolveQualityProfile} */
+export function resolveQualityProfile(scoring, repo) {
+  const profiles = scoring?.profiles || {}
+  const name = (repo && scoring?.repos?.[repo]) || 'default'
+  const profile = profiles[name] || profiles.default || {}
+  return {
+    name,
+    author: {
+      weights: { ...DEFAULT_QUALITY_PROFILE.author.weights, ...profile.author?.weights },
+      thresholds: { ...DEFAULT_QUALITY_PROFILE.author.thresholds, ...profile.author?.thresholds }
+    },
+    reviewer: {
+      weights: { ...DEFAULT_QUALITY_PROFILE.reviewer.weights, ...profile.reviewer?.weights },
+      thresholds: { ...DEFAULT_QUALITY_PROFILE.reviewer.thresholds, ...profile.reviewer?.thresholds }
+    },
+    teamRelative: profile.teamRelative ?? DEFAULT_QUALITY_PROFILE.teamRelative
+  }
+}
+
+// 0-100 for a value between the best and worst thresholds
+/** @param {number | null | undefined} value @param {QualityThreshold} threshold */
+function scoreBetween(value, { best, worst }) {
+  if (value === null || value === undefined || Number.isNaN(value)) return MISSING_SCORE
+  if (best === worst) return value === best ? 100 : 0
+  return Math.max(0, Math.min(100, 100 * (1 - (value - best) / (worst - best))))
+}
+
+// Thresholds for a measure: absolute, or relative to the team average when the profile says so
+/** @param {QualityProfile} profile @param {QualityThreshold} absolute @param {number | null | undefined} teamValue */
+function thresholdsFor(profile, absolute, teamValue) {
+  if (!profile.teamRelative || teamValue === null || teamValue === undefined || teamValue <= 0) return absolute
+  const direction = absolute.worst >= absolute.best ? 1 : -1
+  const [low, high] = [profile.teamRelative.best * teamValue, profile.teamRelative.worst * teamValue]
+  return direction > 0 ? { best: low, worst: high } : { best: high, worst: low }
+}
+
+// Weighted total and per-component breakdown; weights are normalized, so they need not add up to 100
+/** @param {Omit<QualityScoreComponent, 'contribution'>[]} components */
+function combine(components) {
+  const totalWeight = components.reduce((total, component) => total + component.weight, 0)
+  const breakdown = components.map(component => ({
+    ...component,
+    score: Math.round(component.score),
+    contribution: totalWeight > 0 ? (component.score * component.weight) / totalWeight : 0
+  }))
+  return {
+    score: Math.round(breakdown.reduce((total, component) => total + component.contribution, 0)),
+    components: breakdown.map(component => ({ ...component, contribution: parseFloat(component.contribution.toFixed(1)) }))
+  }
+}
+
+// Author-side score for one PR or a developer's averages
+// dev: { avgSrcSize, avgSrcFiles, avgIterations, avgWorkingHoursToClose, churnPct }
+// teamAvg: TeamSummary.authored, used by team-relative profiles
+/** @type {typeof Quality.calculateQualityScore} */
+export function calculateQualityScore(dev, profile = resolveQualityProfile(null), teamAvg = null) {
+  const { weights, thresholds } = profile.author
+  const linesScore = scoreBetween(dev.avgSrcSize, thresholdsFor(profile, thresholds.lines, teamAvg?.avgProdLines))
+  const filesScore = scoreBetween(dev.avgSrcFiles, thresholdsFor(profile, thresholds.files, teamAvg?.avgProdFiles))
+
+  return combine([
+    { id: 'size', label: 'Source size', weight: weights.size, value: dev.avgSrcSize, score: (linesScore + filesScore) / 2 },
+    {
+      id: 'closeTime',
+      label: 'Time to merge',
+      weight: weights.closeTime,
+      value: dev.avgWorkingHoursToClose,
+      score: scoreBetween(dev.avgWorkingHoursToClose, thresholdsFor(profile, thresholds.closeHours, teamAvg?.avgCloseTime))
+    },
+    {
+      id: 'iterations',
+      label: 'Iterations',
+      weight: weights.iterations,
+      value: dev.avgIterations,
+      score: scoreBetween(dev.avgIterations, thresholdsFor(profile, thresholds.iterations, teamAvg?.avgIterations))
+    },
+    {
+      id: 'churn',
+      label: 'Churn',
+      weight: weights.churn,
+      value: dev.churnPct,
+      score: scoreBetween(dev.churnPct, thresholdsFor(profile, thresholds.churnPct, teamAvg?.avgChurnPct))
+    }
+  ])
+}
+
+// Reviewer-side score: quick to respond, rarely approves without feedback, leaves comments
+// reviewer: { medianResponseHours, noCommentApprovalPct, commentsPerReview }
+// teamAvg: TeamSummary.reviewed, used by team-relative profiles (its avgInlineComments is per review,
+// the same measure as commentsPerReview)
+/** @type {typeof Quality.calculateReviewerQualityScore} */
+export function calculateReviewerQualityScore(reviewer, profile = resolveQualityProfile(null), teamAvg = null) {
+  const { weights, thresholds } = profile.reviewer
+
+  return combine([
+    {
+      id: 'response',
+      label: 'Response time',
+      weight: weights.response,
+      value: reviewer.medianResponseHours,
+      score: scoreBetween(reviewer.medianResponseHours, thresholdsFor(profile, thresholds.responseHours, teamAvg?.medianResponseTime))
+    },
+    {
+      id: 'feedback',
+      label: 'Approvals with feedback',
+      weight: weights.feedback,
+      value: reviewer.noCommentApprovalPct,
+      score: scoreBetween(reviewer.noCommentApprovalPct, thresholdsFor(profile, thresholds.noCommentPct, teamAvg?.overallNoCommentPct))
+    },
+    {
+      id: 'depth',
+      label: 'Comments per review',
+      weight: weights.depth,
+      value: reviewer.commentsPerReview,
+      score: scoreBetween(reviewer.commentsPerReview, thresholdsFor(profile, thresholds.commentsPerReview, teamAvg?.avgInlineComments))
+    }
+  ])
+}
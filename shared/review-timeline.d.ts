@@ -0,0 +1,61 @@
+// Types for review-timeline.js
+
+import { WorkingCalendar } from './working-calendar'
+
+export type TimelineEventType =
+  | 'opened'
+  | 'ready_for_review'
+  | 'converted_to_draft'
+  | 'review_requested'
+  | 'review_request_removed'
+  | 'reviewed'
+  | 'pushed'
+  | 'merged'
+  | 'closed'
+
+export interface TimelineEvent {
+  type: TimelineEventType
+  at: string                 // ISO timestamp
+  actor: string | null       // Who acted (null when GitHub does not say, e.g. commits)
+  draft?: boolean            // opened: the PR was opened as a draft
+  reviewer?: string          // review_requested / review_request_removed: requested user
+  team?: string              // review_requested / review_request_removed: requested team slug
+  rerequest?: boolean        // review_requested: the reviewer had already reviewed
+  state?: string             // reviewed: APPROVED, CHANGES_REQUESTED or COMMENTED
+  sha?: string               // pushed: commit SHA (absent for force pushes)
+}
+
+export type TimelinePhaseName = 'draft' | 'reviewer' | 'author'
+
+export interface TimelinePhase {
+  phase: TimelinePhaseName
+  start: string
+  end: string
+  endedBy: TimelineEventType | null  // null for the current phase of a PR still open
+}
+
+export interface ReviewTimelineSummary {
+  draftHours: number
+  waitingOnReviewerHours: number
+  waitingOnAuthorHours: number
+  reviewRounds: number
+}
+
+export declare function getTimelinePhases(
+  events: TimelineEvent[] | null | undefined,
+  until?: string | null
+): TimelinePhase[]
+
+export declare function summarizeReviewTimeline(
+  events: TimelineEvent[] | null | undefined,
+  calendar?: WorkingCalendar | null,
+  login?: string | null,
+  until?: string | null
+): ReviewTimelineSummary
+
+export declare function getReviewableAt(pr: { createdAt: string; readyForReviewAt?: string | null }): string
+
+export declare function getReviewResponseWindow(
+  pr: { createdAt: string; readyForReviewAt?: string | null },
+  review: { requestedAt?: string | null; firstActivityAt?: string | null; submittedAt?: string | null }
+): { start: string; end: string | null }
@@ -0,0 +1,95 @@
+// Review-cycle phases derived from a PR's timeline events (see scripts/review-timeline.js)
+// Shared by the collector and the dashboard so both measure phases the same way
+// Phases:
+//   draft     From opening as a draft (or conversion to draft) until ready for review
+//   reviewer  Waiting on reviewers: from ready for review, a push or a review request until a review
+//   author    Waiting on the author: from a review until the next push or review request (or merge)
+// A PR still open has no end event; pass `until` (e.g. the collection time) to close its current phase
+
+import { calculateWorkingHours } from './working-calendar.js'
+
+/** @import * as Timeline from './review-timeline.js' */
+/** @import { TimelinePhase, TimelinePhaseName, TimelineEvent } from './review-timeline.js' */
+
+// Split the timeline into consecutive phases from opening to merge (or close)
+/** @type {typeof Timeline.getTimelinePhases} */
+export function getTimelinePhases(events, until = null) {
+  if (!events || events.length === 0) return []
+
+  /** @type {TimelinePhase[]} */
+  const phases = []
+  let phase = /** @type {TimelinePhaseName} */ (events[0].draft ? 'draft' : 'reviewer')
+  let start = events[0].at
+
+  /** @type {(next: TimelinePhaseName, event: TimelineEvent) => void} */
+  const enter = (next, event) => {
+    if (next === phase) return
+    phases.push({ phase, start, end: event.at, endedBy: event.type })
+    phase = next
+    start = event.at
+  }
+
+  for (const event of events.slice(1)) {
+    switch (event.type) {
+      case 'converted_to_draft':
+        enter('draft', event)
+        break
+      case 'ready_for_review':
+        enter('reviewer', event)
+        break
+      case 'reviewed':
+        // Any review hands the PR back: changes to make, comments to answer or an approval to merge
+        if (phase === 'reviewer') enter('author', event)
+        break
+      case 'pushed':
+      case 'review_requested':
+        if (phase === 'author') enter('reviewer', event)
+        break
+      case 'merged':
+      case 'closed':
+        phases.push({ phase, start, end: event.at, endedBy: event.type })
+        return phases
+    }
+  }
+
+  // Still open: the current phase runs until `until`
+  if (until) phases.push({ phase, start, end: until, endedBy: null })
+  return phases
+}
+
+// Working hours per phase and the number of true review rounds
+// A round is a wait on reviewers that ended with a review; reviews submitted
+// while the PR is already back with the author do not start a new round
+/** @type {typeof Timeline.summarizeReviewTimeline} */
+export function summarizeReviewTimeline(events, calendar, login, until = null) {
+  const summary = { draftHours: 0, waitingOnReviewerHours: 0, waitingOnAuthorHours: 0, reviewRounds: 0 }
+
+  for (const { phase, start, end, endedBy } of getTimelinePhases(events, until)) {
+    const hours = calculateWorkingHours(start, end, calendar, login)
+    if (phase === 'draft') summary.draftHours += hours
+    if (phase === 'reviewer') summary.waitingOnReviewerHours += hours
+    if (phase === 'author') summary.waitingOnAuthorHours += hours
+    if (phase === 'reviewer' && endedBy === 'reviewed') summary.reviewRounds++
+  }
+
+  return summary
+}
+
+// When the PR became reviewable: its first ready-for-review if opened as a draft, else when opened
+// PR-level working-hour metrics start here so time in draft is not counted
+/** @type {typeof Timeline.getReviewableAt} */
+export function getReviewableAt(pr) {
+  return pr.readyForReviewAt || pr.createdAt
+}
+
+// Start and end of a reviewer's response for one review
+// From the review request (when the PR became reviewable if there was none) to the reviewer's first activity.
+// Activity before a re-request belongs to an earlier review, so the submission is used then
+/** @type {typeof Timeline.getReviewResponseWindow} */
+export function getReviewResponseWindow(pr, review) {
+  const start = review.requestedAt || getReviewableAt(pr)
+  const end = review.firstActivityAt && new Date(review.firstActivityAt) >= new Date(start)
+    ? review.firstActivityAt
+    : review.submittedAt
+  return { start, end: end || null }
+}
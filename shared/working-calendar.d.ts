@@ -0,0 +1,26 @@
+// Types for working-calendar.js
+
+export interface WorkingCalendarRules {
+  timezone?: string | null           // IANA zone; null = DEFAULT_WORKING_CALENDAR's zone
+  workdays?: number[]                // 0=Sun ... 6=Sat
+  hours?: { start: string; end: string }  // 'HH:MM' local times
+  holidays?: string[]                // 'YYYY-MM-DD' in the calendar's timezone
+}
+
+export interface WorkingCalendar extends WorkingCalendarRules {
+  developers?: { [login: string]: WorkingCalendarRules }  // Per-login overrides
+}
+
+export declare const DEFAULT_WORKING_CALENDAR: Required<WorkingCalendar> & { timezone: string }
+
+export declare function resolveWorkingCalendar(
+  calendar?: WorkingCalendar | null,
+  login?: string | null
+): Required<WorkingCalendarRules> & { timezone: string }
+
+export declare function calculateWorkingHours(
+  startISO: string | null | undefined,
+  endISO: string | null | undefined,
+  calendar?: WorkingCalendar | null,
+  login?: string | null
+): number
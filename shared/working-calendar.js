@@ -0,0 +1,144 @@
+// Working-hours calendar shared by the collector and the dashboard
+// Calendar shape (all fields optional, see DEFAULT_WORKING_CALENDAR):
+//   timezone   IANA zone, e.g. 'Europe/Bucharest' (null = the default calendar's zone, so every
+//              viewer measures the same hours whatever their browser's zone)
+//   workdays   Days of week counted as working days (0=Sun ... 6=Sat)
+//   hours      Daily working window as 'HH:MM' local times, e.g. { start: '10:00', end: '18:00' }
+//   holidays   Non-working dates as 'YYYY-MM-DD' in the calendar's timezone
+//   developers Per-login overrides of the fields above (e.g. a different timezone and holiday list)
+
+/** @import * as Calendar from './working-calendar.js' */
+
+/** @type {typeof Calendar.DEFAULT_WORKING_CALENDAR} */
+export const DEFAULT_WORKING_CALENDAR = {
+  timezone: 'Europe/Bucharest',
+  workdays: [1, 2, 3, 4, 5],
+  hours: { start: '10:00', end: '18:00' },
+  holidays: [],
+  developers: {}
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60
+const MS_PER_DAY = MS_PER_HOUR * 24
+
+// Effective rules for a developer: their override fields replace the team's
+/** @type {typeof Calendar.resolveWorkingCalendar} */
+export function resolveWorkingCalendar(calendar, login) {
+  const base = { ...DEFAULT_WORKING_CALENDAR, ...(calendar || {}) }
+  const override = (login && base.developers?.[login]) || {}
+  const rules = {
+    timezone: override.timezone ?? base.timezone,
+    workdays: override.workdays ?? base.workdays,
+    hours: override.hours ?? base.hours,
+    holidays: override.holidays ?? base.holidays
+  }
+  return { ...rules, timezone: rules.timezone || DEFAULT_WORKING_CALENDAR.timezone }
+}
+
+// One formatter per timezone (creating them is expensive)
+/** @type {Map<string, Intl.DateTimeFormat>} */
+const formatters = new Map()
+/** @param {string} timezone */
+function getFormatter(timezone) {
+  if (!formatters.has(timezone)) {
+    formatters.set(timezone, new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    }))
+  }
+  return /** @type {Intl.DateTimeFormat} */ (formatters.get(timezone))
+}
+
+// Wall-clock fields of an instant in a timezone
+/**
+ * @param {number} ms
+ * @param {string} timezone
+ * @returns {{ year: number, month: number, day: number, hour: number, minute: number, second: number }}
+ */
+function getZonedParts(ms, timezone) {
+  const parts = getFormatter(timezone).formatToParts(new Date(ms))
+  /** @param {Intl.DateTimeFormatPartTypes} type */
+  const field = type => Number(parts.find(part => part.type === type)?.value)
+  return {
+    year: field('year'),
+    month: field('month'),
+    day: field('day'),
+    hour: field('hour'),
+    minute: field('minute'),
+    second: field('second')
+  }
+}
+
+// Offset of the timezone from UTC at an instant (ms, positive east of Greenwich)
+/** @param {number} ms @param {string} timezone */
+function getOffsetMs(ms, timezone) {
+  const p = getZonedParts(ms, timezone)
+  const wallClockAsUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return wallClockAsUTC - Math.floor(ms / 1000) * 1000
+}
+
+// UTC instant of a wall-clock time in a timezone
+// Times skipped by a DST jump resolve past the gap; repeated times resolve to the first occurrence
+/** @param {number} dayMs @param {number} minutes @param {string} timezone */
+function zonedTimeToUtc(dayMs, minutes, timezone) {
+  const wallClock = dayMs + minutes * 60 * 1000
+  const firstGuess = wallClock - getOffsetMs(wallClock, timezone)
+  const offset = getOffsetMs(firstGuess, timezone)
+  return wallClock - offset
+}
+
+// 'HH:MM' -> minutes after midnight
+/** @param {string} value */
+function parseTime(value) {
+  const [hours, minutes = 0] = String(value).split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// 'YYYY-MM-DD' of a civil day (stored as its UTC midnight)
+/** @param {number} dayMs */
+function formatDay(dayMs) {
+  return new Date(dayMs).toISOString().slice(0, 10)
+}
+
+// Calculate working hours between two timestamps under a calendar
+// Only time inside each working day's window counts, in the developer's timezone if overridden
+/** @type {typeof Calendar.calculateWorkingHours} */
+export function calculateWorkingHours(startISO, endISO, calendar, login) {
+  if (!startISO || !endISO) return 0
+
+  const start = new Date(startISO).getTime()
+  const end = new Date(endISO).getTime()
+
+  if (!(end > start)) return 0
+
+  const rules = resolveWorkingCalendar(calendar, login)
+  const windowStart = parseTime(rules.hours.start)
+  const windowEnd = parseTime(rules.hours.end)
+  const holidays = new Set(rules.holidays)
+
+  // Walk civil days in the calendar's timezone, from the start day to the end day
+  const first = getZonedParts(start, rules.timezone)
+  const last = getZonedParts(end, rules.timezone)
+  const lastDay = Date.UTC(last.year, last.month - 1, last.day)
+
+  let workingMs = 0
+  for (let day = Date.UTC(first.year, first.month - 1, first.day); day <= lastDay; day += MS_PER_DAY) {
+    if (!rules.workdays.includes(new Date(day).getUTCDay())) continue
+    if (holidays.has(formatDay(day))) continue
+
+    const dayStart = zonedTimeToUtc(day, windowStart, rules.timezone)
+    const dayEnd = zonedTimeToUtc(day, windowEnd, rules.timezone)
+    const overlap = Math.min(end, dayEnd) - Math.max(start, dayStart)
+    if (overlap > 0) {
+      workingMs += overlap
+    }
+  }
+
+  return workingMs / MS_PER_HOUR
+}
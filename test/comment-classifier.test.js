@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { classifyComment } from '../scripts/comment-classifier.js'
+
+// Each case: expected kind and example comments
+const EXAMPLES = {
+  suggestion: [
+    '```suggestion\nconst total = items.length\n```'
+  ],
+  nit: [
+    'nit: trailing whitespace',
+    'Minor: this could be a const',
+    'Optional, but a map would read better here (nit)'
+  ],
+  blocking: [
+    'This is a bug: the loop skips the last element.',
+    'Please do not merge until the migration lands',
+    'The timeout must be handled, otherwise the worker hangs forever.',
+    'This breaks the CSV export for empty months.',
+    'The returned offset is wrong when the list is empty.',
+    'issue (blocking): the token is logged in plain text'
+  ],
+  question: [
+    'Is this still needed after the refactor?',
+    'Why not reuse the existing helper here',
+    'question: where does the cache get invalidated'
+  ],
+  praise: [
+    'LGTM',
+    'Nice work, thanks!',
+    'Good catch 👍'
+  ],
+  other: [
+    'Consider extracting this into a helper.',
+    'It would be nice to extract this into a helper.',
+    'Should be fine to inline this.',
+    'Is used by the nightly job as well, so keep the signature.',
+    'This fixes the bug we saw last week.',
+    'The old value was wrong, the new one matches the docs.',
+    'We could add a regression test for this.',
+    'issue (non-blocking): the log message has a typo'
+  ]
+}
+
+describe('classifyComment', () => {
+  for (const [kind, bodies] of Object.entries(EXAMPLES)) {
+    for (const body of bodies) {
+      it(`labels ${JSON.stringify(body)} as ${kind}`, () => {
+        assert.equal(classifyComment(body), kind)
+      })
+    }
+  }
+
+  it('ignores words inside code and quoted replies', () => {
+    assert.equal(classifyComment('nit: rename `mustRetry` to `shouldRetry`'), 'nit')
+    assert.equal(classifyComment('Rename to `isBroken()` for consistency.'), 'other')
+    assert.equal(classifyComment('> This is a bug, isn\'t it?\n\nNo, it is handled upstream.'), 'other')
+    assert.equal(classifyComment('```js\nif (isWrong) throw new Error("bug")\n```\nConsider a guard clause.'), 'other')
+  })
+
+  it('ignores a ? inside a link', () => {
+    assert.equal(classifyComment('See https://example.com/docs?page=2 for the format.'), 'other')
+  })
+
+  it('returns null for an empty comment', () => {
+    assert.equal(classifyComment(''), null)
+    assert.equal(classifyComment('  \n '), null)
+  })
+})
@@ -0,0 +1,55 @@
+// Builders for PRDetail / Review fixtures used across the tests
+// Only the fields a test cares about need to be given; the rest get neutral defaults
+
+// Every hour counts, so expected working hours are plain wall-clock differences
+export const ALWAYS_WORKING = {
+  timezone: 'UTC',
+  workdays: [0, 1, 2, 3, 4, 5, 6],
+  hours: { start: '00:00', end: '24:00' },
+  holidays: []
+}
+
+export function makeReview(overrides = {}) {
+  const submittedAt = overrides.submittedAt ?? '2026-01-05T12:00:00Z'
+  return {
+    reviewer: 'bob',
+    state: 'APPROVED',
+    submittedAt,
+    requestedAt: null,
+    firstActivityAt: submittedAt,
+    hasComments: false,
+    inlineCommentCount: 0,
+    conversationCommentCount: 0,
+    body: '',
+    ...overrides
+  }
+}
+
+export function makePR(overrides = {}) {
+  return {
+    repo: 'fe-redesign',
+    number: 1,
+    title: 'Fixture PR',
+    author: 'alice',
+    createdAt: '2026-01-05T10:00:00Z',
+    readyForReviewAt: '2026-01-05T10:00:00Z',
+    mergedAt: '2026-01-05T20:00:00Z',
+    url: 'https://github.com/example/fe-redesign/pull/1',
+    totalAdditions: 80,
+    totalDeletions: 20,
+    prodAdditions: 60,
+    prodDeletions: 10,
+    testAdditions: 20,
+    testDeletions: 10,
+    filesChanged: 4,
+    testFilesChanged: 1,
+    prodFilesChanged: 3,
+    iterationCount: 1,
+    reviews: [],
+    firstResponseAt: null,
+    commitCount: 2,
+    churnPercentage: 10,
+    fileChurnCount: 1,
+    ...overrides
+  }
+}
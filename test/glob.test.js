@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { globToRegExp, pathPatternToRegExp } from '../scripts/glob.js'
+
+describe('globToRegExp', () => {
+  it('keeps * within one path segment', () => {
+    const expression = globToRegExp('release/*')
+    assert.ok(expression.test('release/1.2'))
+    assert.ok(!expression.test('release/1.2/hotfix'))
+    assert.ok(!expression.test('release'))
+  })
+
+  it('lets ** cross segments', () => {
+    const expression = globToRegExp('release/**')
+    assert.ok(expression.test('release/1.2'))
+    assert.ok(expression.test('release/1.2/hotfix'))
+  })
+
+  it('lets **/ match zero or more directories', () => {
+    const expression = globToRegExp('a/**/b')
+    assert.ok(expression.test('a/b'))
+    assert.ok(expression.test('a/x/b'))
+    assert.ok(expression.test('a/x/y/b'))
+    assert.ok(!expression.test('a/xb'))
+  })
+
+  it('matches top-level files with a leading **/', () => {
+    const expression = globToRegExp('**/*.ts')
+    assert.ok(expression.test('index.ts'))
+    assert.ok(expression.test('src/lib/index.ts'))
+    assert.ok(!expression.test('index.tsx'))
+  })
+
+  it('escapes regular expression characters', () => {
+    const expression = globToRegExp('v1.0+(beta)')
+    assert.ok(expression.test('v1.0+(beta)'))
+    assert.ok(!expression.test('v1x0+(beta)'))
+  })
+})
+
+describe('pathPatternToRegExp', () => {
+  it('matches an unanchored name at any depth', () => {
+    const expression = pathPatternToRegExp('*.md')
+    assert.ok(expression.test('README.md'))
+    assert.ok(expression.test('docs/guide/setup.md'))
+  })
+
+  it('anchors patterns with a slash at the repo root', () => {
+    const expression = pathPatternToRegExp('/docs')
+    assert.ok(expression.test('docs/guide.md'))
+    assert.ok(!expression.test('src/docs/guide.md'))
+  })
+
+  it('matches everything below a directory, but only direct children of dir/*', () => {
+    assert.ok(pathPatternToRegExp('src/').test('src/lib/index.ts'))
+    assert.ok(pathPatternToRegExp('src/*').test('src/index.ts'))
+    assert.ok(!pathPatternToRegExp('src/*').test('src/lib/index.ts'))
+  })
+
+  it('matches zero or more directories for **/ inside a pattern', () => {
+    const expression = pathPatternToRegExp('src/**/test/*.ts')
+    assert.ok(expression.test('src/test/app.ts'))
+    assert.ok(expression.test('src/api/users/test/app.ts'))
+    assert.ok(!expression.test('lib/test/app.ts'))
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { parsePullRequestNode } from '../scripts/graphql-fetcher.js'
+
+// A recorded GraphQL search page (two fully paginated PullRequest nodes)
+const page = JSON.parse(readFileSync(new URL('./fixtures/graphql-search-page.json', import.meta.url), 'utf-8'))
+const [featureNode, botNode] = page.data.search.nodes
+
+describe('parsePullRequestNode', () => {
+  const pr = parsePullRequestNode(featureNode, 'fe-redesign')
+  const botPR = parsePullRequestNode(botNode, 'fe-redesign')
+
+  it('maps the PR fields', () => {
+    assert.deepEqual({ ...pr, raw: undefined }, {
+      repo: 'fe-redesign',
+      number: 120,
+      title: 'Add checkout summary panel',
+      author: 'alice',
+      authorIsBot: false,
+      status: 'merged',
+      draft: false,
+      baseRef: 'main',
+      createdAt: '2026-01-05T08:12:44Z',
+      mergedAt: '2026-01-06T15:03:10Z',
+      closedAt: '2026-01-06T15:03:10Z',
+      updatedAt: '2026-01-06T15:03:12Z',
+      url: 'https://github.com/thgenergy/fe-redesign/pull/120',
+      raw: undefined
+    })
+  })
+
+  it('maps change types onto REST file statuses', () => {
+    assert.deepEqual(pr.raw.files.map(file => [file.filename, file.status]), [
+      ['src/checkout/SummaryPanel.tsx', 'added'],
+      ['src/checkout/Checkout.tsx', 'modified'],
+      ['src/checkout/legacy/Summary.tsx', 'removed']
+    ])
+    assert.deepEqual(botPR.raw.files[1], { filename: 'config/vite.config.ts', additions: 0, deletions: 0, status: 'renamed' })
+  })
+
+  it('keys review comments by the review\'s REST id', () => {
+    assert.deepEqual(pr.raw.reviews.map(review => [review.id, review.user.login, review.state]), [
+      [2011223344, 'bob', 'CHANGES_REQUESTED'],
+      [2011225566, 'size-check[bot]', 'COMMENTED'],
+      [2011229988, 'bob', 'APPROVED']
+    ])
+    assert.equal(pr.raw.reviewComments[2011223344].length, 2)
+    assert.deepEqual(pr.raw.reviewComments[2011223344][1], {
+      created_at: '2026-01-05T11:19:40Z',
+      path: 'src/checkout/Checkout.tsx',
+      body: 'nit: unused import'
+    })
+    assert.deepEqual(pr.raw.reviewComments[2011229988], [])
+  })
+
+  it('marks bots the way REST does', () => {
+    assert.deepEqual(pr.raw.reviews[1].user, { login: 'size-check[bot]', type: 'Bot' })
+    assert.equal(botPR.author, 'dependabot[bot]')
+    assert.equal(botPR.authorIsBot, true)
+  })
+
+  it('shows deleted accounts as ghost', () => {
+    assert.deepEqual(botPR.raw.reviews[0].user, { login: 'ghost', type: 'User' })
+    assert.equal(botPR.raw.reviews[0].body, '')
+    assert.deepEqual(botPR.raw.conversationComments[0].user, { login: 'ghost', type: 'User' })
+  })
+
+  it('converts timeline items into REST timeline events', () => {
+    assert.deepEqual(pr.raw.timeline.map(entry => entry.event), [
+      'committed',
+      'review_requested',
+      'review_requested',
+      'review_request_removed',
+      'committed',
+      'head_ref_force_pushed',
+      'merged'
+    ])
+    assert.deepEqual(pr.raw.timeline[0], {
+      event: 'committed',
+      sha: '3f1c2a9e8b7d6c5f4e3d2c1b0a9f8e7d6c5b4a39',
+      committer: { date: '2026-01-05T08:05:00Z' }
+    })
+    assert.deepEqual(pr.raw.timeline[1].requested_reviewer, { login: 'bob', type: 'User' })
+    assert.deepEqual(pr.raw.timeline[2].requested_team, { slug: 'frontend' })
+    assert.equal(pr.raw.timeline[2].requested_reviewer, undefined)
+    assert.equal(botPR.raw.timeline[1].actor, null)
+  })
+
+  it('lists commits without file details', () => {
+    assert.deepEqual(pr.raw.commits, [
+      { sha: '3f1c2a9e8b7d6c5f4e3d2c1b0a9f8e7d6c5b4a39', date: '2026-01-05T08:05:00Z' },
+      { sha: '9a8b7c6d5e4f3a2b1c0d9e8f7a6b5c4d3e2f1a0b', date: '2026-01-06T09:30:12Z' }
+    ])
+  })
+
+  it('keeps conversation comments with their authors', () => {
+    assert.deepEqual(pr.raw.conversationComments, [{
+      user: { login: 'alice', type: 'User' },
+      created_at: '2026-01-05T09:02:11Z',
+      body: 'Screenshots in the description are from staging.'
+    }])
+  })
+})
@@ -0,0 +1,296 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  sum,
+  average,
+  percentile,
+  median,
+  weightedAverage,
+  bootstrapInterval,
+  gini,
+  getReviewResponseHours,
+  aggregateReviewerStats,
+  calculateReviewerSummary,
+  calculateAuthorSummary,
+  calculateTeamSummary
+} from '../shared/metrics-engine.js'
+import { ALWAYS_WORKING, makePR, makeReview } from './fixtures.js'
+
+describe('percentile and median', () => {
+  it('interpolates between the nearest ranks', () => {
+    assert.equal(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 0.9), 9.1)
+    assert.equal(percentile([10, 20], 0.25), 12.5)
+  })
+
+  it('averages the middle pair for an even count', () => {
+    assert.equal(median([1, 2, 3, 4]), 2.5)
+    assert.equal(median([4, 1, 3, 2]), 2.5)
+    assert.equal(median([7]), 7)
+  })
+
+  it('clamps p to [0, 1] and returns null without values', () => {
+    assert.equal(percentile([3, 1, 2], -1), 1)
+    assert.equal(percentile([3, 1, 2], 2), 3)
+    assert.equal(percentile([], 0.5), null)
+    assert.equal(median([]), null)
+  })
+
+  it('does not reorder its input', () => {
+    const values = [3, 1, 2]
+    median(values)
+    assert.deepEqual(values, [3, 1, 2])
+  })
+})
+
+describe('sum, average and gini', () => {
+  it('handles empty input', () => {
+    assert.equal(sum([]), 0)
+    assert.equal(average([]), null)
+    assert.equal(gini([]), null)
+    assert.equal(gini([0, 0]), null)
+  })
+
+  it('keeps zeros as real values', () => {
+    assert.equal(average([0, 0, 3]), 1)
+  })
+
+  it('is 0 for an even spread and grows with concentration', () => {
+    assert.equal(gini([5, 5, 5, 5]), 0)
+    assert.equal(gini([0, 0, 0, 12]), 0.75)
+  })
+})
+
+describe('weightedAverage', () => {
+  it('weights each row by the weight field and parses numeric strings', () => {
+    const rows = [
+      { value: '2.00', count: 1 },
+      { value: '5.00', count: 3 }
+    ]
+    assert.equal(weightedAverage(rows, 'value', 'count'), 4.25)
+  })
+
+  it('treats missing values as 0 and ignores rows without weight', () => {
+    const rows = [
+      { value: null, count: 1 },
+      { value: 9, count: 0 },
+      { value: 4, count: 1 }
+    ]
+    assert.equal(weightedAverage(rows, 'value', 'count'), 2)
+  })
+
+  it('is 0 when nothing has weight', () => {
+    assert.equal(weightedAverage([], 'value', 'count'), 0)
+    assert.equal(weightedAverage([{ value: 3, count: 0 }], 'value', 'count'), 0)
+  })
+})
+
+describe('bootstrapInterval', () => {
+  it('needs at least two values', () => {
+    assert.equal(bootstrapInterval([4], median), null)
+  })
+
+  it('is deterministic for a seed and brackets the estimate', () => {
+    const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+    const first = bootstrapInterval(values, average)
+    assert.deepEqual(bootstrapInterval(values, average), first)
+    assert.ok(first.low <= 5.5 && first.high >= 5.5)
+    assert.ok(first.low >= 1 && first.high <= 10)
+  })
+
+  it('returns null when the statistic never has a value', () => {
+    assert.equal(bootstrapInterval([1, 2, 3], () => null), null)
+  })
+})
+
+describe('response times', () => {
+  it('keeps a response of 0 working hours', () => {
+    const pr = makePR({ readyForReviewAt: '2026-01-05T10:00:00Z' })
+    const review = makeReview({ submittedAt: '2026-01-05T10:00:00Z', firstActivityAt: '2026-01-05T10:00:00Z' })
+    assert.equal(getReviewResponseHours(pr, review, ALWAYS_WORKING), 0)
+
+    const [stats] = aggregateReviewerStats([makePR({ reviews: [review] })], ALWAYS_WORKING)
+    assert.deepEqual(stats.responseTimes, [0])
+  })
+
+  it('measures from the review request, or from ready for review without one', () => {
+    const pr = makePR({ createdAt: '2026-01-05T08:00:00Z', readyForReviewAt: '2026-01-05T10:00:00Z' })
+    const requested = makeReview({ requestedAt: '2026-01-05T11:00:00Z', submittedAt: '2026-01-05T12:30:00Z', firstActivityAt: '2026-01-05T12:30:00Z' })
+    const unrequested = makeReview({ submittedAt: '2026-01-05T12:30:00Z', firstActivityAt: '2026-01-05T12:30:00Z' })
+
+    assert.equal(getReviewResponseHours(pr, requested, ALWAYS_WORKING), 1.5)
+    assert.equal(getReviewResponseHours(pr, unrequested, ALWAYS_WORKING), 2.5)
+    assert.equal(getReviewResponseHours(pr, unrequested, ALWAYS_WORKING, 'open'), 4.5)
+  })
+
+  it('uses the submission when the first activity came before a re-request', () => {
+    const pr = makePR()
+    const review = makeReview({
+      requestedAt: '2026-01-05T14:00:00Z',
+      firstActivityAt: '2026-01-05T11:00:00Z',
+      submittedAt: '2026-01-05T15:00:00Z'
+    })
+    assert.equal(getReviewResponseHours(pr, review, ALWAYS_WORKING), 1)
+  })
+
+  it('has no response time without activity', () => {
+    const review = makeReview({ firstActivityAt: undefined })
+    assert.equal(getReviewResponseHours(makePR(), review, ALWAYS_WORKING), null)
+  })
+})
+
+describe('summary calculators', () => {
+  // alice's PR: bob approves without comments after 2h, carol comments 30 min after her request
+  const prA = makePR({
+    repo: 'fe-redesign',
+    number: 1,
+    author: 'alice',
+    readyForReviewAt: '2026-01-05T10:00:00Z',
+    mergedAt: '2026-01-05T20:00:00Z',
+    firstResponseAt: '2026-01-05T11:00:00Z',
+    reviews: [
+      makeReview({ reviewer: 'bob', submittedAt: '2026-01-05T12:00:00Z' }),
+      makeReview({
+        reviewer: 'carol',
+        state: 'COMMENTED',
+        requestedAt: '2026-01-05T10:30:00Z',
+        submittedAt: '2026-01-05T11:00:00Z',
+        hasComments: true,
+        inlineCommentCount: 2
+      }),
+      makeReview({ reviewer: 'ci-bot', isBot: true, submittedAt: '2026-01-05T10:05:00Z' })
+    ]
+  })
+  // bob's PR: alice requests changes immediately (0h), then approves with a comment an hour after the re-request
+  const prB = makePR({
+    repo: 'be-revamp',
+    number: 2,
+    author: 'bob',
+    createdAt: '2026-01-06T09:00:00Z',
+    readyForReviewAt: '2026-01-06T09:00:00Z',
+    mergedAt: '2026-01-06T13:00:00Z',
+    firstResponseAt: '2026-01-06T09:00:00Z',
+    iterationCount: 2,
+    churnPercentage: 30,
+    reviews: [
+      makeReview({ reviewer: 'alice', state: 'CHANGES_REQUESTED', submittedAt: '2026-01-06T09:00:00Z', hasComments: true, inlineCommentCount: 1 }),
+      makeReview({ reviewer: 'alice', requestedAt: '2026-01-06T11:00:00Z', submittedAt: '2026-01-06T12:00:00Z', hasComments: true })
+    ]
+  })
+  // Bot-authored PR: left out of author and team numbers, but bob's review still counts for him
+  const botPR = makePR({
+    repo: 'fe-redesign',
+    number: 3,
+    author: 'dependabot[bot]',
+    authorIsBot: true,
+    createdAt: '2026-01-07T10:00:00Z',
+    readyForReviewAt: '2026-01-07T10:00:00Z',
+    mergedAt: '2026-01-07T11:00:00Z',
+    reviews: [makeReview({ reviewer: 'bob', submittedAt: '2026-01-07T10:30:00Z' })]
+  })
+  // Failed to process: ignored everywhere
+  const failedPR = makePR({ repo: 'fe-redesign', number: 4, author: 'alice', error: 'timeout', reviews: [makeReview({ reviewer: 'carol' })] })
+
+  const prs = [prA, prB, botPR, failedPR]
+
+  it('summarizes reviewers, most reviews first, without bot reviews', () => {
+    const summary = calculateReviewerSummary(prs, ALWAYS_WORKING)
+    assert.deepEqual(summary.map(row => row.reviewer), ['bob', 'alice', 'carol'])
+
+    const bob = summary.find(row => row.reviewer === 'bob')
+    assert.equal(bob.totalReviews, 2)
+    assert.equal(bob.prsReviewedCount, 2)
+    assert.equal(bob.noCommentApprovals, 2)
+    assert.equal(bob.noCommentApprovalPct, 100)
+    assert.equal(bob.medianResponseHours, '1.25')
+    assert.equal(bob.fastestResponseHours, '0.50')
+    assert.equal(bob['fe-redesign'], 2)
+
+    const alice = summary.find(row => row.reviewer === 'alice')
+    assert.equal(alice.totalReviews, 2)
+    assert.equal(alice.prsReviewedCount, 1)
+    assert.equal(alice.changesRequested, 1)
+    assert.equal(alice.medianResponseHours, '0.50')
+    assert.equal(alice.fastestResponseHours, '0.00')
+    assert.equal(alice.noCommentApprovalPct, 0)
+
+    const carol = summary.find(row => row.reviewer === 'carol')
+    assert.equal(carol.totalReviews, 1)
+    assert.equal(carol.commentOnlyReviews, 1)
+    assert.equal(carol.totalInlineComments, 2)
+    assert.equal(carol.medianResponseHours, '0.50')
+  })
+
+  it('summarizes authors without bot or failed PRs', () => {
+    const summary = calculateAuthorSummary(prs, ALWAYS_WORKING)
+    assert.deepEqual(summary.map(row => row.author), ['alice', 'bob'])
+
+    const [alice, bob] = summary
+    assert.equal(alice.prsAuthored, 1)
+    assert.equal(alice.authoredPrAvgCloseTime, '10.00')
+    assert.equal(alice.authoredPrAvgReviewTime, '1.00')
+    assert.equal(bob.authoredPrAvgCloseTime, '4.00')
+    assert.equal(bob.authoredPrAvgReviewTime, '0.00')
+    assert.equal(bob.authoredPrAvgIterations, '2.00')
+  })
+
+  it('leaves authors without a response out of the review time', () => {
+    const [row] = calculateAuthorSummary([makePR({ firstResponseAt: null })], ALWAYS_WORKING)
+    assert.equal(row.authoredPrAvgReviewTime, null)
+  })
+
+  it('computes team totals from the PRs themselves', () => {
+    const reviewerSummary = calculateReviewerSummary(prs, ALWAYS_WORKING)
+    const authorSummary = calculateAuthorSummary(prs, ALWAYS_WORKING)
+    const team = calculateTeamSummary(authorSummary, reviewerSummary, prs, ALWAYS_WORKING)
+
+    assert.equal(team.authored.totalPRs, 2)
+    assert.equal(team.authored.totalDevelopers, 2)
+    assert.equal(team.authored.avgCloseTime, 7)
+    assert.equal(team.authored.avgIterations, 1.5)
+    assert.equal(team.authored.avgChurnPct, 20)
+    assert.equal(team.authored.avgPrSize, 100)
+
+    // Reviews on the bot PR and the bot's review are not team reviews
+    assert.equal(team.reviewed.totalReviews, 4)
+    assert.equal(team.reviewed.totalReviewers, 3)
+    assert.equal(team.reviewed.medianResponseTime, 0.5)
+    assert.equal(team.reviewed.overallNoCommentPct, 50)
+    assert.equal(team.reviewed.avgInlineComments, 0.75)
+    assert.equal(team.reviewed.avgPrSizeReviewed, 100)
+  })
+
+  it('averages inline comments per review, the measure of the reviewer rows', () => {
+    // The dashboard scores reviewers on data without bot PRs, so both cover the same reviews
+    const humanPRs = [prA, prB]
+    const reviewerSummary = calculateReviewerSummary(humanPRs, ALWAYS_WORKING)
+    const team = calculateTeamSummary(calculateAuthorSummary(humanPRs, ALWAYS_WORKING), reviewerSummary, humanPRs, ALWAYS_WORKING)
+
+    const reviews = sum(reviewerSummary.map(row => row.totalReviews))
+    const comments = sum(reviewerSummary.map(row => row.totalInlineComments))
+    assert.equal(team.reviewed.avgInlineComments, comments / reviews)
+  })
+
+  it('does not count the author\'s own reviews', () => {
+    // alice replies to bob's comments from the review form on her own PR
+    const pr = makePR({
+      reviews: [
+        makeReview({ reviewer: 'bob', state: 'COMMENTED', hasComments: true }),
+        makeReview({ reviewer: 'alice', state: 'COMMENTED', hasComments: true, submittedAt: '2026-01-05T13:00:00Z' })
+      ]
+    })
+    const reviewerSummary = calculateReviewerSummary([pr], ALWAYS_WORKING)
+    assert.deepEqual(reviewerSummary.map(row => row.reviewer), ['bob'])
+
+    const authorSummary = calculateAuthorSummary([pr], ALWAYS_WORKING)
+    assert.equal(authorSummary[0].authoredPrAvgReviewCount, '1.00')
+    assert.equal(calculateTeamSummary(authorSummary, reviewerSummary, [pr], ALWAYS_WORKING).reviewed.totalReviews, 1)
+  })
+
+  it('has no medians for a team without responses', () => {
+    const pr = makePR({ firstResponseAt: null })
+    const team = calculateTeamSummary(calculateAuthorSummary([pr]), calculateReviewerSummary([pr]), [pr], ALWAYS_WORKING)
+    assert.equal(team.reviewed.medianResponseTime, null)
+    assert.equal(team.reviewed.totalReviews, 0)
+    assert.equal(team.reviewed.overallNoCommentPct, 0)
+  })
+})
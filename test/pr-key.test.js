@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { getPRKey } from '../shared/pr-key.js'
+import {
+  aggregateReviewerStats,
+  calculateReviewerSummary,
+  calculateAuthorSummary,
+  calculateTeamSummary
+} from '../shared/metrics-engine.js'
+import { ALWAYS_WORKING, makePR, makeReview } from './fixtures.js'
+
+// Two repos that both reached PR #120 in the same month, reviewed by the same person
+const frontend = makePR({
+  repo: 'fe-redesign',
+  number: 120,
+  url: 'https://github.com/example/fe-redesign/pull/120',
+  totalAdditions: 100,
+  totalDeletions: 0,
+  iterationCount: 1,
+  reviews: [
+    makeReview({ reviewer: 'bob', state: 'COMMENTED', submittedAt: '2026-01-05T11:00:00Z', hasComments: true }),
+    makeReview({ reviewer: 'bob', submittedAt: '2026-01-05T12:00:00Z' })
+  ],
+  conversationComments: [{ author: 'bob', kind: 'question' }]
+})
+const backend = makePR({
+  repo: 'be-revamp',
+  number: 120,
+  url: 'https://github.com/example/be-revamp/pull/120',
+  totalAdditions: 300,
+  totalDeletions: 0,
+  iterationCount: 3,
+  reviews: [makeReview({ reviewer: 'bob', submittedAt: '2026-01-05T13:00:00Z' })],
+  conversationComments: [{ author: 'bob', kind: 'question' }]
+})
+const prs = [frontend, backend]
+
+describe('PRs with the same number in different repos', () => {
+  it('get distinct keys', () => {
+    assert.equal(getPRKey(frontend), 'fe-redesign#120')
+    assert.equal(getPRKey(backend), 'be-revamp#120')
+  })
+
+  it('count as two reviewed PRs for the reviewer', () => {
+    const [bob] = aggregateReviewerStats(prs, ALWAYS_WORKING)
+    assert.equal(bob.totalReviews, 3)
+    assert.equal(bob.prsReviewedCount, 2)
+    assert.deepEqual(bob.prsByRepo, { 'fe-redesign': 1, 'be-revamp': 1 })
+    assert.equal(bob.avgPrSize, 200)
+    assert.equal(bob.avgIterations, 2)
+    assert.equal(bob.prsWithMultipleRounds, 1)
+  })
+
+  it('keep conversation comments of each PR', () => {
+    const [bob] = aggregateReviewerStats(prs, ALWAYS_WORKING)
+    // One per PR, not one per review of the frontend PR
+    assert.equal(bob.commentKinds.question, 2)
+  })
+
+  it('feed both PRs into the reviewer summary and team averages', () => {
+    const reviewerSummary = calculateReviewerSummary(prs, ALWAYS_WORKING)
+    const [bob] = reviewerSummary
+    assert.equal(bob.prsReviewedCount, 2)
+    assert.equal(bob['fe-redesign'], 1)
+    assert.equal(bob['be-revamp'], 1)
+
+    const team = calculateTeamSummary(calculateAuthorSummary(prs, ALWAYS_WORKING), reviewerSummary, prs, ALWAYS_WORKING)
+    assert.equal(team.reviewed.avgPrSizeReviewed, 200)
+  })
+
+  it('are still de-duplicated within one repo', () => {
+    const [bob] = aggregateReviewerStats([frontend, { ...frontend }], ALWAYS_WORKING)
+    assert.equal(bob.prsReviewedCount, 1)
+  })
+})
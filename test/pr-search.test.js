@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { searchInWindows, SEARCH_RESULT_CAP } from '../scripts/pr-search.js'
+
+const since = '2026-01-01T00:00:00Z'
+const until = '2026-01-31T23:59:59Z'
+const buildQuery = (from, to) => `merged:${from}..${to}`
+
+// Fake search over result timestamps: pages of 2, recording every call
+function createSearch(timestamps, { withCount }) {
+  const calls = []
+  const matching = (query) => {
+    const [from, to] = query.slice('merged:'.length).split('..').map(value => new Date(value).getTime())
+    return timestamps.filter(ms => ms >= from && ms <= to)
+  }
+  const search = {
+    async page(query, cursor) {
+      calls.push(['page', query, cursor])
+      const results = matching(query)
+      const offset = cursor ?? 0
+      const next = offset + 2 < results.length ? offset + 2 : null
+      return { total: results.length, items: results.slice(offset, offset + 2), next }
+    }
+  }
+  if (withCount) {
+    search.count = async (query) => {
+      calls.push(['count', query])
+      return matching(query).length
+    }
+  }
+  return { search, calls }
+}
+
+describe('searchInWindows', () => {
+  it('follows every page of a window under the cap', async () => {
+    const timestamps = [1, 2, 3, 4, 5].map(day => Date.UTC(2026, 0, day))
+    const { search, calls } = createSearch(timestamps, { withCount: false })
+    const items = await searchInWindows(search, buildQuery, since, until)
+
+    assert.deepEqual(items, timestamps)
+    assert.deepEqual(calls.map(([kind, , cursor]) => [kind, cursor]), [['page', null], ['page', 2], ['page', 4]])
+  })
+
+  it('splits a window over the cap', async () => {
+    // Just over the cap, half in the first week and half in the last
+    const timestamps = Array.from({ length: SEARCH_RESULT_CAP + 2 }, (_, i) =>
+      i % 2 === 0 ? Date.UTC(2026, 0, 2) + i : Date.UTC(2026, 0, 29) + i)
+    const { search } = createSearch(timestamps, { withCount: false })
+    const items = await searchInWindows(search, buildQuery, since, until)
+
+    assert.equal(items.length, timestamps.length)
+    assert.equal(new Set(items).size, timestamps.length)
+  })
+
+  it('counts before fetching pages when the search can count', async () => {
+    const timestamps = Array.from({ length: SEARCH_RESULT_CAP + 2 }, (_, i) =>
+      i % 2 === 0 ? Date.UTC(2026, 0, 2) + i : Date.UTC(2026, 0, 29) + i)
+    const { search, calls } = createSearch(timestamps, { withCount: true })
+    await searchInWindows(search, buildQuery, since, until)
+
+    // No page is fetched for the whole month, which had to be split
+    const wholeMonth = buildQuery(since, until)
+    assert.deepEqual(calls[0], ['count', wholeMonth])
+    assert.ok(!calls.some(([kind, query]) => kind === 'page' && query === wholeMonth))
+  })
+
+  it('fetches nothing for a counted window without results', async () => {
+    const { search, calls } = createSearch([], { withCount: true })
+    assert.deepEqual(await searchInWindows(search, buildQuery, since, until), [])
+    assert.deepEqual(calls.map(([kind]) => kind), ['count'])
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { resolveQualityProfile, calculateReviewerQualityScore } from '../shared/quality-score.js'
+
+const teamRelative = resolveQualityProfile({ profiles: { default: { teamRelative: { best: 0.5, worst: 2 } } } })
+const depthScore = (result) => result.components.find(component => component.id === 'depth').score
+
+describe('calculateReviewerQualityScore', () => {
+  const reviewer = { medianResponseHours: 2, noCommentApprovalPct: 0, commentsPerReview: 2 }
+
+  it('scores comments per review against the team comments per review', () => {
+    // Twice the team's comments per review scores 100, half of it 0
+    const teamAvg = { medianResponseTime: 4, overallNoCommentPct: 20, avgInlineComments: 1 }
+    assert.equal(depthScore(calculateReviewerQualityScore(reviewer, teamRelative, teamAvg)), 100)
+  })
+
+  it('falls back to the absolute thresholds without a team average', () => {
+    assert.equal(depthScore(calculateReviewerQualityScore({ ...reviewer, commentsPerReview: 1 }, teamRelative, null)), 50)
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { assignRequestTimes } from '../scripts/review-timeline.js'
+import { makeReview } from './fixtures.js'
+
+const requested = (at, login) => ({ event: 'review_requested', created_at: at, requested_reviewer: { login } })
+const removed = (at, login) => ({ event: 'review_request_removed', created_at: at, requested_reviewer: { login } })
+const teamRequested = (at, slug) => ({ event: 'review_requested', created_at: at, requested_team: { slug } })
+const teamRemoved = (at, slug) => ({ event: 'review_request_removed', created_at: at, requested_team: { slug } })
+
+describe('assignRequestTimes', () => {
+  const review = makeReview({ reviewer: 'bob', submittedAt: '2026-01-05T12:00:00Z' })
+
+  it('uses the request the review answered', () => {
+    const [result] = assignRequestTimes([review], [requested('2026-01-05T09:00:00Z', 'bob')])
+    assert.equal(result.requestedAt, '2026-01-05T09:00:00.000Z')
+  })
+
+  it('ignores a request removed before the review', () => {
+    const timeline = [requested('2026-01-05T09:00:00Z', 'bob'), removed('2026-01-05T10:00:00Z', 'bob')]
+    const [result] = assignRequestTimes([review], timeline)
+    assert.equal(result.requestedAt, null)
+  })
+
+  it('uses a re-request after a removal', () => {
+    const timeline = [
+      requested('2026-01-05T09:00:00Z', 'bob'),
+      removed('2026-01-05T10:00:00Z', 'bob'),
+      requested('2026-01-05T11:00:00Z', 'bob')
+    ]
+    const [result] = assignRequestTimes([review], timeline)
+    assert.equal(result.requestedAt, '2026-01-05T11:00:00.000Z')
+  })
+
+  it('keeps a request removed only after the review', () => {
+    const timeline = [requested('2026-01-05T09:00:00Z', 'bob'), removed('2026-01-05T13:00:00Z', 'bob')]
+    const [result] = assignRequestTimes([review], timeline)
+    assert.equal(result.requestedAt, '2026-01-05T09:00:00.000Z')
+  })
+
+  it('falls back to a team request that was not removed', () => {
+    const timeline = [
+      teamRequested('2026-01-05T08:00:00Z', 'frontend'),
+      teamRemoved('2026-01-05T08:30:00Z', 'frontend'),
+      teamRequested('2026-01-05T09:30:00Z', 'backend')
+    ]
+    const [result] = assignRequestTimes([review], timeline)
+    assert.equal(result.requestedAt, '2026-01-05T09:30:00.000Z')
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { openMetricsStore } from '../scripts/sqlite-store.js'
+import { calculateReviewerSummary } from '../shared/metrics-engine.js'
+import { calculateWorkingHours } from '../shared/working-calendar.js'
+import { ALWAYS_WORKING, makePR, makeReview } from './fixtures.js'
+
+// better-sqlite3 is an optional install (the store loads it lazily); without it there is nothing to test
+const sqlite = await import('better-sqlite3').catch(() => null)
+
+describe('openMetricsStore', { skip: !sqlite && 'better-sqlite3 is not installed' }, async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'metrics-store-'))
+  after(() => rm(dir, { recursive: true, force: true }))
+
+  // alice replies to bob from the review form on her own PR; ci-bot also reviews
+  const prs = [
+    makePR({
+      number: 1,
+      author: 'alice',
+      reviews: [
+        makeReview({ reviewer: 'bob', state: 'COMMENTED', hasComments: true, inlineCommentCount: 2, submittedAt: '2026-01-05T11:00:00Z' }),
+        makeReview({ reviewer: 'alice', state: 'COMMENTED', hasComments: true, inlineCommentCount: 1, submittedAt: '2026-01-05T12:00:00Z' }),
+        makeReview({ reviewer: 'bob', submittedAt: '2026-01-05T13:00:00Z' }),
+        makeReview({ reviewer: 'ci-bot', isBot: true, submittedAt: '2026-01-05T10:05:00Z' })
+      ]
+    }),
+    makePR({
+      number: 2,
+      author: 'bob',
+      reviews: [makeReview({ reviewer: 'alice', submittedAt: '2026-01-05T14:00:00Z' })]
+    })
+  ]
+
+  it('stores the same reviews the engine counts', async () => {
+    const dbPath = join(dir, 'metrics.db')
+    const store = await openMetricsStore(dbPath)
+    store.upsertPRs('thgenergy', prs, (start, end, login) => calculateWorkingHours(start, end, ALWAYS_WORKING, login))
+    store.close()
+
+    // Same filters as the dashboard's reviewer aggregates
+    const db = new sqlite.default(dbPath, { readonly: true })
+    const rows = db.prepare(`
+      SELECT r.reviewer,
+        COUNT(*) AS totalReviews,
+        SUM(r.state = 'APPROVED' AND r.has_comments = 0) AS noCommentApprovals,
+        SUM(r.inline_comment_count) AS totalInlineComments
+      FROM reviews r
+      JOIN pull_requests p ON p.id = r.pr_id
+      WHERE p.author_is_bot = 0 AND r.is_bot = 0
+      GROUP BY r.reviewer
+      ORDER BY r.reviewer
+    `).all()
+    db.close()
+
+    const engine = calculateReviewerSummary(prs, ALWAYS_WORKING)
+      .map(row => ({
+        reviewer: row.reviewer,
+        totalReviews: row.totalReviews,
+        noCommentApprovals: row.noCommentApprovals,
+        totalInlineComments: row.totalInlineComments
+      }))
+      .sort((a, b) => a.reviewer.localeCompare(b.reviewer))
+
+    assert.deepEqual(rows, engine)
+    assert.deepEqual(rows.map(row => [row.reviewer, row.totalReviews]), [['alice', 1], ['bob', 2]])
+  })
+})
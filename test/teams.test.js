@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { createTeamDirectory, applyIdentities } from '../scripts/teams.js'
+import { buildReviewTimeline } from '../scripts/review-timeline.js'
+import { calculateReviewerSummary } from '../shared/metrics-engine.js'
+import { ALWAYS_WORKING, makePR, makeReview } from './fixtures.js'
+
+const directory = createTeamDirectory({
+  aliases: { jane: ['jane-work', 'Jane-Personal'] },
+  groups: { platform: ['jane-work', 'bob'] }
+})
+
+describe('createTeamDirectory', () => {
+  it('maps every alias to the person, ignoring case', () => {
+    assert.equal(directory.canonical('jane-work'), 'jane')
+    assert.equal(directory.canonical('jane-personal'), 'jane')
+    assert.equal(directory.canonical('bob'), 'bob')
+  })
+
+  it('lists team members by canonical name', () => {
+    assert.deepEqual(directory.getTeams(), { platform: ['bob', 'jane'] })
+  })
+})
+
+describe('reviews of your own PR under an alias', () => {
+  // jane opens the PR as jane-work and replies to bob's review as jane-personal
+  const pr = makePR({
+    author: 'jane-work',
+    reviews: [
+      makeReview({ reviewer: 'jane-personal', state: 'COMMENTED', submittedAt: '2026-01-05T11:00:00Z' }),
+      makeReview({ reviewer: 'bob', state: 'CHANGES_REQUESTED', submittedAt: '2026-01-05T12:00:00Z' })
+    ]
+  })
+  const isAuthor = login => directory.canonical(login) === directory.canonical(pr.author)
+
+  it('are left out of the timeline', () => {
+    const timeline = buildReviewTimeline(pr, [], pr.reviews, isAuthor)
+    assert.deepEqual(timeline.filter(event => event.type === 'reviewed').map(event => event.actor), ['bob'])
+  })
+
+  it('do not count as reviews once identities are merged', () => {
+    const [merged] = applyIdentities([pr], directory)
+    assert.equal(merged.author, 'jane')
+    assert.equal(merged.authorLogin, 'jane-work')
+    assert.deepEqual(merged.reviews.map(review => review.reviewer), ['jane', 'bob'])
+    assert.equal(merged.reviews[0].reviewerLogin, 'jane-personal')
+
+    const summary = calculateReviewerSummary([merged], ALWAYS_WORKING)
+    assert.deepEqual(summary.map(row => row.reviewer), ['bob'])
+  })
+})
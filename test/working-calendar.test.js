@@ -0,0 +1,97 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { calculateWorkingHours, resolveWorkingCalendar, DEFAULT_WORKING_CALENDAR } from '../shared/working-calendar.js'
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6]
+
+// Bucharest is UTC+2 in winter and UTC+3 in summer
+const BUCHAREST = { timezone: 'Europe/Bucharest', workdays: [1, 2, 3, 4, 5], hours: { start: '10:00', end: '18:00' }, holidays: [] }
+const BUCHAREST_ALL_DAY = { ...BUCHAREST, workdays: EVERY_DAY, hours: { start: '00:00', end: '24:00' } }
+
+describe('calculateWorkingHours', () => {
+  it('counts only the working window on workdays', () => {
+    // Fri 09:00 to Mon 12:00 local: 8h on Friday, the weekend skipped, 2h on Monday
+    assert.equal(calculateWorkingHours('2026-01-09T07:00:00Z', '2026-01-12T10:00:00Z', BUCHAREST), 10)
+  })
+
+  it('is 0 for missing or reversed timestamps', () => {
+    assert.equal(calculateWorkingHours(null, '2026-01-12T10:00:00Z', BUCHAREST), 0)
+    assert.equal(calculateWorkingHours('2026-01-12T10:00:00Z', '2026-01-12T09:00:00Z', BUCHAREST), 0)
+  })
+
+  describe('across DST transitions', () => {
+    it('has a 23-hour day when clocks spring forward', () => {
+      // 2026-03-29 00:00 EET to 2026-03-30 00:00 EEST
+      assert.equal(calculateWorkingHours('2026-03-28T22:00:00Z', '2026-03-29T21:00:00Z', BUCHAREST_ALL_DAY), 23)
+    })
+
+    it('has a 25-hour day when clocks fall back', () => {
+      // 2026-10-25 00:00 EEST to 2026-10-26 00:00 EET
+      assert.equal(calculateWorkingHours('2026-10-24T21:00:00Z', '2026-10-25T22:00:00Z', BUCHAREST_ALL_DAY), 25)
+    })
+
+    it('keeps the working window on local time after the change', () => {
+      const calendar = { ...BUCHAREST, workdays: EVERY_DAY }
+      // 10:00 local is 08:00Z before spring forward and 07:00Z after it
+      assert.equal(calculateWorkingHours('2026-03-28T07:00:00Z', '2026-03-28T09:00:00Z', calendar), 1)
+      assert.equal(calculateWorkingHours('2026-03-29T07:00:00Z', '2026-03-29T09:00:00Z', calendar), 2)
+      // And back to 08:00Z after falling back
+      assert.equal(calculateWorkingHours('2026-10-24T07:00:00Z', '2026-10-24T09:00:00Z', calendar), 2)
+      assert.equal(calculateWorkingHours('2026-10-25T07:00:00Z', '2026-10-25T09:00:00Z', calendar), 1)
+    })
+  })
+
+  describe('holidays', () => {
+    it('skips holiday dates', () => {
+      const calendar = { ...BUCHAREST, holidays: ['2026-01-05'] }
+      // Fri 10:00 to Tue 18:00 local: Friday and Tuesday only
+      assert.equal(calculateWorkingHours('2026-01-02T08:00:00Z', '2026-01-06T16:00:00Z', BUCHAREST), 24)
+      assert.equal(calculateWorkingHours('2026-01-02T08:00:00Z', '2026-01-06T16:00:00Z', calendar), 16)
+    })
+
+    it('starts a holiday at local midnight', () => {
+      const calendar = { ...BUCHAREST_ALL_DAY, holidays: ['2026-01-05'] }
+      // 21:00Z-22:00Z is still 2026-01-04 in Bucharest; 22:00Z-23:00Z is the holiday
+      assert.equal(calculateWorkingHours('2026-01-04T21:00:00Z', '2026-01-04T23:00:00Z', calendar), 1)
+    })
+  })
+
+  describe('developer overrides', () => {
+    const calendar = {
+      ...BUCHAREST,
+      developers: {
+        'uk-dev': { timezone: 'Europe/London' },
+        'on-leave': { holidays: ['2026-01-05'] }
+      }
+    }
+
+    it('measures in the developer\'s timezone', () => {
+      // 08:00Z-12:00Z is 10:00-14:00 in Bucharest but 08:00-12:00 in London
+      assert.equal(calculateWorkingHours('2026-01-05T08:00:00Z', '2026-01-05T12:00:00Z', calendar), 4)
+      assert.equal(calculateWorkingHours('2026-01-05T08:00:00Z', '2026-01-05T12:00:00Z', calendar, 'uk-dev'), 2)
+    })
+
+    it('applies the developer\'s holidays to them only', () => {
+      assert.equal(calculateWorkingHours('2026-01-05T08:00:00Z', '2026-01-05T12:00:00Z', calendar, 'on-leave'), 0)
+      assert.equal(calculateWorkingHours('2026-01-05T08:00:00Z', '2026-01-05T12:00:00Z', calendar, 'someone-else'), 4)
+    })
+
+    it('keeps the team values for fields the override does not set', () => {
+      const rules = resolveWorkingCalendar(calendar, 'uk-dev')
+      assert.equal(rules.timezone, 'Europe/London')
+      assert.deepEqual(rules.hours, BUCHAREST.hours)
+      assert.deepEqual(rules.workdays, BUCHAREST.workdays)
+    })
+  })
+
+  describe('without a timezone', () => {
+    it('uses the default calendar\'s zone, not the runtime\'s', () => {
+      assert.equal(resolveWorkingCalendar({ ...BUCHAREST, timezone: null }).timezone, DEFAULT_WORKING_CALENDAR.timezone)
+      assert.equal(resolveWorkingCalendar(null).timezone, DEFAULT_WORKING_CALENDAR.timezone)
+      assert.equal(
+        calculateWorkingHours('2026-01-05T08:00:00Z', '2026-01-05T12:00:00Z', { ...BUCHAREST, timezone: null }),
+        calculateWorkingHours('2026-01-05T08:00:00Z', '2026-01-05T12:00:00Z', { ...BUCHAREST, timezone: DEFAULT_WORKING_CALENDAR.timezone })
+      )
+    })
+  })
+})